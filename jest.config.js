@@ -13,6 +13,8 @@ const config = {
     '^(\\.{1,2}/.*)\\.js$': '$1',
     '^@/(.*)$': '<rootDir>/src/$1',
   },
+  // Test projects contain package.json files with clashing names
+  modulePathIgnorePatterns: ['<rootDir>/test-projects/'],
   testEnvironment: 'node',
 };
 
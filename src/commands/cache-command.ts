@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Defines the 'cache' command for the check-my-deps CLI tool.
+ *
+ * This module handles management of the on-disk registry metadata cache that the
+ * export and update commands use to avoid downloading package documents on every run.
+ *
+ * Available subcommands:
+ * - clean: Removes all cached registry responses
+ */
+
+import { Command } from 'commander';
+
+import OutputService from '@/services/output-service';
+import getUserCacheDir from '@/utils/helpers/get-user-cache-dir';
+import npmRegistryClient from '@/utils/helpers/npm-registry-client';
+
+import type { OptionValues } from 'commander';
+
+const cacheCleanCommand = new Command()
+  .name('clean')
+  .description('Remove all cached registry metadata')
+  .option(
+    '--cache-dir <cacheDir>',
+    'The directory where registry metadata is cached. Defaults to the user cache directory.'
+  )
+  .option('-s, --silent', 'Prevent any output to the terminal.', false)
+  .action((options: OptionValues) => {
+    const outputService = new OutputService(Boolean(options.silent));
+
+    try {
+      const cacheDir = (options.cacheDir as string) || getUserCacheDir();
+
+      // Remove the cached entries
+      const removedCount = npmRegistryClient.cleanCache(cacheDir);
+
+      outputService.successMsg(`✓ Removed ${removedCount} cached entries from ${cacheDir}`);
+    } catch (error) {
+      outputService.errorMsg('✗ Cache clean failed');
+
+      outputService.error(error as Error);
+    }
+  });
+
+const cacheCommand = new Command()
+  .name('cache')
+  .description('Manage the registry metadata cache')
+  .addCommand(cacheCleanCommand);
+
+export default cacheCommand;
@@ -23,8 +23,18 @@ import NpmService from '@/services/npm-service';
 import OutputService from '@/services/output-service';
 import PackageFileService from '@/services/package-file-service';
 import ServiceCtx from '@/services/service-ctx';
-import { PACKAGE_FILE_NAME } from '@/utils/constants';
-import type { ExportFormat } from '@/utils/types';
+import {
+  DEFAULT_CACHE_TTL,
+  DEFAULT_DIST_TAG,
+  DEFAULT_REQUEST_RETRIES,
+  DEFAULT_REQUEST_TIMEOUT,
+  DEPENDENCY_TYPES,
+  PACKAGE_FILE_NAME,
+} from '@/utils/constants';
+import loadNpmConfig from '@/utils/helpers/load-npm-config';
+import loadPackageConfig from '@/utils/helpers/load-package-config';
+import parseListOption from '@/utils/helpers/parse-list-option';
+import type { ExportFormat, PackageManager } from '@/utils/types';
 
 import type { OptionValues } from 'commander';
 
@@ -48,6 +58,73 @@ const exportCommand = new Command()
     false
   )
   .option('--format <format>', 'The format of the export file (excel or json).', 'excel')
+  .option('--no-cache', 'Always fetch fresh metadata from the registry instead of using the cache.')
+  .option(
+    '--cache-dir <cacheDir>',
+    'The directory where registry metadata is cached. Defaults to the user cache directory.'
+  )
+  .option(
+    '--cache-ttl <minutes>',
+    'How long cached registry metadata is used before it is revalidated.',
+    String(DEFAULT_CACHE_TTL)
+  )
+  .option(
+    '--fail-on-fetch-error',
+    'Exit with a non-zero code when registry data could not be fetched for some packages.',
+    false
+  )
+  .option(
+    '--retries <count>',
+    'How many times a failed registry request is retried.',
+    String(DEFAULT_REQUEST_RETRIES)
+  )
+  .option(
+    '--request-timeout <ms>',
+    'How long a registry request may stay idle before it is aborted.',
+    String(DEFAULT_REQUEST_TIMEOUT)
+  )
+  .option(
+    '--package-manager <packageManager>',
+    'The package manager whose lockfile is read (npm, pnpm, yarn or bun). Detected from the lockfile by default.'
+  )
+  .option(
+    '--workspace <workspace>',
+    'Only analyze the dependencies of one workspace package, selected by name or path.'
+  )
+  .option(
+    '--tag <tag>',
+    'The dist-tag used as the latest version, e.g. next or beta. Packages without it use latest.',
+    DEFAULT_DIST_TAG
+  )
+  .option(
+    '--include <patterns>',
+    'Only analyze packages matching these comma-separated globs or /regexes/, e.g. @types/* or /^eslint/.',
+    parseListOption
+  )
+  .option(
+    '--exclude <patterns>',
+    'Skip packages matching these comma-separated globs or /regexes/.',
+    parseListOption
+  )
+  .option(
+    '--dep-types <depTypes>',
+    'Only analyze these comma-separated dependency types, e.g. dependencies,devDependencies.',
+    parseListOption
+  )
+  .option(
+    '--depth <depth>',
+    'How many levels of transitive dependencies below direct dependencies are analyzed (a number or "all").',
+    '0'
+  )
+  .option(
+    '--min-release-age <days>',
+    'Add a column with the newest update published at least this many days ago.',
+    '0'
+  )
+  .option(
+    '--no-release-dates',
+    'Leave out the release date columns, so only the smaller abbreviated registry metadata is downloaded.'
+  )
   .action(async (options: OptionValues) => {
     // Initialize output service
     const outputService = new OutputService(Boolean(options.silent));
@@ -57,13 +134,83 @@ const exportCommand = new Command()
     try {
       outputService.updateLoadingText(`Reading ${PACKAGE_FILE_NAME}...`);
 
+      const cwd = (options.cwd as string) || process.cwd();
+
+      const cacheTtl = Number(options.cacheTtl);
+
+      // Validate cache TTL
+      if (isNaN(cacheTtl) || cacheTtl < 0) {
+        throw new Error('Invalid cache TTL. Must be a non-negative number of minutes');
+      }
+
+      const retries = Number(options.retries);
+
+      // Validate retries
+      if (!Number.isInteger(retries) || retries < 0) {
+        throw new Error('Invalid retries. Must be a non-negative integer');
+      }
+
+      const requestTimeout = Number(options.requestTimeout);
+
+      // Validate request timeout
+      if (isNaN(requestTimeout) || requestTimeout <= 0) {
+        throw new Error('Invalid request timeout. Must be a positive number of milliseconds');
+      }
+
+      const packageManager = options.packageManager as PackageManager | undefined;
+
+      // Validate package manager
+      if (packageManager && !['npm', 'pnpm', 'yarn', 'bun'].includes(packageManager)) {
+        throw new Error('Invalid package manager. Must be one of: npm, pnpm, yarn, bun');
+      }
+
+      const depTypes = options.depTypes as string[] | undefined;
+
+      // Validate dependency types
+      if (depTypes?.some((depType) => !DEPENDENCY_TYPES.includes(depType))) {
+        throw new Error(`Invalid dependency types. Must be any of: ${DEPENDENCY_TYPES.join(', ')}`);
+      }
+
+      const minReleaseAge = Number(options.minReleaseAge);
+
+      // Validate minimum release age
+      if (isNaN(minReleaseAge) || minReleaseAge < 0) {
+        throw new Error('Invalid minimum release age. Must be a non-negative number of days');
+      }
+
+      const depth = options.depth === 'all' ? Infinity : Number(options.depth);
+
+      // Validate depth
+      if (!(depth === Infinity || (Number.isInteger(depth) && depth >= 0))) {
+        throw new Error('Invalid depth. Must be a non-negative integer or "all"');
+      }
+
       // Initialize service context
       const ctx = new ServiceCtx({
-        cwd: (options.cwd as string) || process.cwd(),
+        cwd,
         outputService,
         outputDir: (options.outputDir as string) || process.cwd(),
         silent: Boolean(options.silent),
         forceOverwrite: Boolean(options.forceOverwrite),
+        npmConfig: loadNpmConfig(cwd),
+        cache: Boolean(options.cache),
+        cacheDir: options.cacheDir as string | undefined,
+        cacheTtl,
+        retries,
+        requestTimeout,
+        packageManager,
+        workspace: options.workspace as string | undefined,
+        tag: options.tag as string,
+        distTags: loadPackageConfig(cwd).distTags,
+        filters: {
+          include: options.include as string[] | undefined,
+          exclude: options.exclude as string[] | undefined,
+          depTypes,
+        },
+        depth,
+        // Release dates need the full registry documents, the eligible version column needs them too
+        withReleaseDates: Boolean(options.releaseDates) || minReleaseAge > 0,
+        minReleaseAge,
       });
 
       // Initialize package file service
@@ -77,17 +224,27 @@ const exportCommand = new Command()
       outputService.updateLoadingText('Fetching npm registry data...');
 
       // Initialize npm service
-      const npmService = new NpmService(packages, ctx);
+      const npmService = new NpmService(packages, packageFileService.getLockFile(), ctx);
 
       outputService.updateLoadingText('Processing dependency information...');
 
       // Get package information from npm registry
       const exportList = await npmService.getList();
 
+      // Fail the run once it completes if some packages could not be fetched and that was requested
+      if (options.failOnFetchError && npmService.getFailedList().length > 0) {
+        process.exitCode = 1;
+      }
+
       outputService.updateLoadingText('Generating summary...');
 
       // Initialize summary service
-      const summary = new SummaryService(exportList, packageFileService, ctx);
+      const summary = new SummaryService(
+        exportList,
+        packageFileService,
+        npmService.getDuplicates(),
+        ctx
+      );
 
       // Determine which export format to use (default is excel)
       const format: ExportFormat = (options.format as ExportFormat) || 'excel';
@@ -99,12 +256,12 @@ const exportCommand = new Command()
         outputService.updateLoadingText('Creating JSON report...');
 
         // Initialize JSON export service
-        exportService = new JsonService(exportList, summary, ctx);
+        exportService = new JsonService(exportList, summary, npmService.getTransitiveList(), ctx);
       } else {
         outputService.updateLoadingText('Creating Excel report...');
 
         // Initialize Excel export service
-        exportService = new ExcelService(exportList, summary, ctx);
+        exportService = new ExcelService(exportList, summary, npmService.getTransitiveList(), ctx);
       }
 
       // Get the file extension from the export service
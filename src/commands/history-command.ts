@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Defines the 'history' command for the check-my-deps CLI tool.
+ *
+ * This module handles listing the update runs saved to the update history of a project,
+ * newest first, with the updates each of them applied. The IDs of the runs can be passed
+ * to the undo command to revert them.
+ */
+
+import { Command } from 'commander';
+
+import OutputService from '@/services/output-service';
+import UpdateHistory from '@/utils/helpers/update-history';
+
+import type { OptionValues } from 'commander';
+
+const historyCommand = new Command()
+  .name('history')
+  .description('List the update runs that can be reverted with the undo command')
+  .option(
+    '-c, --cwd <cwd>',
+    'The working directory of the updated project. Defaults to the current directory.'
+  )
+  .action((options: OptionValues) => {
+    const outputService = new OutputService(false);
+
+    try {
+      const cwd = (options.cwd as string) || process.cwd();
+
+      const entries = new UpdateHistory(cwd).list().reverse();
+
+      if (entries.length === 0) {
+        outputService.msg('No update runs have been saved yet.');
+
+        return;
+      }
+
+      for (const entry of entries) {
+        outputService.msg(
+          `${entry.id}  ${new Date(entry.timestamp).toLocaleString()}  ${entry.updates.length} packages`
+        );
+
+        for (const update of entry.updates) {
+          const packageName = update.workspaceName
+            ? `${update.packageName} (${update.workspaceName})`
+            : update.packageName;
+
+          outputService.msg(`  ${packageName}: ${update.currentVersion} → ${update.newVersion}`);
+        }
+      }
+    } catch (error) {
+      outputService.errorMsg('✗ Reading the update history failed');
+
+      outputService.error(error as Error);
+    }
+  });
+
+export default historyCommand;
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Defines the 'undo' command for the check-my-deps CLI tool.
+ *
+ * This module handles reverting update runs. Every update run saves package.json files
+ * and the lockfile as they were before it to the update history of the project in the
+ * user data directory, and this command writes them back.
+ *
+ * The undo process follows these steps:
+ * 1. Finds the last update run, or the run with the given ID, in the update history
+ * 2. Restores the package.json files and the lockfile saved with it
+ * 3. Removes the run and any later runs from the history
+ */
+
+import { Command } from 'commander';
+
+import OutputService from '@/services/output-service';
+import UpdateHistory from '@/utils/helpers/update-history';
+
+import type { OptionValues } from 'commander';
+
+const undoCommand = new Command()
+  .name('undo')
+  .description('Revert the last update run, or the run with the given ID')
+  .argument('[id]', 'The ID of the update run to revert, as listed by the history command.')
+  .option(
+    '-c, --cwd <cwd>',
+    'The working directory of the updated project. Defaults to the current directory.'
+  )
+  .option('-s, --silent', 'Prevent any output to the terminal.', false)
+  .action((id: string | undefined, options: OptionValues) => {
+    const outputService = new OutputService(Boolean(options.silent));
+
+    try {
+      const cwd = (options.cwd as string) || process.cwd();
+
+      // Restore the files saved before the run
+      const entry = new UpdateHistory(cwd).restore(id);
+
+      outputService.successMsg(
+        `✓ Reverted update run ${entry.id} of ${entry.updates.length} packages, restoring ${entry.files.map((file) => file.path).join(', ')}`
+      );
+
+      outputService.log(`Please run "${entry.packageManager} install" to update node_modules`);
+    } catch (error) {
+      outputService.errorMsg('✗ Undo failed');
+
+      outputService.error(error as Error);
+    }
+  });
+
+export default undoCommand;
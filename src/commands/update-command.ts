@@ -4,14 +4,22 @@
  * This module handles the update command functionality, which analyzes dependencies
  * in package.json and updates them according to specified semver rules.
  * The command supports multiple options including custom working directory,
- * silent mode, update level selection, and dry run mode.
+ * silent mode, update level selection, interactive selection, and dry run mode.
  *
  * The update process follows these steps:
  * 1. Reads package.json and extracts dependency information
  * 2. Fetches latest version data from npm registry
  * 3. Determines which packages can be updated based on the specified level
- * 4. Displays proposed updates to the user
+ * 4. Lets the user choose updates and their level in interactive mode, then displays them
  * 5. Updates package.json with new versions (unless in dry-run mode)
+ * 6. Optionally installs and verifies the updates, rolling them back if either step fails
+ *
+ * In bisect mode, subsets of the updates are installed and verified until the largest passing set is
+ * found. It is applied, installed and verified again, and the failing updates are written to a JSON
+ * and Markdown report.
+ *
+ * In git mode, each update, or each group of updates, is installed and committed on its own together
+ * with the lockfile.
  */
 
 import { Command } from 'commander';
@@ -20,9 +28,28 @@ import NpmService from '@/services/npm-service';
 import OutputService from '@/services/output-service';
 import PackageFileService from '@/services/package-file-service';
 import ServiceCtx from '@/services/service-ctx';
+import BisectService from '@/services/udpate/bisect-service';
+import GitUpdateService from '@/services/udpate/git-update-service';
+import InteractiveUpdateService from '@/services/udpate/interactive-update-service';
 import UpdateService from '@/services/udpate/update-service';
-import { PACKAGE_FILE_NAME } from '@/utils/constants';
-import type { UpdateLevel } from '@/utils/types';
+import {
+  DEFAULT_CACHE_TTL,
+  DEFAULT_DIST_TAG,
+  DEFAULT_REQUEST_RETRIES,
+  DEFAULT_REQUEST_TIMEOUT,
+  DEPENDENCY_TYPES,
+  PACKAGE_FILE_NAME,
+} from '@/utils/constants';
+import loadNpmConfig from '@/utils/helpers/load-npm-config';
+import loadPackageConfig from '@/utils/helpers/load-package-config';
+import parseListOption from '@/utils/helpers/parse-list-option';
+import type {
+  GitGroup,
+  PackageManager,
+  PackageUpdateInfo,
+  RangeStyle,
+  UpdateLevel,
+} from '@/utils/types';
 
 import type { OptionValues } from 'commander';
 
@@ -39,11 +66,101 @@ const updateCommand = new Command()
     'Specify the semver update level (latest, minor, patch). Controls how aggressive updates will be.',
     'latest'
   )
+  .option(
+    '--range-style <rangeStyle>',
+    'How version ranges are rewritten (keep, caret, tilde or exact). keep preserves the form of each range.',
+    'keep'
+  )
+  .option(
+    '-i, --interactive',
+    'Choose the updates to apply and their level from a list. Applies all updates when not run in a terminal.',
+    false
+  )
+  .option('--install', 'Run the install command of the package manager after updating.', false)
+  .option(
+    '--verify <command>',
+    'A command verifying the updates, e.g. "npm test". Updates are rolled back if it or the install fails.'
+  )
+  .option(
+    '--bisect',
+    'Find the updates failing verification by installing and verifying subsets of them, then apply the largest passing set. Requires --verify.',
+    false
+  )
+  .option(
+    '--git [branch]',
+    'Install and commit each update with the lockfile to git, on a new branch if a name is given. Requires no uncommitted changes.'
+  )
+  .option(
+    '--git-group <group>',
+    'Commit updates grouped by update-type or dependency-type instead of one commit per package.'
+  )
+  .option(
+    '-o, --output-dir <outputDir>',
+    'The directory where the bisect report is saved. Defaults to the working directory.'
+  )
   .option(
     '-d, --dry-run',
     `Show what would be updated without making actual changes to ${PACKAGE_FILE_NAME}.`,
     false
   )
+  .option('--no-cache', 'Always fetch fresh metadata from the registry instead of using the cache.')
+  .option(
+    '--cache-dir <cacheDir>',
+    'The directory where registry metadata is cached. Defaults to the user cache directory.'
+  )
+  .option(
+    '--cache-ttl <minutes>',
+    'How long cached registry metadata is used before it is revalidated.',
+    String(DEFAULT_CACHE_TTL)
+  )
+  .option(
+    '--fail-on-fetch-error',
+    'Exit with a non-zero code when registry data could not be fetched for some packages.',
+    false
+  )
+  .option(
+    '--retries <count>',
+    'How many times a failed registry request is retried.',
+    String(DEFAULT_REQUEST_RETRIES)
+  )
+  .option(
+    '--request-timeout <ms>',
+    'How long a registry request may stay idle before it is aborted.',
+    String(DEFAULT_REQUEST_TIMEOUT)
+  )
+  .option(
+    '--package-manager <packageManager>',
+    'The package manager whose lockfile is read (npm, pnpm, yarn or bun). Detected from the lockfile by default.'
+  )
+  .option(
+    '--workspace <workspace>',
+    'Only analyze the dependencies of one workspace package, selected by name or path.'
+  )
+  .option(
+    '--tag <tag>',
+    'The dist-tag used as the latest version, e.g. next or beta. Packages without it use latest.',
+    DEFAULT_DIST_TAG
+  )
+  .option(
+    '--include <patterns>',
+    'Only analyze packages matching these comma-separated globs or /regexes/, e.g. @types/* or /^eslint/.',
+    parseListOption
+  )
+  .option(
+    '--exclude <patterns>',
+    'Skip packages matching these comma-separated globs or /regexes/.',
+    parseListOption
+  )
+  .option(
+    '--dep-types <depTypes>',
+    'Only analyze these comma-separated dependency types, e.g. dependencies,devDependencies.',
+    parseListOption
+  )
+  .option(
+    '--min-release-age <days>',
+    'Only update to versions published at least this many days ago, falling back to older versions.',
+    '0'
+  )
   .action(async (options: OptionValues) => {
     const outputService = new OutputService(Boolean(options.silent));
 
@@ -58,13 +175,104 @@ const updateCommand = new Command()
         throw new Error('Invalid update level. Must be one of: latest, minor, patch');
       }
 
+      const rangeStyle = options.rangeStyle as RangeStyle;
+
+      // Validate range style
+      if (!['keep', 'caret', 'tilde', 'exact'].includes(rangeStyle)) {
+        throw new Error('Invalid range style. Must be one of: keep, caret, tilde, exact');
+      }
+
+      // Validate bisect mode, which needs a command telling passing updates from failing ones
+      if (options.bisect && !options.verify) {
+        throw new Error('The --bisect option requires --verify');
+      }
+
+      const gitGroup = options.gitGroup as GitGroup | undefined;
+
+      // Validate git options
+      if (gitGroup && !['update-type', 'dependency-type'].includes(gitGroup)) {
+        throw new Error('Invalid git group. Must be one of: update-type, dependency-type');
+      }
+
+      if (gitGroup && !options.git) {
+        throw new Error('The --git-group option requires --git');
+      }
+
+      if (options.git && options.bisect) {
+        throw new Error('The --git and --bisect options cannot be combined');
+      }
+
       outputService.updateLoadingText(`Reading ${PACKAGE_FILE_NAME}...`);
 
+      const cwd = (options.cwd as string) || process.cwd();
+
+      const cacheTtl = Number(options.cacheTtl);
+
+      // Validate cache TTL
+      if (isNaN(cacheTtl) || cacheTtl < 0) {
+        throw new Error('Invalid cache TTL. Must be a non-negative number of minutes');
+      }
+
+      const retries = Number(options.retries);
+
+      // Validate retries
+      if (!Number.isInteger(retries) || retries < 0) {
+        throw new Error('Invalid retries. Must be a non-negative integer');
+      }
+
+      const requestTimeout = Number(options.requestTimeout);
+
+      // Validate request timeout
+      if (isNaN(requestTimeout) || requestTimeout <= 0) {
+        throw new Error('Invalid request timeout. Must be a positive number of milliseconds');
+      }
+
+      const minReleaseAge = Number(options.minReleaseAge);
+
+      // Validate minimum release age
+      if (isNaN(minReleaseAge) || minReleaseAge < 0) {
+        throw new Error('Invalid minimum release age. Must be a non-negative number of days');
+      }
+
+      const packageManager = options.packageManager as PackageManager | undefined;
+
+      // Validate package manager
+      if (packageManager && !['npm', 'pnpm', 'yarn', 'bun'].includes(packageManager)) {
+        throw new Error('Invalid package manager. Must be one of: npm, pnpm, yarn, bun');
+      }
+
+      const depTypes = options.depTypes as string[] | undefined;
+
+      // Validate dependency types
+      if (depTypes?.some((depType) => !DEPENDENCY_TYPES.includes(depType))) {
+        throw new Error(`Invalid dependency types. Must be any of: ${DEPENDENCY_TYPES.join(', ')}`);
+      }
+
       // Create service context
       const ctx = new ServiceCtx({
-        cwd: (options.cwd as string) || process.cwd(),
+        cwd,
         outputService,
         silent: Boolean(options.silent),
+        outputDir: options.outputDir as string | undefined,
+        npmConfig: loadNpmConfig(cwd),
+        cache: Boolean(options.cache),
+        cacheDir: options.cacheDir as string | undefined,
+        cacheTtl,
+        retries,
+        requestTimeout,
+        packageManager,
+        workspace: options.workspace as string | undefined,
+        tag: options.tag as string,
+        distTags: loadPackageConfig(cwd).distTags,
+        filters: {
+          include: options.include as string[] | undefined,
+          exclude: options.exclude as string[] | undefined,
+          depTypes,
+        },
+        // Only the interactive list and the minimum release age need release dates, otherwise
+        // abbreviated registry documents are enough
+        withReleaseDates: Boolean(options.interactive) || minReleaseAge > 0,
+        minReleaseAge,
       });
 
       outputService.updateLoadingText('Extracting package information...');
@@ -78,26 +286,106 @@ const updateCommand = new Command()
       outputService.updateLoadingText('Fetching npm registry data...');
 
       // Initialize npm service
-      const npmService = new NpmService(packages, ctx);
+      const npmService = new NpmService(packages, packageFileService.getLockFile(), ctx);
 
       outputService.updateLoadingText('Processing dependency information...');
 
       // Get package information from npm registry
       const packageInfoList = await npmService.getList();
 
+      // Fail the run once it completes if some packages could not be fetched and that was requested
+      if (options.failOnFetchError && npmService.getFailedList().length > 0) {
+        process.exitCode = 1;
+      }
+
       outputService.updateLoadingText('Determining updates...');
 
       // Initialize update service
-      const updateService = new UpdateService(packageInfoList, updateLevel, ctx);
+      const updateService = new UpdateService(
+        packageInfoList,
+        updateLevel,
+        rangeStyle,
+        packageFileService.getLockFile(),
+        ctx
+      );
 
-      // Determine updates
-      const updates = updateService.prepareUpdates();
+      const gitUpdateService = options.git
+        ? new GitUpdateService(updateService, packageFileService.getLockFile(), ctx)
+        : undefined;
 
-      // Check if there are updates
-      if (updates.length === 0) {
-        outputService.stopLoadingSuccess('All packages are already up to date!');
+      // Refuse to commit on top of uncommitted changes before any file is touched
+      await gitUpdateService?.checkWorkingTree();
 
-        return;
+      // The interactive list needs a terminal to read keys from
+      const interactive =
+        Boolean(options.interactive) && !options.silent && InteractiveUpdateService.isSupported();
+
+      if (options.interactive && !interactive) {
+        outputService.log('Interactive mode requires a terminal, all updates will be applied');
+      }
+
+      let updates: Array<PackageUpdateInfo>;
+
+      if (interactive) {
+        // Determine the updates of every level
+        const choices = updateService.prepareUpdateChoices();
+
+        if (choices.length === 0) {
+          outputService.stopLoadingSuccess('All packages are already up to date!');
+
+          return;
+        }
+
+        // The spinner would draw over the list
+        outputService.stopLoading();
+
+        const selectedUpdates = await new InteractiveUpdateService(choices, ctx).selectUpdates();
+
+        if (!selectedUpdates) {
+          outputService.msg('✗ Update cancelled, no changes were made.');
+
+          return;
+        }
+
+        if (selectedUpdates.length === 0) {
+          outputService.msg('✓ No updates selected.');
+
+          return;
+        }
+
+        outputService.startLoading('Preparing selected updates...');
+
+        updates = selectedUpdates;
+      } else {
+        // Determine updates
+        updates = updateService.prepareUpdates();
+
+        // Check if there are updates
+        if (updates.length === 0) {
+          // Packages may still have newer versions that are too recent to update to
+          if (updateService.getHeldBackPackages().length > 0) {
+            updateService.displayUpdates(updates);
+
+            outputService.stopLoadingSuccess(
+              `No updates were published at least ${minReleaseAge} days ago.`
+            );
+
+            return;
+          }
+
+          // Or newer versions that are all deprecated
+          if (updateService.getDeprecatedUpdatesPackages().length > 0) {
+            updateService.displayUpdates(updates);
+
+            outputService.stopLoadingSuccess('No updates to versions that are not deprecated.');
+
+            return;
+          }
+
+          outputService.stopLoadingSuccess('All packages are already up to date!');
+
+          return;
+        }
       }
 
       // Display the updates
@@ -112,11 +400,78 @@ const updateCommand = new Command()
         return;
       }
 
+      // Find the updates failing verification and apply the rest
+      if (options.bisect) {
+        const bisectService = new BisectService(
+          updateService,
+          packageFileService,
+          options.verify as string,
+          ctx
+        );
+
+        const result = await bisectService.bisect(updates);
+
+        const reportPaths = bisectService.writeReports(result);
+
+        if (result.failing.length > 0 || result.rolledBack) {
+          process.exitCode = 1;
+        }
+
+        if (!result.rolledBack) {
+          outputService.stopLoadingSuccess(
+            `Bisect completed after ${result.trials} trials. ${result.applied.length} packages updated, ${result.failing.length} failing verification.`
+          );
+        }
+
+        outputService.log(`Reports saved to ${reportPaths.join(' and ')}`);
+
+        return;
+      }
+
+      // Commit the updates one at a time, or in groups
+      if (gitUpdateService) {
+        if (typeof options.git === 'string') {
+          await gitUpdateService.createBranch(options.git);
+        }
+
+        const { commitCount, failed } = await gitUpdateService.commitUpdates(
+          updates,
+          gitGroup,
+          options.verify as string | undefined
+        );
+
+        if (failed) {
+          process.exitCode = 1;
+
+          return;
+        }
+
+        outputService.stopLoadingSuccess(
+          `Successfully committed ${updates.length} packages in ${commitCount} commits!`
+        );
+
+        return;
+      }
+
       // Update versions in package.json
       outputService.updateLoadingText(`Updating ${updates.length} packages...`);
 
       // Apply updates
-      const updatedCount = updateService.applyUpdates(updates);
+      const updatedCount = updateService.applyUpdates(updates, false, Boolean(options.install));
+
+      // Install and verify the updates, restoring package.json and the lockfile if either step fails
+      if (
+        updatedCount > 0 &&
+        (options.install || options.verify) &&
+        !(await updateService.verifyUpdates(
+          Boolean(options.install),
+          options.verify as string | undefined
+        ))
+      ) {
+        process.exitCode = 1;
+
+        return;
+      }
 
       // Check if any updates were applied
       if (updatedCount > 0) {
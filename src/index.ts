@@ -5,7 +5,7 @@
  *
  * This module serves as the main entry point for the CLI tool and is responsible for:
  * - Setting up the command-line interface using Commander
- * - Registering available commands (export and update)
+ * - Registering available commands (export, update, undo, history and cache)
  * - Handling process signals for graceful termination
  * - Parsing command-line arguments
  * - Initializing the application with package information
@@ -13,10 +13,16 @@
  * The CLI provides two main commands:
  * - export: Analyzes dependencies and exports reports in various formats (default command)
  * - update: Updates package.json dependencies based on specified rules
+ * - undo: Reverts an update run from the update history
+ * - history: Lists the update runs saved to the update history
+ * - cache: Manages the on-disk registry metadata cache
  */
 import { Command } from 'commander';
 
+import cacheCommand from '@/commands/cache-command';
 import exportCommand from '@/commands/export-command';
+import historyCommand from '@/commands/history-command';
+import undoCommand from '@/commands/undo-command';
 import updateCommand from '@/commands/update-command';
 import getPackageInfo from '@/utils/helpers/get-package-info';
 
@@ -40,6 +46,15 @@ async function main() {
   // Add update command
   program.addCommand(updateCommand);
 
+  // Add undo command
+  program.addCommand(undoCommand);
+
+  // Add history command
+  program.addCommand(historyCommand);
+
+  // Add cache command
+  program.addCommand(cacheCommand);
+
   // Parse command-line arguments
   program.parse(process.argv);
 }
@@ -5,9 +5,15 @@
  * - Creating multiple worksheets (summary and detailed dependencies)
  * - Formatting cells with colors based on update status (major, minor, patch)
  * - Adding hyperlinks to npm package URLs
- * - Highlighting deprecated packages
- * - Generating summary statistics by dependency type
- * - Including project metadata and report information
+ * - Highlighting deprecated packages and packages that failed to fetch
+ * - Generating summary statistics by dependency type and by workspace package
+ * - Showing the wanted version allowed by the required range next to the installed version
+ * - Adding release date columns unless release dates are left out
+ * - Adding a column with the newest update old enough for the minimum release age, when set
+ * - Adding a workspace column for projects with workspaces
+ * - Listing transitive dependencies with the chain of packages that pulled them in, when analyzed
+ * - Listing packages installed at more than one version and whether they can be deduplicated
+ * - Including project metadata and report information, with the filters in effect
  *
  * The service extends the base ExportService and specializes in Excel-specific
  * formatting and presentation of dependency data for better readability and analysis.
@@ -31,10 +37,16 @@ class ExcelService extends ExportService {
     minor: 'FFA500', // Orange color
     patch: 'ADD8E6', // Blue color
     upToDate: '00FF00', // Green color
+    failed: 'FF0000', // Red color
   };
 
-  constructor(list: PackageInfoService[], summary: SummaryService, ctx: ServiceType) {
-    super(list, summary, ctx);
+  constructor(
+    list: PackageInfoService[],
+    summary: SummaryService,
+    transitiveList: PackageInfoService[],
+    ctx: ServiceType
+  ) {
+    super(list, summary, transitiveList, ctx);
 
     this.workbook = new ExcelJS.Workbook();
 
@@ -43,6 +55,14 @@ class ExcelService extends ExportService {
     this.handleSummaryWorksheet();
 
     this.handleDependenciesWorksheet();
+
+    if (this.transitiveList.length) {
+      this.handleTransitiveWorksheet();
+    }
+
+    if (this.summary.getDuplicates().length) {
+      this.handleDuplicatesWorksheet();
+    }
   }
 
   /**
@@ -210,6 +230,8 @@ class ExcelService extends ExportService {
       { width: 10 }, // H - Minor
       { width: 10 }, // I - Patch
       { width: 10 }, // J - Deprecated
+      { width: 10 }, // K - Failed
+      { width: 10 }, // L - Behind Wanted
     ];
 
     // Get report info from summary service
@@ -224,11 +246,24 @@ class ExcelService extends ExportService {
 
     worksheetSum.addRow(['Project Version:', reportInfo.projectVersion]);
 
+    // Add the filters in effect, since the report only covers part of the dependencies then
+    if (reportInfo.filters?.depTypes) {
+      worksheetSum.addRow(['Dependency Types:', reportInfo.filters.depTypes.join(', ')]);
+    }
+
+    if (reportInfo.filters?.include) {
+      worksheetSum.addRow(['Included Packages:', reportInfo.filters.include.join(', ')]);
+    }
+
+    if (reportInfo.filters?.exclude) {
+      worksheetSum.addRow(['Excluded Packages:', reportInfo.filters.exclude.join(', ')]);
+    }
+
     // Add empty row for spacing
     worksheetSum.addRow([]);
 
-    // Add column headers for dependency table (row 6)
-    worksheetSum.addRow([
+    // Add column headers for dependency table
+    const headerRow = worksheetSum.addRow([
       'Dependency Type',
       'Total',
       'From npm Registry',
@@ -239,10 +274,12 @@ class ExcelService extends ExportService {
       'Minor',
       'Patch',
       'Deprecated',
+      'Failed',
+      'Behind Wanted',
     ]);
 
     // Make the header row bold
-    worksheetSum.getRow(6).eachCell((cell) => {
+    headerRow.eachCell((cell) => {
       cell.font = { bold: true };
     });
 
@@ -259,6 +296,8 @@ class ExcelService extends ExportService {
         stats.minor,
         stats.patch,
         stats.deprecated,
+        stats.failed,
+        stats.behindWanted,
       ]);
     }
 
@@ -280,6 +319,8 @@ class ExcelService extends ExportService {
       totals.minor,
       totals.patch,
       totals.deprecated,
+      totals.failed,
+      totals.behindWanted,
     ]);
 
     // Apply bold formatting to the total row
@@ -287,6 +328,54 @@ class ExcelService extends ExportService {
       cell.font = { bold: true };
     });
 
+    // Add summary data for each workspace package in projects with workspaces
+    if (this.summaryData.byWorkspace) {
+      worksheetSum.addRow([]);
+
+      const workspaceHeaderRow = worksheetSum.addRow([
+        'Workspace',
+        'Total',
+        'From npm Registry',
+        'Not From npm Registry',
+        'Up-to-Date',
+        'Outdated',
+        'Major',
+        'Minor',
+        'Patch',
+        'Deprecated',
+        'Failed',
+        'Behind Wanted',
+      ]);
+
+      workspaceHeaderRow.eachCell((cell) => {
+        cell.font = { bold: true };
+      });
+
+      for (const [workspaceName, stats] of Object.entries(this.summaryData.byWorkspace)) {
+        worksheetSum.addRow([
+          workspaceName,
+          stats.total,
+          stats.fromNpmRegistry,
+          stats.notFromNpmRegistry,
+          stats.upToDate,
+          stats.outdated,
+          stats.major,
+          stats.minor,
+          stats.patch,
+          stats.deprecated,
+          stats.failed,
+          stats.behindWanted,
+        ]);
+      }
+    }
+
+    worksheetSum.addRow([]);
+
+    // Add the number of packages installed at more than one version
+    worksheetSum.addRow(['Duplicated Packages:', this.summaryData.duplicates.total]);
+
+    worksheetSum.addRow(['Can Be Deduped:', this.summaryData.duplicates.dedupable]);
+
     // Add empty rows for spacing
     worksheetSum.addRow([]);
 
@@ -300,7 +389,7 @@ class ExcelService extends ExportService {
       const infoRow = worksheetSum.addRow([sourceInfoRows.info]);
 
       // Merge cells for the info text and apply styling
-      worksheetSum.mergeCells(infoRow.number, 1, infoRow.number, 10);
+      worksheetSum.mergeCells(infoRow.number, 1, infoRow.number, 12);
 
       const infoCell = infoRow.getCell(1);
 
@@ -328,60 +417,65 @@ class ExcelService extends ExportService {
 
     const timeUnitCapitalized = timeUnit.charAt(0).toUpperCase() + timeUnit.slice(1);
 
+    // Only projects with workspaces get a workspace column
+    const hasWorkspaces = Boolean(this.summaryData.byWorkspace);
+
+    const minReleaseAge = this.ctx.minReleaseAge ?? 0;
+
+    // Release dates are only fetched when needed, otherwise their columns are left out
+    const releaseDateColumns = (label: string, dateKey: string, timeSinceReleaseKey: string) =>
+      this.ctx.withReleaseDates
+        ? [
+            { header: `${label} Published Date`, key: dateKey, width: 15 },
+            {
+              header: `${label} Time Since Release (${timeUnitCapitalized})`,
+              key: timeSinceReleaseKey,
+              width: 15,
+            },
+          ]
+        : [];
+
     worksheetDeps.columns = [
       { header: 'Package Name', key: 'packageName', width: 30 },
+      ...(hasWorkspaces ? [{ header: 'Workspace', key: 'workspaceName', width: 20 }] : []),
       { header: 'Dependency Type', key: 'dependencyType', width: 15 },
       { header: 'Update Status', key: 'updateStatus', width: 10 },
       { header: 'Required Version', key: 'versionRequired', width: 10 },
       { header: 'Installed Version', key: 'installedVersion', width: 10 },
       { header: 'Installed Version Deprecated', key: 'installedVersionDeprecated', width: 10 },
-      {
-        header: 'Installed Version Published Date',
-        key: 'installDate',
-        width: 15,
-      },
-      {
-        header: `Installed Version Time Since Release (${timeUnitCapitalized})`,
-        key: 'installedTimeSinceRelease',
-        width: 15,
-      },
+      ...releaseDateColumns('Installed Version', 'installDate', 'installedTimeSinceRelease'),
+      { header: 'Wanted Version', key: 'wantedVersion', width: 10 },
+      { header: 'Wanted Version Deprecated', key: 'wantedVersionDeprecated', width: 10 },
       { header: 'Latest Patch Version', key: 'latestPatch', width: 10 },
       { header: 'Latest Patch Version Deprecated', key: 'latestPatchDeprecated', width: 10 },
-      {
-        header: 'Latest Patch Version Published Date',
-        key: 'latestPatchDate',
-        width: 15,
-      },
-      {
-        header: `Latest Patch Version Time Since Release (${timeUnitCapitalized})`,
-        key: 'latestPatchTimeSinceRelease',
-        width: 15,
-      },
+      ...releaseDateColumns(
+        'Latest Patch Version',
+        'latestPatchDate',
+        'latestPatchTimeSinceRelease'
+      ),
       { header: 'Latest Minor Version', key: 'latestMinor', width: 10 },
       { header: 'Latest Minor Version Deprecated', key: 'latestMinorDeprecated', width: 10 },
-      {
-        header: 'Latest Minor Version Published Date',
-        key: 'latestMinorDate',
-        width: 15,
-      },
-      {
-        header: `Latest Minor Version Time Since Release (${timeUnitCapitalized})`,
-        key: 'latestMinorTimeSinceRelease',
-        width: 15,
-      },
+      ...releaseDateColumns(
+        'Latest Minor Version',
+        'latestMinorDate',
+        'latestMinorTimeSinceRelease'
+      ),
       { header: 'Latest Available Version', key: 'latestVersion', width: 15 },
+      { header: 'Latest Version Dist-Tag', key: 'distTag', width: 10 },
       { header: 'Latest Available Version Deprecated', key: 'latestVersionDeprecated', width: 10 },
-      {
-        header: 'Latest Version Published Date',
-        key: 'latestVersionDate',
-        width: 15,
-      },
-      {
-        header: `Latest Version Time Since Release (${timeUnitCapitalized})`,
-        key: 'latestVersionTimeSinceRelease',
-        width: 15,
-      },
+      ...releaseDateColumns('Latest Version', 'latestVersionDate', 'latestVersionTimeSinceRelease'),
+      ...(minReleaseAge > 0
+        ? [
+            {
+              header: `Eligible Version (Released ${minReleaseAge}+ Days Ago)`,
+              key: 'eligibleVersion',
+              width: 15,
+            },
+          ]
+        : []),
       { header: 'Registry Source', key: 'registrySource', width: 20 },
+      { header: 'Fetch Status', key: 'fetchStatus', width: 10 },
+      { header: 'Fetch Error', key: 'fetchError', width: 40 },
     ];
 
     // Make the header row bold
@@ -399,6 +493,7 @@ class ExcelService extends ExportService {
 
       const newRow = worksheetDeps.addRow({
         packageName: row.packageName,
+        workspaceName: row.workspaceName,
         dependencyType: row.dependencyType,
         updateStatus: row.updateStatus,
         versionRequired: row.versionRequired,
@@ -406,6 +501,8 @@ class ExcelService extends ExportService {
         installedVersionDeprecated: '', // Will be set by handleDeprecatedStatus
         installDate: row.versionInstalled?.releaseDate,
         installedTimeSinceRelease: row.versionInstalled?.timeSinceRelease,
+        wantedVersion: row.versionWanted?.version,
+        wantedVersionDeprecated: '', // Will be set by handleDeprecatedStatus
         latestPatch: row.versionLastPatch?.version,
         latestPatchDeprecated: '', // Will be set by handleDeprecatedStatus
         latestPatchDate: row.versionLastPatch?.releaseDate,
@@ -415,10 +512,14 @@ class ExcelService extends ExportService {
         latestMinorDate: row.versionLastMinor?.releaseDate,
         latestMinorTimeSinceRelease: row.versionLastMinor?.timeSinceRelease,
         latestVersion: row.versionLast?.version,
+        distTag: row.distTag,
         latestVersionDeprecated: '', // Will be set by handleDeprecatedStatus
         latestVersionDate: row.versionLast?.releaseDate,
         latestVersionTimeSinceRelease: row.versionLast?.timeSinceRelease,
+        eligibleVersion: row.versionEligible?.version,
         registrySource: row.registrySource,
+        fetchStatus: row.fetchStatus,
+        fetchError: row.error,
       });
 
       const packageStatusCell = newRow.getCell('updateStatus');
@@ -434,6 +535,14 @@ class ExcelService extends ExportService {
         !!row.versionInstalled
       );
 
+      const wantedDeprecatedCell = newRow.getCell('wantedVersionDeprecated');
+
+      this.handleDeprecatedStatus(
+        wantedDeprecatedCell,
+        row.versionWanted?.deprecated,
+        !!row.versionWanted
+      );
+
       const latestPatchDeprecatedCell = newRow.getCell('latestPatchDeprecated');
 
       this.handleDeprecatedStatus(
@@ -469,6 +578,13 @@ class ExcelService extends ExportService {
         );
       }
 
+      // Convert wanted version cell to a hyperlink if URL is available
+      if (row.versionWanted?.version && row.versionWanted?.npmUrl) {
+        const wantedVersionCell = newRow.getCell('wantedVersion');
+
+        this.createUrlCell(wantedVersionCell, row.versionWanted.version, row.versionWanted.npmUrl);
+      }
+
       // Convert latest patch version cell to a hyperlink if URL is available
       if (row.versionLastPatch?.version && row.versionLastPatch?.npmUrl) {
         const latestPatchCell = newRow.getCell('latestPatch');
@@ -498,6 +614,22 @@ class ExcelService extends ExportService {
         this.createUrlCell(latestVersionCell, row.versionLast.version, row.versionLast.npmUrl);
       }
 
+      // Convert eligible version cell to a hyperlink if URL is available
+      if (row.versionEligible?.version && row.versionEligible?.npmUrl) {
+        const eligibleVersionCell = newRow.getCell('eligibleVersion');
+
+        this.createUrlCell(
+          eligibleVersionCell,
+          row.versionEligible.version,
+          row.versionEligible.npmUrl
+        );
+      }
+
+      // Highlight packages whose registry data could not be fetched
+      if (row.fetchStatus === 'failed') {
+        newRow.getCell('fetchStatus').fill = this.getCellBgColorConfig(this.bgColors.failed);
+      }
+
       // Handle registrySource - check if it's a valid URL and make it clickable if it is
       if (row.registrySource) {
         const registrySourceCell = newRow.getCell('registrySource');
@@ -512,6 +644,139 @@ class ExcelService extends ExportService {
       }
     }
   }
+
+  /**
+   * Adds a worksheet with every unique package of the dependency tree,
+   * marking direct dependencies and the chain of packages that pulled in indirect ones
+   */
+  private handleTransitiveWorksheet() {
+    const worksheetTransitive = this.workbook.addWorksheet('Transitive');
+
+    // Only projects with workspaces get a workspace column
+    const hasWorkspaces = Boolean(this.summaryData.byWorkspace);
+
+    worksheetTransitive.columns = [
+      { header: 'Package Name', key: 'packageName', width: 30 },
+      { header: 'Installed Version', key: 'installedVersion', width: 10 },
+      { header: 'Relation', key: 'relation', width: 10 },
+      { header: 'Depth', key: 'depth', width: 8 },
+      { header: 'Dependency Path', key: 'dependencyPath', width: 50 },
+      { header: 'Dependency Type', key: 'dependencyType', width: 15 },
+      ...(hasWorkspaces ? [{ header: 'Workspace', key: 'workspaceName', width: 20 }] : []),
+      { header: 'Required Version', key: 'versionRequired', width: 10 },
+      { header: 'Update Status', key: 'updateStatus', width: 10 },
+      { header: 'Installed Version Deprecated', key: 'installedVersionDeprecated', width: 10 },
+      { header: 'Latest Available Version', key: 'latestVersion', width: 15 },
+      { header: 'Registry Source', key: 'registrySource', width: 20 },
+      { header: 'Fetch Status', key: 'fetchStatus', width: 10 },
+    ];
+
+    // Make the header row bold
+    worksheetTransitive.getRow(1).eachCell((cell) => {
+      cell.font = { bold: true };
+    });
+
+    // Freeze the first row and first column so they remain visible when scrolling
+    worksheetTransitive.views = [
+      { state: 'frozen', xSplit: 1, ySplit: 1, topLeftCell: 'B2', activeCell: 'B2' },
+    ];
+
+    for (const packageInfo of this.transitiveList) {
+      const row = packageInfo.getInfo();
+
+      const dependencyPath = row.dependencyPath ?? [];
+
+      // getInfo leaves out versions that are the same as the latest version
+      const latestVersion =
+        row.versionLast?.version ??
+        row.versionLastMinor?.version ??
+        row.versionLastPatch?.version ??
+        (row.updateStatus === 'upToDate' ? row.versionInstalled?.version : undefined);
+
+      const newRow = worksheetTransitive.addRow({
+        packageName: row.packageName,
+        installedVersion: row.versionInstalled?.version,
+        relation: dependencyPath.length ? 'indirect' : 'direct',
+        depth: dependencyPath.length,
+        dependencyPath: dependencyPath.join(' > '),
+        dependencyType: row.dependencyType,
+        workspaceName: row.workspaceName,
+        versionRequired: row.versionRequired,
+        updateStatus: row.updateStatus,
+        installedVersionDeprecated: '', // Will be set by handleDeprecatedStatus
+        latestVersion,
+        registrySource: row.registrySource,
+        fetchStatus: row.fetchStatus,
+      });
+
+      this.handleUpdateStatus(newRow.getCell('updateStatus'), row.updateStatus);
+
+      this.handleDeprecatedStatus(
+        newRow.getCell('installedVersionDeprecated'),
+        row.versionInstalled?.deprecated,
+        !!row.versionInstalled
+      );
+
+      // Convert installed version cell to a hyperlink if URL is available
+      if (row.versionInstalled?.version && row.versionInstalled?.npmUrl) {
+        this.createUrlCell(
+          newRow.getCell('installedVersion'),
+          row.versionInstalled.version,
+          row.versionInstalled.npmUrl
+        );
+      }
+
+      // Highlight packages whose registry data could not be fetched
+      if (row.fetchStatus === 'failed') {
+        newRow.getCell('fetchStatus').fill = this.getCellBgColorConfig(this.bgColors.failed);
+      }
+    }
+  }
+
+  /**
+   * Adds a worksheet with a row per installed version of each duplicated package,
+   * listing the packages requiring it and the version that could replace the others
+   */
+  private handleDuplicatesWorksheet() {
+    const worksheetDuplicates = this.workbook.addWorksheet('Duplicates');
+
+    worksheetDuplicates.columns = [
+      { header: 'Package Name', key: 'packageName', width: 30 },
+      { header: 'Installed Version', key: 'version', width: 10 },
+      { header: 'Dependents', key: 'dependents', width: 60 },
+      { header: 'Can Be Deduped', key: 'canDedupe', width: 10 },
+      { header: 'Dedupe Version', key: 'dedupeVersion', width: 10 },
+    ];
+
+    // Make the header row bold
+    worksheetDuplicates.getRow(1).eachCell((cell) => {
+      cell.font = { bold: true };
+    });
+
+    // Freeze the first row and first column so they remain visible when scrolling
+    worksheetDuplicates.views = [
+      { state: 'frozen', xSplit: 1, ySplit: 1, topLeftCell: 'B2', activeCell: 'B2' },
+    ];
+
+    for (const duplicate of this.summary.getDuplicates()) {
+      for (const { version, dependents } of duplicate.versions) {
+        const newRow = worksheetDuplicates.addRow({
+          packageName: duplicate.packageName,
+          version,
+          // e.g. express@4.21.2 (2.6.9), the range is left out if the lockfile doesn't record it
+          dependents: dependents
+            .map(({ dependent, range }) => (range ? `${dependent} (${range})` : dependent))
+            .join(', '),
+          canDedupe: duplicate.dedupeVersion ? 'Yes' : 'No',
+          dedupeVersion: duplicate.dedupeVersion,
+        });
+
+        if (duplicate.dedupeVersion) {
+          newRow.getCell('canDedupe').fill = this.getCellBgColorConfig(this.bgColors.upToDate);
+        }
+      }
+    }
+  }
 }
 
 export default ExcelService;
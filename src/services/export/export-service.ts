@@ -3,7 +3,7 @@
  *
  * This module defines the abstract base class that all export services must extend.
  * It establishes a common interface for different export formats (Excel, JSON, etc.) with:
- * - A standardized constructor that accepts package information and summary data
+ * - A standardized constructor that accepts package information, summary data and transitive dependencies
  * - Abstract methods that concrete implementations must provide
  * - Common properties shared across all export formats
  *
@@ -21,12 +21,22 @@ abstract class ExportService extends Service {
 
   protected summary: SummaryService;
 
-  constructor(list: PackageInfoService[], summary: SummaryService, ctx: ServiceType) {
+  // Unique packages of the dependency tree, empty unless transitive dependencies are analyzed
+  protected transitiveList: PackageInfoService[];
+
+  constructor(
+    list: PackageInfoService[],
+    summary: SummaryService,
+    transitiveList: PackageInfoService[],
+    ctx: ServiceType
+  ) {
     super(ctx);
 
     this.list = list;
 
     this.summary = summary;
+
+    this.transitiveList = transitiveList;
   }
 
   /**
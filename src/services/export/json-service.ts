@@ -5,6 +5,8 @@
  * - Converting package information objects to JSON-serializable format
  * - Including complete dependency details with version information (installed, last patch, last minor, latest)
  * - Incorporating summary statistics and metadata
+ * - Including transitive dependencies with the chain of packages that pulled them in, when analyzed
+ * - Including packages installed at more than one version with their dependents
  * - Saving formatted JSON to files with proper directory creation
  * - Providing user feedback on export operations
  *
@@ -24,8 +26,13 @@ import type { Summary } from '@/utils/types';
 class JsonService extends ExportService {
   private summaryData: Summary;
 
-  constructor(list: PackageInfoService[], summary: SummaryService, ctx: ServiceType) {
-    super(list, summary, ctx);
+  constructor(
+    list: PackageInfoService[],
+    summary: SummaryService,
+    transitiveList: PackageInfoService[],
+    ctx: ServiceType
+  ) {
+    super(list, summary, transitiveList, ctx);
 
     this.summaryData = summary.getSummary();
   }
@@ -62,15 +69,19 @@ class JsonService extends ExportService {
 
   /**
    * Prepares the data for JSON export
-   * @returns Object containing the dependencies list and summary
+   * @returns Object containing the dependencies list, summary, duplicated packages and transitive dependencies if analyzed
    */
   private prepareData() {
     // Convert the list of PackageInfoService instances to plain objects
     const dependencies = this.list.map((packageInfo) => packageInfo.getInfo());
 
+    const transitive = this.transitiveList.map((packageInfo) => packageInfo.getInfo());
+
     return {
       dependencies,
       summary: this.summaryData,
+      duplicates: this.summary.getDuplicates(),
+      ...(transitive.length && { transitive }),
     };
   }
 }
@@ -3,9 +3,13 @@
  *
  * This module implements a service for aggregating and analyzing package information with features including:
  * - Calculating statistics by dependency type (dependencies, devDependencies, etc.)
+ * - Calculating statistics by workspace package for monorepos
  * - Generating totals across all dependency types
  * - Tracking update status counts (up-to-date, patch, minor, major)
  * - Counting deprecated packages
+ * - Counting packages whose registry data could not be fetched
+ * - Counting packages installed below the highest version their required range allows
+ * - Counting packages installed at more than one version, and those a single version could replace
  * - Creating report metadata (date, time, project name, version)
  * - Providing source information and relevant URLs
  *
@@ -24,14 +28,24 @@ import {
   THIS_PACKAGE_GITHUB_URL,
 } from '@/utils/constants';
 import formatDate from '@/utils/helpers/format-date';
+import getUpdateStatus from '@/utils/helpers/get-update-status';
 import isNpmRegistryUrl from '@/utils/helpers/is-npm-registry-url';
-import type { Summary, SummaryStats, SummaryTotals } from '@/utils/types';
+import type {
+  DuplicatePackage,
+  PackageSpec,
+  Summary,
+  SummaryStats,
+  SummaryTotals,
+} from '@/utils/types';
 
 class SummaryService extends Service {
   private list: PackageInfoService[];
 
   private packageFileService: PackageFileService;
 
+  // Packages installed at more than one version in the dependency tree
+  private duplicates: DuplicatePackage[];
+
   private summary: Summary = {
     byType: {},
     totals: {
@@ -44,6 +58,12 @@ class SummaryService extends Service {
       minor: 0,
       patch: 0,
       deprecated: 0,
+      failed: 0,
+      behindWanted: 0,
+    },
+    duplicates: {
+      total: 0,
+      dedupable: 0,
     },
     reportInfo: {
       date: '',
@@ -56,6 +76,7 @@ class SummaryService extends Service {
   constructor(
     list: PackageInfoService[],
     packageFileService: PackageFileService,
+    duplicates: DuplicatePackage[],
     ctx: ServiceType
   ) {
     super(ctx);
@@ -64,10 +85,16 @@ class SummaryService extends Service {
 
     this.packageFileService = packageFileService;
 
+    this.duplicates = duplicates;
+
     this.calculateSummaryByType();
 
+    this.calculateSummaryByWorkspace();
+
     this.calculateTotals();
 
+    this.calculateDuplicates();
+
     this.generateReportInfo();
 
     this.generateSourceInfo();
@@ -94,6 +121,76 @@ class SummaryService extends Service {
     return this.summary;
   }
 
+  /**
+   * Returns the packages installed at more than one version
+   */
+  public getDuplicates(): DuplicatePackage[] {
+    return this.duplicates;
+  }
+
+  /**
+   * Creates empty statistics
+   */
+  private createStats(): SummaryStats {
+    return {
+      total: 0,
+      fromNpmRegistry: 0,
+      notFromNpmRegistry: 0,
+      upToDate: 0,
+      outdated: 0,
+      patch: 0,
+      minor: 0,
+      major: 0,
+      deprecated: 0,
+      failed: 0,
+      behindWanted: 0,
+    };
+  }
+
+  /**
+   * Adds a package to statistics
+   * @param stats The statistics to update
+   * @param row The package information
+   */
+  private addToStats(stats: SummaryStats, row: PackageSpec) {
+    // Increment the total count
+    stats.total += 1;
+
+    if (row.updateStatus) {
+      stats[row.updateStatus] += 1;
+    }
+
+    // Count only packages where the installed version is deprecated
+    if (row.versionInstalled?.deprecated) {
+      stats.deprecated += 1;
+    }
+
+    // Count packages whose registry data could not be fetched
+    if (row.fetchStatus === 'failed') {
+      stats.failed += 1;
+    }
+
+    // Count packages that `npm update` would update without changing package.json
+    if (row.versionInstalled && row.versionWanted) {
+      const wantedStatus = getUpdateStatus(row.versionInstalled.version, row.versionWanted.version);
+
+      if (wantedStatus && wantedStatus !== 'upToDate') {
+        stats.behindWanted += 1;
+      }
+    }
+
+    // Count packages from npm registry and not from npm registry
+    const registrySource = row.registrySource || '';
+
+    if (isNpmRegistryUrl(registrySource, this.ctx.npmConfig)) {
+      stats.fromNpmRegistry += 1;
+    } else if (registrySource) {
+      stats.notFromNpmRegistry += 1;
+    }
+
+    stats.outdated = stats.major + stats.minor + stats.patch;
+  }
+
   private calculateSummaryByType() {
     const summaryByType: Record<string, SummaryStats> = {};
 
@@ -101,47 +198,38 @@ class SummaryService extends Service {
       const row = packageInfo.getInfo();
 
       if (!summaryByType[row.dependencyType]) {
-        summaryByType[row.dependencyType] = {
-          total: 0,
-          fromNpmRegistry: 0,
-          notFromNpmRegistry: 0,
-          upToDate: 0,
-          outdated: 0,
-          patch: 0,
-          minor: 0,
-          major: 0,
-          deprecated: 0,
-        };
+        summaryByType[row.dependencyType] = this.createStats();
       }
 
-      // Increment the total count for this dependency type
-      summaryByType[row.dependencyType].total += 1;
+      this.addToStats(summaryByType[row.dependencyType], row);
+    }
 
-      if (row.updateStatus) {
-        summaryByType[row.dependencyType][row.updateStatus] += 1;
-      }
+    this.summary.byType = summaryByType;
+  }
 
-      // Count only packages where the installed version is deprecated
-      if (row.versionInstalled?.deprecated) {
-        summaryByType[row.dependencyType].deprecated += 1;
-      }
+  /**
+   * Calculates the statistics of each workspace package, only for projects with workspaces
+   */
+  private calculateSummaryByWorkspace() {
+    const summaryByWorkspace: Record<string, SummaryStats> = {};
 
-      // Count packages from npm registry and not from npm registry
-      const registrySource = row.registrySource || '';
+    for (const packageInfo of this.list) {
+      const row = packageInfo.getInfo();
 
-      if (isNpmRegistryUrl(registrySource)) {
-        summaryByType[row.dependencyType].fromNpmRegistry += 1;
-      } else if (registrySource) {
-        summaryByType[row.dependencyType].notFromNpmRegistry += 1;
+      if (!row.workspaceName) {
+        continue;
       }
-    }
 
-    // Calculate outdated count for each dependency type
-    for (const stats of Object.values(summaryByType)) {
-      stats.outdated = stats.major + stats.minor + stats.patch;
+      if (!summaryByWorkspace[row.workspaceName]) {
+        summaryByWorkspace[row.workspaceName] = this.createStats();
+      }
+
+      this.addToStats(summaryByWorkspace[row.workspaceName], row);
     }
 
-    this.summary.byType = summaryByType;
+    if (Object.keys(summaryByWorkspace).length) {
+      this.summary.byWorkspace = summaryByWorkspace;
+    }
   }
 
   /**
@@ -158,6 +246,8 @@ class SummaryService extends Service {
       minor: 0,
       patch: 0,
       deprecated: 0,
+      failed: 0,
+      behindWanted: 0,
     };
 
     for (const stats of Object.values(this.summary.byType)) {
@@ -178,14 +268,28 @@ class SummaryService extends Service {
       totals.notFromNpmRegistry += stats.notFromNpmRegistry;
 
       totals.outdated += stats.outdated;
+
+      totals.failed += stats.failed;
+
+      totals.behindWanted += stats.behindWanted;
     }
 
     this.summary.totals = totals;
   }
 
+  /**
+   * Counts the duplicated packages and those an installed version could replace
+   */
+  private calculateDuplicates() {
+    this.summary.duplicates = {
+      total: this.duplicates.length,
+      dedupable: this.duplicates.filter(({ dedupeVersion }) => dedupeVersion).length,
+    };
+  }
+
   /**
    * Generates report information including current date, time, project name and version
-   * @returns ReportInfo object with date, time, project name and version
+   * @returns ReportInfo object with date, time, project name and version, and the filters in effect
    */
   private generateReportInfo() {
     // Get current date and time
@@ -201,11 +305,15 @@ class SummaryService extends Service {
 
     const projectVersion = this.packageFileService.getVersion();
 
+    const { include, exclude, depTypes } = this.ctx.filters ?? {};
+
     this.summary.reportInfo = {
       date,
       time,
       projectName,
       projectVersion,
+      // Filtered reports only cover part of the dependencies
+      ...((include || exclude || depTypes) && { filters: { include, exclude, depTypes } }),
     };
   }
 }
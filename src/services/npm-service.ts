@@ -2,8 +2,17 @@
  * @fileoverview Provides the NpmService class for interacting with npm registry.
  *
  * This module implements a service for fetching and processing npm package information with features including:
- * - Retrieving local dependency information using 'npm list'
- * - Fetching package metadata directly from npm registry API
+ * - Reading local dependency information directly from package-lock.json, pnpm-lock.yaml, yarn.lock or bun.lock
+ * - Resolving the installed versions of workspace packages from their own dependencies
+ * - Fetching the registry data of packages used by several workspaces only once
+ * - Walking the dependency tree to analyze transitive dependencies up to a configurable depth
+ * - Fetching aliased dependencies, e.g. "debug": "npm:ms@^2.1.3", by the name of the aliased package
+ * - Finding packages installed at more than one version across the dependency tree
+ * - Fetching package metadata directly from the npm registry API or registries configured in .npmrc
+ * - Caching registry metadata on disk between runs
+ * - Requesting abbreviated registry documents, or full documents directly when release dates are needed
+ * - Reporting retried registry requests
+ * - Collecting per-package fetch errors without failing the whole analysis
  * - Processing package data in parallel chunks for better performance
  * - Creating PackageInfoService instances with complete package information
  *
@@ -11,32 +20,73 @@
  * providing a comprehensive view of dependencies and their available versions.
  */
 
-import { execSync } from 'child_process';
+import fs from 'fs';
+
+import { parse as parseYaml } from 'yaml';
 
 import PackageInfoService from '@/services/package-info-service';
 import type { ServiceType } from '@/services/service';
 import Service from '@/services/service';
-import { PACKAGE_FILE_NAME, PACKAGE_LOCK_FILE_NAME } from '@/utils/constants';
+import findDuplicatePackages from '@/utils/helpers/find-duplicate-packages';
+import getRegistryPackageName from '@/utils/helpers/get-registry-package-name';
 import isNpmRegistryUrl from '@/utils/helpers/is-npm-registry-url';
 import npmRegistryClient from '@/utils/helpers/npm-registry-client';
+import parseBunLock from '@/utils/helpers/parse-bun-lock';
+import parsePackageLock from '@/utils/helpers/parse-package-lock';
+import parsePnpmLock from '@/utils/helpers/parse-pnpm-lock';
+import parseYarnLock from '@/utils/helpers/parse-yarn-lock';
 import { processInChunks } from '@/utils/helpers/process-in-chunks';
-import type { NpmListData, NpmRegistryPackageData, PackageSpec } from '@/utils/types';
+import type {
+  DependencyTreeRoot,
+  DuplicatePackage,
+  LockFile,
+  NpmListData,
+  NpmListDepItem,
+  NpmRegistryPackageData,
+  PackageLock,
+  PackageSpec,
+  PnpmLock,
+} from '@/utils/types';
 
 class NpmService extends Service {
   // This parameter contains the list of packages to process
   private packagesInputList: PackageSpec[];
 
-  // This parameter contains the output of `npm list --json --package-lock-only`
+  // This parameter contains the lockfile the dependency tree is read from
+  private lockFile: LockFile;
+
+  // This parameter contains the dependency tree read from the lockfile
   private npmListData: NpmListData | null = null;
 
   // This parameter contains the list of the packages npm registry data
   private packagesOutputList: PackageInfoService[] = [];
 
-  constructor(packagesInputList: PackageSpec[], ctx: ServiceType) {
+  // This parameter contains the unique packages of the dependency tree, when transitive dependencies are analyzed
+  private transitiveOutputList: PackageInfoService[] = [];
+
+  constructor(packagesInputList: PackageSpec[], lockFile: LockFile, ctx: ServiceType) {
     super(ctx);
 
     this.packagesInputList = packagesInputList;
 
+    this.lockFile = lockFile;
+
+    // Use the registries and credentials resolved from .npmrc, the cache and the retry settings
+    npmRegistryClient.configure({
+      npmConfig: this.ctx.npmConfig,
+      cache: this.ctx.cache,
+      cacheDir: this.ctx.cacheDir,
+      cacheTtl: this.ctx.cacheTtl,
+      retries: this.ctx.retries,
+      timeout: this.ctx.requestTimeout,
+      onRetry: ({ packageName, attempt, retries, delay, reason }) => {
+        // Make it visible that the registry is flaky rather than the tool
+        this.ctx.outputService.log(
+          `Registry request for ${packageName} failed (${reason}), retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt}/${retries})`
+        );
+      },
+    });
+
     this.setNpmListData();
   }
 
@@ -46,32 +96,92 @@ class NpmService extends Service {
     return this.packagesOutputList;
   }
 
+  /**
+   * Returns the packages whose registry data could not be fetched
+   * @returns The list of failed packages
+   */
+  public getFailedList(): PackageInfoService[] {
+    return [...this.packagesOutputList, ...this.transitiveOutputList].filter(
+      (pkg) => pkg.getInfo().fetchStatus === 'failed'
+    );
+  }
+
+  /**
+   * Returns every unique package@version of the dependency tree up to the configured depth,
+   * direct dependencies included. Empty unless a depth is configured.
+   * @returns The list of packages with the chain of packages that pulled them in
+   */
+  public getTransitiveList(): PackageInfoService[] {
+    return this.transitiveOutputList;
+  }
+
+  /**
+   * Finds the packages installed at more than one version in the dependency tree of the project
+   * and its workspace packages, limited to the selected workspace if any
+   * @returns The duplicated packages with their dependents and the version that could replace them
+   */
+  public getDuplicates(): DuplicatePackage[] {
+    const roots: Record<string, DependencyTreeRoot> = {};
+
+    for (const pkg of this.packagesInputList) {
+      const isWorkspacePackage = this.isWorkspacePackage(pkg);
+
+      const rootPath = isWorkspacePackage ? pkg.workspacePath : '.';
+
+      roots[rootPath] ??= {
+        name: pkg.workspaceName ?? (this.npmListData?.name || '.'),
+        requires: {},
+        dependencies:
+          (isWorkspacePackage
+            ? this.npmListData?.workspaces?.[pkg.workspacePath]
+            : this.npmListData?.dependencies) ?? {},
+      };
+
+      roots[rootPath].requires[pkg.packageName] = pkg.versionRequired;
+    }
+
+    return findDuplicatePackages(Object.values(roots));
+  }
+
   private setNpmListData() {
     try {
-      const npmListDataBuffer = execSync('npm list --json --package-lock-only', {
-        cwd: this.ctx.cwd,
-      });
+      const content = fs.readFileSync(this.lockFile.filePath, 'utf8');
 
-      this.npmListData = JSON.parse(npmListDataBuffer.toString()) as NpmListData;
-    } catch (error) {
-      // Check if the error is related to version mismatches (ELSPROBLEMS)
-      if (error instanceof Error && error.message.includes('ELSPROBLEMS')) {
-        this.ctx.outputService.errorMsg(
-          `\nError: Version mismatch detected between ${PACKAGE_FILE_NAME} and ${PACKAGE_LOCK_FILE_NAME}`
-        );
+      // Every lockfile is converted to the same structure, so the rest of the analysis doesn't depend on the package manager
+      if (this.lockFile.packageManager === 'pnpm') {
+        this.npmListData = parsePnpmLock(parseYaml(content) as PnpmLock, this.ctx.npmConfig);
+      } else if (this.lockFile.packageManager === 'yarn') {
+        // yarn.lock is keyed by name@range, so the required ranges are needed to find direct dependencies
+        const requiredRanges: Record<string, string> = {};
 
-        this.ctx.outputService.log(
-          `\nPlease run "npm install" to update your ${PACKAGE_LOCK_FILE_NAME} and node_modules`
-        );
+        const workspaceRanges: Record<string, Record<string, string>> = {};
 
-        this.ctx.outputService.log(
-          'This is required before running the update command to ensure consistency.\n'
-        );
+        for (const pkg of this.packagesInputList) {
+          if (this.isWorkspacePackage(pkg)) {
+            workspaceRanges[pkg.workspacePath] = {
+              ...workspaceRanges[pkg.workspacePath],
+              [pkg.packageName]: pkg.versionRequired,
+            };
+          } else {
+            requiredRanges[pkg.packageName] = pkg.versionRequired;
+          }
+        }
 
-        process.exit(1); // Exit with error code
+        this.npmListData = parseYarnLock(
+          content,
+          requiredRanges,
+          this.ctx.npmConfig,
+          workspaceRanges
+        );
+      } else if (this.lockFile.packageManager === 'bun') {
+        this.npmListData = parseBunLock(content, this.ctx.npmConfig);
       } else {
-        this.ctx.outputService.error(error as Error);
+        this.npmListData = parsePackageLock(JSON.parse(content) as PackageLock);
       }
+    } catch (error) {
+      this.ctx.outputService.errorMsg(`\nError: Failed to read ${this.lockFile.fileName}`);
+
+      this.ctx.outputService.error(error as Error);
 
       // Create a minimal structure to avoid null reference errors if execution continues
       // Ensure it conforms to NpmListData type by including required properties
@@ -83,30 +193,85 @@ class NpmService extends Service {
     }
   }
 
+  /**
+   * Checks whether a package is declared by a workspace package rather than the project itself
+   */
+  private isWorkspacePackage(pkg: PackageSpec): pkg is PackageSpec & { workspacePath: string } {
+    return Boolean(pkg.workspacePath) && pkg.workspacePath !== '.';
+  }
+
   private async setPackagesOutputList() {
     // Create a structure to hold package data for processing
     const packageDataList = this.packagesInputList.map((pkg) => {
-      const npmListDepItem = this.npmListData?.dependencies[pkg.packageName];
+      // Workspace packages can have other versions installed than the project itself
+      const dependencies = this.isWorkspacePackage(pkg)
+        ? this.npmListData?.workspaces?.[pkg.workspacePath]
+        : this.npmListData?.dependencies;
+
+      const npmListDepItem = dependencies?.[pkg.packageName];
 
       return { pkg, npmListDepItem };
     });
 
+    const transitiveDataList = this.ctx.depth ? this.getTransitiveDataList(packageDataList) : [];
+
+    // Do not call registry API if package is not installed from npm or a configured registry
+    // Packages used by several workspaces or found several times in the tree are only fetched once
+    const registryPackageNames = Array.from(
+      new Set(
+        [...packageDataList, ...transitiveDataList]
+          .filter(({ npmListDepItem }) =>
+            isNpmRegistryUrl(npmListDepItem?.resolved, this.ctx.npmConfig)
+          )
+          .map(({ pkg, npmListDepItem }) => this.getRegistryPackageName(pkg, npmListDepItem))
+      )
+    );
+
+    // Only request full registry documents when the package info needs their extra fields
+    const requiredFields = PackageInfoService.getRequiredRegistryFields(this.ctx);
+
     // Fetch npm view data in chunks of 5 using processInChunks
     const npmRegistryDataResponses = await processInChunks(
-      packageDataList,
-      ({ pkg, npmListDepItem }) => {
-        // Do not call npm registry API if package is not installed from npm registry
-        if (!isNpmRegistryUrl(npmListDepItem?.resolved)) {
-          return Promise.resolve(undefined);
+      registryPackageNames,
+      async (packageName) => {
+        // Collect per-package errors instead of failing the whole batch
+        try {
+          return {
+            npmRegistryData: await this.getNpmRegistryData(packageName, requiredFields),
+          };
+        } catch (error) {
+          return { fetchError: error instanceof Error ? error.message : String(error) };
         }
-
-        return this.getNpmRegistryData(pkg.packageName);
       },
       5
     );
 
-    this.packagesOutputList = packageDataList.map(({ pkg, npmListDepItem }, index) => {
-      const npmRegistryData = npmRegistryDataResponses[index];
+    const npmRegistryDataByName = new Map(
+      registryPackageNames.map((packageName, index) => [
+        packageName,
+        npmRegistryDataResponses[index],
+      ])
+    );
+
+    for (const { fetchError } of npmRegistryDataResponses) {
+      if (fetchError) {
+        this.ctx.outputService.log(fetchError);
+      }
+    }
+
+    const createPackageInfo = ({
+      pkg,
+      npmListDepItem,
+    }: {
+      pkg: PackageSpec;
+      npmListDepItem?: NpmListDepItem;
+    }): PackageInfoService => {
+      const { npmRegistryData, fetchError } = isNpmRegistryUrl(
+        npmListDepItem?.resolved,
+        this.ctx.npmConfig
+      )
+        ? (npmRegistryDataByName.get(this.getRegistryPackageName(pkg, npmListDepItem)) ?? {})
+        : {};
 
       // Create the final PackageInfoService with complete deprecation information
       return new PackageInfoService(
@@ -114,19 +279,122 @@ class NpmService extends Service {
           package: pkg,
           npmListDepItem,
           npmRegistryData,
+          fetchError,
         },
         this.ctx
       );
-    });
+    };
+
+    this.packagesOutputList = packageDataList.map(createPackageInfo);
+
+    this.transitiveOutputList = transitiveDataList.map(createPackageInfo);
   }
 
-  private async getNpmRegistryData(packageName: string): Promise<NpmRegistryPackageData> {
+  /**
+   * Walks the dependency tree breadth first, starting at the direct dependencies, and collects
+   * every unique package@version up to the configured depth. Breadth first order makes sure each
+   * package gets the shortest chain of packages that pulled it in.
+   * @param packageDataList The direct dependencies with their lockfile items
+   * @returns The unique packages of the tree, direct dependencies first
+   */
+  private getTransitiveDataList(
+    packageDataList: Array<{ pkg: PackageSpec; npmListDepItem?: NpmListDepItem }>
+  ): Array<{ pkg: PackageSpec; npmListDepItem?: NpmListDepItem }> {
+    const transitiveDataList: Array<{ pkg: PackageSpec; npmListDepItem?: NpmListDepItem }> = [];
+
+    // Installed packages are identified by name and version, or by their source if they have no version
+    const seenPackages = new Set<string>();
+
+    // Shared items are the same object, which also stops the walk at cycles
+    const visitedItems = new Set<NpmListDepItem>();
+
+    let level: Array<{ pkg: PackageSpec; item: NpmListDepItem }> = [];
+
+    const addPackage = (pkg: PackageSpec, item: NpmListDepItem): boolean => {
+      const key = `${pkg.packageName}@${item.version || item.resolved}`;
+
+      if (seenPackages.has(key)) {
+        return false;
+      }
+
+      seenPackages.add(key);
+
+      transitiveDataList.push({ pkg, npmListDepItem: item });
+
+      return true;
+    };
+
+    for (const { pkg, npmListDepItem } of packageDataList) {
+      if (!npmListDepItem || visitedItems.has(npmListDepItem)) {
+        continue;
+      }
+
+      visitedItems.add(npmListDepItem);
+
+      addPackage({ ...pkg, dependencyPath: [] }, npmListDepItem);
+
+      level.push({ pkg: { ...pkg, dependencyPath: [] }, item: npmListDepItem });
+    }
+
+    const maxDepth = this.ctx.depth ?? 0;
+
+    for (let depth = 1; depth <= maxDepth && level.length; depth++) {
+      const nextLevel: Array<{ pkg: PackageSpec; item: NpmListDepItem }> = [];
+
+      for (const { pkg: parent, item: parentItem } of level) {
+        const dependencyPath = [
+          ...(parent.dependencyPath ?? []),
+          `${parent.packageName}@${parentItem.version || parentItem.resolved}`,
+        ];
+
+        for (const [name, item] of Object.entries(parentItem.dependencies ?? {})) {
+          if (visitedItems.has(item)) {
+            continue;
+          }
+
+          visitedItems.add(item);
+
+          // Transitive dependencies inherit the dependency type and workspace of the direct dependency
+          const pkg: PackageSpec = {
+            ...parent,
+            // Aliased packages are fetched by their name on the registry
+            packageName: getRegistryPackageName(name, parentItem.requires?.[name], item.resolved),
+            versionRequired: parentItem.requires?.[name] ?? item.version,
+            dependencyPath,
+          };
+
+          addPackage(pkg, item);
+
+          nextLevel.push({ pkg, item });
+        }
+      }
+
+      level = nextLevel;
+    }
+
+    return transitiveDataList;
+  }
+
+  /**
+   * Returns the name a package is fetched by, which differs from the installed name for aliases,
+   * e.g. "debug": "npm:ms@^2.1.3" is fetched as ms
+   */
+  private getRegistryPackageName(pkg: PackageSpec, npmListDepItem?: NpmListDepItem): string {
+    return getRegistryPackageName(pkg.packageName, pkg.versionRequired, npmListDepItem?.resolved);
+  }
+
+  private async getNpmRegistryData(
+    packageName: string,
+    requiredFields: string[]
+  ): Promise<NpmRegistryPackageData> {
     try {
-      const registryData = await npmRegistryClient.getPackageData(packageName);
+      const registryData = await npmRegistryClient.getPackageData(packageName, requiredFields);
 
       return registryData;
     } catch (error) {
-      throw new Error(`Failed to fetch npm registry data for ${packageName}: ${error}`);
+      throw new Error(
+        `Failed to fetch npm registry data for ${packageName}: ${error instanceof Error ? error.message : String(error)}`
+      );
     }
   }
 }
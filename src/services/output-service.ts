@@ -6,11 +6,15 @@
  * - Silent mode support for suppressing output
  * - Different message types (standard, success, error)
  * - Loading state management with step-by-step progress updates
+ * - Reporting failed commands with the tail of their output
  *
  * The service provides a consistent interface for displaying feedback to users
  * during potentially long-running operations, enhancing the CLI user experience.
  */
 
+import getOutputTail from '@/utils/helpers/get-output-tail';
+import type { CommandResult } from '@/utils/types';
+
 class OutputService {
   private silent: boolean;
 
@@ -154,6 +158,29 @@ class OutputService {
     console.error(error);
   }
 
+  /**
+   * Reports a failed step that runs a command, with the last lines of the command output
+   * @param step The name of the step, e.g. Install
+   * @param command The command that failed
+   * @param result The exit code and output of the command
+   */
+  public commandError(step: string, command: string, result: CommandResult): void {
+    // If loading is active, stop it
+    if (this.loadingInterval !== null) {
+      this.stopLoading();
+    }
+
+    const tail = getOutputTail(result.output);
+
+    console.error(`✗ ${step} failed: "${command}" exited with code ${result.exitCode}`);
+
+    if (tail.length) {
+      console.error(`Last ${tail.length} lines of output:`);
+
+      console.error(tail.map((line) => `  ${line}`).join('\n'));
+    }
+  }
+
   public log(message: string): void {
     // If loading is active, stop it temporarily to show the message
     const isLoading = this.loadingInterval !== null;
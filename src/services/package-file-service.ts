@@ -4,7 +4,11 @@
  * This module implements a service for reading and analyzing package.json files with features including:
  * - Extracting package metadata (name, version)
  * - Parsing dependencies from all dependency types (dependencies, devDependencies, etc.)
- * - Validating the existence of package-lock.json
+ * - Filtering dependencies by dependency type and package name patterns
+ * - Finding the workspace packages of monorepos from package.json or pnpm-workspace.yaml
+ *   and tagging their dependencies with the workspace they belong to
+ * - Detecting the lockfile (package-lock.json, pnpm-lock.yaml, yarn.lock or bun.lock) the project uses,
+ *   unless a package manager is chosen explicitly
  * - Generating unique export file paths for reports
  *
  * The service serves as the primary interface for accessing package information
@@ -14,38 +18,72 @@
 import fs from 'fs';
 import path from 'path';
 
+import { parse as parseYaml } from 'yaml';
+
 import type { ServiceType } from '@/services/service';
 import Service from '@/services/service';
-import { PACKAGE_FILE_NAME, PACKAGE_LOCK_FILE_NAME } from '@/utils/constants';
+import {
+  BUN_LOCK_FILE_NAME,
+  DEPENDENCY_TYPES,
+  PACKAGE_FILE_NAME,
+  PACKAGE_LOCK_FILE_NAME,
+  PNPM_LOCK_FILE_NAME,
+  PNPM_WORKSPACE_FILE_NAME,
+  YARN_LOCK_FILE_NAME,
+} from '@/utils/constants';
+import expandWorkspaceGlobs from '@/utils/helpers/expand-workspace-globs';
+import parsePackagePattern from '@/utils/helpers/parse-package-pattern';
 import sanitizeFileName from '@/utils/helpers/sanitize-file-name';
-import type { PackageSpec } from '@/utils/types';
+import type { LockFile, PackageManager, PackageSpec, Workspace } from '@/utils/types';
 
 import type { PackageJson } from 'type-fest';
 
 class PackageFileService extends Service {
   private packageFileName = PACKAGE_FILE_NAME;
 
-  private packageLockFileName = PACKAGE_LOCK_FILE_NAME;
-
-  private depsTypes = [
-    'dependencies',
-    'devDependencies',
-    'peerDependencies',
-    'optionalDependencies',
+  // Lockfiles in the order they are looked up, with the command that generates them
+  private lockFileNames: Array<{
+    packageManager: PackageManager;
+    fileName: string;
+    installCommand: string;
+  }> = [
+    {
+      packageManager: 'npm',
+      fileName: PACKAGE_LOCK_FILE_NAME,
+      installCommand: 'npm i --package-lock-only',
+    },
+    {
+      packageManager: 'pnpm',
+      fileName: PNPM_LOCK_FILE_NAME,
+      installCommand: 'pnpm install --lockfile-only',
+    },
+    { packageManager: 'yarn', fileName: YARN_LOCK_FILE_NAME, installCommand: 'yarn install' },
+    {
+      packageManager: 'bun',
+      fileName: BUN_LOCK_FILE_NAME,
+      installCommand: 'bun install --lockfile-only',
+    },
   ];
 
   private packageJson: PackageJson;
 
+  private lockFile: LockFile;
+
+  // Workspace packages of the project, without the project itself
+  private workspaces: Array<Workspace & { packageJson: PackageJson }>;
+
   constructor(ctx: ServiceType) {
     super(ctx);
 
     const packageJsonPath = path.resolve(this.ctx.cwd, this.packageFileName);
 
-    // First check if package-lock.json exists
-    this.checkPackageLockExists();
+    // First check if a lockfile exists
+    this.lockFile = this.detectLockFile();
 
     // Read package.json
     this.packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8')) as PackageJson;
+
+    this.workspaces = this.readWorkspaces();
   }
 
   public getName(): string {
@@ -57,23 +95,72 @@ class PackageFileService extends Service {
   }
 
   /**
-   * Returns a list of all dependencies from package.json
+   * Returns the lockfile the installed versions are read from
+   * @returns The lockfile with its package manager and path
+   */
+  public getLockFile(): LockFile {
+    return this.lockFile;
+  }
+
+  /**
+   * Returns the workspace packages of the project
+   * @returns The workspace packages with their names and paths relative to the project root
+   */
+  public getWorkspaces(): Workspace[] {
+    return this.workspaces.map(({ name, path: workspacePath }) => ({ name, path: workspacePath }));
+  }
+
+  /**
+   * Returns a list of all dependencies from package.json and the package.json files of all workspace packages.
+   * If a workspace is set in the context, only the dependencies of that workspace are returned.
+   * Dependencies are filtered by the dependency types and package name patterns set in the context.
    * @returns An array of PackageSpec objects containing package name, dependency type, and required version
+   * @throws Error if the workspace set in the context doesn't exist or a package name pattern is invalid
    */
   public getPackages(): PackageSpec[] {
     const list: PackageSpec[] = [];
 
-    // Iterate over all dependency types (dependencies, devDependencies, peerDependencies, optionalDependencies)
-    for (const depType of this.depsTypes) {
-      const deps = this.packageJson[depType];
-
-      if (deps) {
-        for (const [packageName, versionRequired] of Object.entries(deps)) {
-          list.push({
-            packageName,
-            dependencyType: depType,
-            versionRequired: versionRequired as string,
-          });
+    const hasWorkspaces = this.workspaces.length > 0;
+
+    const sources = [
+      { name: this.getName() || '.', path: '.', packageJson: this.packageJson },
+      ...this.workspaces,
+    ];
+
+    const selectedSources = this.ctx.workspace
+      ? [this.findWorkspace(sources, this.ctx.workspace)]
+      : sources;
+
+    const { include, exclude, depTypes = DEPENDENCY_TYPES } = this.ctx.filters ?? {};
+
+    const includePatterns = include?.map(parsePackagePattern);
+
+    const excludePatterns = exclude?.map(parsePackagePattern) ?? [];
+
+    // Packages must match one of the included patterns, if any, and none of the excluded ones
+    const isSelected = (packageName: string) =>
+      (!includePatterns || includePatterns.some((pattern) => pattern.test(packageName))) &&
+      !excludePatterns.some((pattern) => pattern.test(packageName));
+
+    for (const source of selectedSources) {
+      // Iterate over the selected dependency types (dependencies, devDependencies, peerDependencies, optionalDependencies)
+      for (const depType of DEPENDENCY_TYPES.filter((type) => depTypes.includes(type))) {
+        const deps = source.packageJson[depType];
+
+        if (deps) {
+          for (const [packageName, versionRequired] of Object.entries(deps)) {
+            if (!isSelected(packageName)) {
+              continue;
+            }
+
+            list.push({
+              packageName,
+              dependencyType: depType,
+              versionRequired: versionRequired as string,
+              // Dependencies are only tagged with their workspace in monorepos
+              ...(hasWorkspaces && { workspaceName: source.name, workspacePath: source.path }),
+            });
+          }
         }
       }
     }
@@ -85,15 +172,20 @@ class PackageFileService extends Service {
    * Gets an export file path, either unique or overwriting existing files based on the forceOverwrite option
    * @param fileExtension The file extension to check for (including the dot, e.g., '.xlsx')
    * @param forceOverwrite If true, will return the base file path even if it already exists
+   * @param fileNameSuffix The end of the file name, after the package name and version
    * @returns A file path without the extension
    */
-  public getExportFilePath(fileExtension: string, forceOverwrite = false): string {
+  public getExportFilePath(
+    fileExtension: string,
+    forceOverwrite = false,
+    fileNameSuffix = 'dependencies'
+  ): string {
     const packageName = sanitizeFileName(this.getName() || 'package');
 
     // Replace dots in version with hyphens for better cross-OS compatibility
     const version = this.getVersion().replace(/\./g, '-');
 
-    const baseFileName = `${packageName}-v${version}-dependencies`;
+    const baseFileName = `${packageName}-v${version}-${fileNameSuffix}`;
 
     const outputDir = this.ctx.outputDir ?? this.ctx.cwd;
 
@@ -202,17 +294,91 @@ class PackageFileService extends Service {
   }
 
   /**
-   * Checks if package-lock.json exists in the project directory
-   * @throws Error if package-lock.json doesn't exist
+   * Finds a workspace package by its name or its path relative to the project root
+   * @param sources The project itself and its workspace packages
+   * @param workspace The name or path of the workspace package
+   * @returns The matching workspace package
+   * @throws Error if no workspace package matches
    */
-  private checkPackageLockExists(): void {
-    const packageLockPath = path.resolve(this.ctx.cwd, this.packageLockFileName);
+  private findWorkspace<T extends Workspace>(sources: T[], workspace: string): T {
+    const workspacePath = path.posix.normalize(workspace.replace(/\\/g, '/')).replace(/\/+$/, '');
 
-    if (!fs.existsSync(packageLockPath)) {
-      throw new Error(
-        `${PACKAGE_LOCK_FILE_NAME} file not found. Please run "npm i --package-lock-only" to generate it first.`
-      );
+    const match = sources.find(
+      (source) => source.name === workspace || source.path === workspacePath
+    );
+
+    if (!match) {
+      const names = sources.map(({ name }) => name).join(', ');
+
+      throw new Error(`Workspace "${workspace}" not found. Available workspaces: ${names}`);
+    }
+
+    return match;
+  }
+
+  /**
+   * Reads the workspace globs from pnpm-workspace.yaml, or from the "workspaces" field of package.json
+   * used by npm, Yarn and Bun
+   * @returns The workspace globs, or an empty array if the project has no workspaces
+   */
+  private getWorkspacePatterns(): string[] {
+    const pnpmWorkspacePath = path.resolve(this.ctx.cwd, PNPM_WORKSPACE_FILE_NAME);
+
+    if (fs.existsSync(pnpmWorkspacePath)) {
+      const pnpmWorkspace = parseYaml(fs.readFileSync(pnpmWorkspacePath, 'utf8')) as {
+        packages?: string[];
+      } | null;
+
+      return pnpmWorkspace?.packages ?? [];
+    }
+
+    const { workspaces } = this.packageJson;
+
+    // Yarn classic also accepts an object with the globs in "packages"
+    return (Array.isArray(workspaces) ? workspaces : workspaces?.packages) ?? [];
+  }
+
+  /**
+   * Reads the package.json files of all workspace packages
+   * @returns The workspace packages, sorted by path
+   */
+  private readWorkspaces(): Array<Workspace & { packageJson: PackageJson }> {
+    return expandWorkspaceGlobs(this.ctx.cwd, this.getWorkspacePatterns()).map((workspacePath) => {
+      const packageJson = JSON.parse(
+        fs.readFileSync(path.resolve(this.ctx.cwd, workspacePath, this.packageFileName), 'utf8')
+      ) as PackageJson;
+
+      return { name: packageJson.name ?? workspacePath, path: workspacePath, packageJson };
+    });
+  }
+
+  /**
+   * Finds the lockfile in the project directory, or the lockfile of the package manager set in the context
+   * @returns The first lockfile found
+   * @throws Error if no supported lockfile exists
+   */
+  private detectLockFile(): LockFile {
+    const candidates = this.lockFileNames.filter(
+      ({ packageManager }) => !this.ctx.packageManager || packageManager === this.ctx.packageManager
+    );
+
+    for (const { packageManager, fileName } of candidates) {
+      const filePath = path.resolve(this.ctx.cwd, fileName);
+
+      if (fs.existsSync(filePath)) {
+        return { packageManager, fileName, filePath };
+      }
     }
+
+    const fileNames = candidates.map(({ fileName }) => fileName).join(' or ');
+
+    const installCommands = candidates
+      .map(({ installCommand }) => `"${installCommand}"`)
+      .join(' or ');
+
+    throw new Error(
+      `${fileNames} file not found. Please run ${installCommands} to generate it first.`
+    );
   }
 }
 
@@ -4,9 +4,14 @@
  * This module implements a service for analyzing and enriching package data with features including:
  * - Parsing and normalizing package version information
  * - Determining update status (up-to-date, patch, minor, major)
- * - Identifying the latest versions available (latest, last minor, last patch)
+ * - Identifying the latest versions available (latest, last minor, last patch) following semver precedence
+ * - Taking the latest version from the registry's dist-tags, optionally tracking another channel
+ * - Identifying the wanted version, i.e. the highest version satisfying the required range
  * - Detecting package source/registry information
  * - Checking deprecation status of packages and specific versions
+ * - Choosing update targets within an update level that aren't deprecated
+ * - Holding back versions younger than the minimum release age and finding the newest eligible version
+ * - Recording whether the registry data could be fetched
  * - Generating comprehensive package information objects
  *
  * The service serves as the core data processor for individual package entries,
@@ -15,10 +20,14 @@
 
 import Service from '@/services/service';
 import type { ServiceCtxType } from '@/services/service-ctx';
-import { NPM_REGISTRY_HOST } from '@/utils/constants';
+import { DEFAULT_DIST_TAG, NPM_REGISTRY_HOST } from '@/utils/constants';
 import calculateTimeSinceRelease from '@/utils/helpers/calculate-time-since-release';
+import findUpdateTarget from '@/utils/helpers/find-update-target';
+import findUpdateVersions from '@/utils/helpers/find-update-versions';
+import findWantedVersion from '@/utils/helpers/find-wanted-version';
 import formatDate from '@/utils/helpers/format-date';
 import getNpmPackageUrl from '@/utils/helpers/get-npm-package-url';
+import getUpdateStatus from '@/utils/helpers/get-update-status';
 import isNpmRegistryUrl from '@/utils/helpers/is-npm-registry-url';
 import type {
   NpmListDepItem,
@@ -26,6 +35,8 @@ import type {
   PackageSpec,
   PackageVersionSpec,
   TimeUnit,
+  UpdateLevel,
+  UpdateTarget,
 } from '@/utils/types';
 
 class PackageInfoService extends Service {
@@ -35,18 +46,34 @@ class PackageInfoService extends Service {
 
   private versionRequired: string;
 
+  private workspaceName?: string;
+
+  private workspacePath?: string;
+
+  private dependencyPath?: string[];
+
   private versionInstalled?: PackageVersionSpec;
 
+  private versionWanted?: PackageVersionSpec;
+
   private versionLastPatch?: PackageVersionSpec;
 
   private versionLastMinor?: PackageVersionSpec;
 
   private versionLast?: PackageVersionSpec;
 
+  private versionEligible?: PackageVersionSpec;
+
+  private distTag?: string;
+
   private registrySource?: string;
 
   private updateStatus?: PackageSpec['updateStatus'];
 
+  private fetchStatus?: PackageSpec['fetchStatus'];
+
+  private error?: string;
+
   private npmListDepItem?: NpmListDepItem;
 
   private npmRegistryData?: NpmRegistryPackageData;
@@ -58,6 +85,7 @@ class PackageInfoService extends Service {
       package: PackageSpec;
       npmListDepItem?: NpmListDepItem;
       npmRegistryData?: NpmRegistryPackageData;
+      fetchError?: string;
     },
     ctx: ServiceCtxType
   ) {
@@ -69,23 +97,43 @@ class PackageInfoService extends Service {
 
     this.versionRequired = args.package.versionRequired;
 
+    this.workspaceName = args.package.workspaceName;
+
+    this.workspacePath = args.package.workspacePath;
+
+    this.dependencyPath = args.package.dependencyPath;
+
     this.npmListDepItem = args.npmListDepItem;
 
     this.npmRegistryData = args.npmRegistryData;
 
+    this.error = args.fetchError;
+
+    this.setFetchStatus();
+
     this.setInstalledVersion();
 
-    this.setLastPatchVersion();
+    this.setUpdateVersions();
 
-    this.setLastMinorVersion();
+    this.setWantedVersion();
 
-    this.setLatestVersion();
+    this.setEligibleVersion();
 
     this.setRegistrySource();
 
     this.setPackageStatus();
   }
 
+  /**
+   * Returns the registry document fields the service needs beyond the abbreviated metadata.
+   * Release dates come from `time`, which only the full document contains.
+   * @param ctx The service context
+   * @returns The list of required document fields
+   */
+  public static getRequiredRegistryFields(ctx: ServiceCtxType): string[] {
+    return ctx.withReleaseDates === false ? [] : ['time'];
+  }
+
   /**
    * Gets the package specification
    * @returns The package specification object
@@ -103,11 +151,19 @@ class PackageInfoService extends Service {
       packageName: this.packageName,
       dependencyType: this.dependencyType,
       versionRequired: this.versionRequired,
+      workspaceName: this.workspaceName,
+      workspacePath: this.workspacePath,
+      dependencyPath: this.dependencyPath,
       versionInstalled: this.versionInstalled,
+      versionWanted: this.versionWanted,
       versionLastPatch: this.versionLastPatch,
       versionLastMinor: this.versionLastMinor,
+      versionEligible: this.versionEligible,
+      distTag: this.distTag,
       registrySource: this.registrySource,
       updateStatus: this.updateStatus,
+      fetchStatus: this.fetchStatus,
+      error: this.error,
     };
 
     // Check if installed version is the same as latest version
@@ -136,6 +192,52 @@ class PackageInfoService extends Service {
     return packageSpec;
   }
 
+  /**
+   * Gets the version the package is updated to within an update level, passing over deprecated versions
+   * and versions younger than the minimum release age
+   * @param level The update level
+   * @returns The version to update to, if any, and the deprecated and too recent versions passed over
+   */
+  public getUpdateTarget(level: UpdateLevel): UpdateTarget {
+    if (!this.npmRegistryData || !this.versionInstalled) {
+      return { skippedVersions: [], heldBackVersions: [] };
+    }
+
+    const deprecations: Record<string, string> = {};
+
+    for (const [version, versionData] of Object.entries(this.npmRegistryData.versions)) {
+      const message =
+        versionData && typeof versionData === 'object' && 'deprecated' in versionData
+          ? versionData.deprecated
+          : undefined;
+
+      // An empty message means the version was undeprecated
+      if (message) {
+        deprecations[version] =
+          typeof message === 'string' ? message : 'This version is deprecated';
+      }
+    }
+
+    return findUpdateTarget(
+      this.versionInstalled.version,
+      Object.keys(this.npmRegistryData.versions),
+      deprecations,
+      level,
+      this.versionLast?.version,
+      this.npmRegistryData.time,
+      this.ctx.minReleaseAge
+    );
+  }
+
+  /**
+   * Gets the release date of a published version
+   * @param version The version
+   * @returns The release date, if release dates were fetched
+   */
+  public getReleaseDate(version: string): string | undefined {
+    return this.npmRegistryData?.time?.[version];
+  }
+
   /**
    * Sets the time unit for time since release calculations
    * @param unit The time unit to use ('days', 'months', or 'years')
@@ -163,6 +265,15 @@ class PackageInfoService extends Service {
       this.versionInstalled.timeUnit = this.timeUnit;
     }
 
+    // Update wanted version
+    if (this.versionWanted) {
+      const releaseDate = this.npmRegistryData?.time?.[this.versionWanted.version] || '';
+
+      this.versionWanted.timeSinceRelease = calculateTimeSinceRelease(releaseDate, this.timeUnit);
+
+      this.versionWanted.timeUnit = this.timeUnit;
+    }
+
     // Update latest patch version
     if (this.versionLastPatch) {
       const releaseDate = this.npmRegistryData?.time?.[this.versionLastPatch.version] || '';
@@ -195,156 +306,110 @@ class PackageInfoService extends Service {
 
       this.versionLast.timeUnit = this.timeUnit;
     }
-  }
 
-  private setInstalledVersion() {
-    const installedVersion = this.npmListDepItem?.version || '';
-
-    if (installedVersion) {
-      const releaseDate = this.npmRegistryData?.time?.[installedVersion] || '';
+    // Update eligible version
+    if (this.versionEligible) {
+      const releaseDate = this.npmRegistryData?.time?.[this.versionEligible.version] || '';
 
-      this.versionInstalled = {
-        version: installedVersion,
-        releaseDate: formatDate(releaseDate),
-        npmUrl: getNpmPackageUrl(this.packageName, installedVersion),
-        deprecated: this.isVersionDeprecated(installedVersion),
+      this.versionEligible.timeSinceRelease = calculateTimeSinceRelease(releaseDate, this.timeUnit);
 
-        timeSinceRelease: calculateTimeSinceRelease(releaseDate, this.timeUnit),
-        timeUnit: this.timeUnit,
-      };
+      this.versionEligible.timeUnit = this.timeUnit;
     }
   }
 
-  private setLastPatchVersion() {
-    if (!this.versionInstalled?.version || !this.npmRegistryData) {
-      return;
+  private setFetchStatus() {
+    if (this.error) {
+      this.fetchStatus = 'failed';
+    } else if (this.npmRegistryData) {
+      this.fetchStatus = 'success';
+    } else {
+      // Registry data is not fetched for packages from other sources (git, file, etc.)
+      this.fetchStatus = 'skipped';
     }
+  }
 
-    const productionVersions = this.filterProductionVersions(this.npmRegistryData.versions);
-
-    // Extract major, minor, and patch version numbers from installed version
-    const [major, minor, patch] = this.versionInstalled.version.split('.').map(Number);
-
-    // Find the latest patch version that is greater than the installed patch version
-    const lastPatchVersion = productionVersions
-      // filter versions that match the installed major and minor versions and have a greater patch version
-      .filter((version: string) => {
-        const [vMajor, vMinor, vPatch] = version.split('.').map(Number);
-
-        return vMajor === major && vMinor === minor && vPatch > patch;
-      })
-      // Sort versions by semver
-      .sort((a: string, b: string) => {
-        const [aMajor, aMinor, aPatch] = a.split('.').map(Number);
-
-        const [bMajor, bMinor, bPatch] = b.split('.').map(Number);
-
-        if (aMajor !== bMajor) return aMajor - bMajor;
-
-        if (aMinor !== bMinor) return aMinor - bMinor;
-
-        return aPatch - bPatch;
-      })
-      .pop();
-
-    if (lastPatchVersion) {
-      const releaseDate = this.npmRegistryData.time?.[lastPatchVersion] || '';
-
-      this.versionLastPatch = {
-        version: lastPatchVersion,
-        releaseDate: formatDate(releaseDate),
-        npmUrl: getNpmPackageUrl(this.packageName, lastPatchVersion),
-        deprecated: this.isVersionDeprecated(lastPatchVersion),
+  private setInstalledVersion() {
+    const installedVersion = this.npmListDepItem?.version || '';
 
-        timeSinceRelease: calculateTimeSinceRelease(releaseDate, this.timeUnit),
-        timeUnit: this.timeUnit,
-      };
+    if (installedVersion) {
+      this.versionInstalled = this.createVersionSpec(installedVersion);
     }
   }
 
-  private setLastMinorVersion() {
-    if (!this.versionInstalled?.version || !this.npmRegistryData) {
+  /**
+   * Sets the last patch, last minor and latest versions the package could be updated to
+   */
+  private setUpdateVersions() {
+    if (!this.npmRegistryData) {
       return;
     }
 
-    const productionVersions = this.filterProductionVersions(this.npmRegistryData.versions);
-
-    // Extract major and minor version numbers from installed version
-    const [major, minor] = this.versionInstalled.version.split('.').map(Number);
-
-    // Find the latest minor version that is greater than the installed minor version
-    const lastMinorVersion = productionVersions
-      // filter versions that match the installed major version and have a greater minor version
-      .filter((version: string) => {
-        const [vMajor, vMinor] = version.split('.').map(Number);
-
-        return vMajor === major && vMinor > minor;
-      })
-      // Sort versions by semver
-      .sort((a: string, b: string) => {
-        const [aMajor, aMinor, aPatch] = a.split('.').map(Number);
+    const distTags = this.npmRegistryData['dist-tags'] ?? {};
 
-        const [bMajor, bMinor, bPatch] = b.split('.').map(Number);
+    // Packages configured to track another channel fall back to latest if they don't publish it
+    this.distTag = [this.ctx.distTags?.[this.packageName] ?? this.ctx.tag, DEFAULT_DIST_TAG].find(
+      (tag) => tag && distTags[tag]
+    );
 
-        if (aMajor !== bMajor) return aMajor - bMajor;
+    const { lastPatch, lastMinor, latest } = findUpdateVersions(
+      this.versionInstalled?.version ?? '',
+      Object.keys(this.npmRegistryData.versions),
+      this.distTag && distTags[this.distTag]
+    );
 
-        if (aMinor !== bMinor) return aMinor - bMinor;
+    this.versionLastPatch = lastPatch ? this.createVersionSpec(lastPatch) : undefined;
 
-        return aPatch - bPatch;
-      })
-      .pop();
+    this.versionLastMinor = lastMinor ? this.createVersionSpec(lastMinor) : undefined;
 
-    if (lastMinorVersion) {
-      const releaseDate = this.npmRegistryData.time?.[lastMinorVersion] || '';
-
-      this.versionLastMinor = {
-        version: lastMinorVersion,
-        releaseDate: formatDate(releaseDate),
-        npmUrl: getNpmPackageUrl(this.packageName, lastMinorVersion),
-        deprecated: this.isVersionDeprecated(lastMinorVersion),
-
-        timeSinceRelease: calculateTimeSinceRelease(releaseDate, this.timeUnit),
-        timeUnit: this.timeUnit,
-      };
-    }
+    this.versionLast = latest ? this.createVersionSpec(latest) : undefined;
   }
 
-  private setLatestVersion() {
+  /**
+   * Sets the highest version satisfying the required range
+   */
+  private setWantedVersion() {
     if (!this.npmRegistryData) {
       return;
     }
 
-    const productionVersions = this.filterProductionVersions(this.npmRegistryData.versions);
+    const wantedVersion = findWantedVersion(
+      this.versionRequired,
+      Object.keys(this.npmRegistryData.versions)
+    );
 
-    // Sort versions by semver
-    const latestVersion = productionVersions
-      .sort((a, b) => {
-        const [aMajor, aMinor, aPatch] = a.split('.').map(Number);
-
-        const [bMajor, bMinor, bPatch] = b.split('.').map(Number);
+    this.versionWanted = wantedVersion ? this.createVersionSpec(wantedVersion) : undefined;
+  }
 
-        if (aMajor !== bMajor) return aMajor - bMajor;
+  /**
+   * Sets the newest update that reached the minimum release age, if a minimum release age is set
+   */
+  private setEligibleVersion() {
+    if (!this.ctx.minReleaseAge) {
+      return;
+    }
 
-        if (aMinor !== bMinor) return aMinor - bMinor;
+    const { version } = this.getUpdateTarget('latest');
 
-        return aPatch - bPatch;
-      })
-      .pop();
+    this.versionEligible = version ? this.createVersionSpec(version) : undefined;
+  }
 
-    // Set the versionLast property
-    if (latestVersion) {
-      const releaseDate = this.npmRegistryData.time?.[latestVersion] || '';
+  /**
+   * Creates the version information of a published version
+   * @param version The version
+   * @returns The version with its release date, npm URL and deprecation status
+   */
+  private createVersionSpec(version: string): PackageVersionSpec {
+    const releaseDate = this.npmRegistryData?.time?.[version] || '';
 
-      this.versionLast = {
-        version: latestVersion,
-        releaseDate: formatDate(releaseDate),
-        npmUrl: getNpmPackageUrl(this.packageName, latestVersion),
-        deprecated: this.isVersionDeprecated(latestVersion),
+    return {
+      version,
+      releaseDate: formatDate(releaseDate),
+      npmUrl: getNpmPackageUrl(this.packageName, version),
+      deprecated: this.isVersionDeprecated(version),
 
-        timeSinceRelease: calculateTimeSinceRelease(releaseDate, this.timeUnit),
-        timeUnit: this.timeUnit,
-      };
-    }
+      timeSinceRelease: calculateTimeSinceRelease(releaseDate, this.timeUnit),
+      timeUnit: this.timeUnit,
+    };
   }
 
   private setRegistrySource() {
@@ -356,8 +421,8 @@ class PackageInfoService extends Service {
       }
 
       // Handle different package source types
-      if (isNpmRegistryUrl(resolvedUrl)) {
-        // Standard npm registry URL
+      if (isNpmRegistryUrl(resolvedUrl, this.ctx.npmConfig)) {
+        // npm registry or configured registry URL
         // Format: https://registry.npmjs.org/package-name/-/package-name-1.0.0.tgz
         const packagePath = resolvedUrl.split('/-/')[0];
 
@@ -415,25 +480,7 @@ class PackageInfoService extends Service {
       return;
     }
 
-    const [installedMajor, installedMinor, installedPatch] = this.versionInstalled.version
-      .split('.')
-      .map(Number);
-
-    const [latestMajor, latestMinor, latestPatch] = this.versionLast.version.split('.').map(Number);
-
-    if (
-      installedMajor === latestMajor &&
-      installedMinor === latestMinor &&
-      installedPatch === latestPatch
-    ) {
-      this.updateStatus = 'upToDate';
-    } else if (installedMajor === latestMajor && installedMinor === latestMinor) {
-      this.updateStatus = 'patch';
-    } else if (installedMajor === latestMajor) {
-      this.updateStatus = 'minor';
-    } else {
-      this.updateStatus = 'major';
-    }
+    this.updateStatus = getUpdateStatus(this.versionInstalled.version, this.versionLast.version);
   }
 
   private isVersionDeprecated(version: string): boolean | undefined {
@@ -450,11 +497,6 @@ class PackageInfoService extends Service {
 
     return false;
   }
-
-  private filterProductionVersions(versions: NpmRegistryPackageData['versions']) {
-    // Extract version keys from the versions object
-    return Object.keys(versions).filter((version: string) => !version.includes('-'));
-  }
 }
 
 export default PackageInfoService;
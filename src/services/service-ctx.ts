@@ -8,12 +8,24 @@
  * - Output service for logging and user feedback
  * - Silent mode flag
  * - Force overwrite flag for export operations
+ * - npm registry configuration resolved from .npmrc files
+ * - Registry metadata cache settings
+ * - Registry request retry and timeout settings
+ * - Whether release dates are needed, which requires full registry documents
+ * - Package manager whose lockfile should be read, overriding lockfile detection
+ * - Workspace package the run is limited to
+ * - Depth of the dependency tree analyzed below direct dependencies
+ * - Dist-tag used as the latest version, globally and per package
+ * - Filters limiting the analyzed dependencies by name and dependency type
+ * - Minimum age in days of versions packages are updated to
  *
  * Services can access these shared resources through a single context object,
  * promoting cleaner dependency injection and easier testing.
  */
 
 import type OutputService from '@/services/output-service';
+import { DEFAULT_DIST_TAG } from '@/utils/constants';
+import type { NpmConfig, PackageFilters, PackageManager } from '@/utils/types';
 
 export type ServiceCtxType = {
   cwd: string;
@@ -21,6 +33,20 @@ export type ServiceCtxType = {
   outputDir?: string;
   silent?: boolean;
   forceOverwrite?: boolean;
+  npmConfig?: NpmConfig;
+  cache?: boolean;
+  cacheDir?: string;
+  cacheTtl?: number;
+  withReleaseDates?: boolean;
+  retries?: number;
+  requestTimeout?: number;
+  packageManager?: PackageManager;
+  workspace?: string;
+  depth?: number;
+  tag?: string;
+  distTags?: Record<string, string>;
+  filters?: PackageFilters;
+  minReleaseAge?: number;
 };
 
 class ServiceCtx {
@@ -34,12 +60,54 @@ class ServiceCtx {
 
   private _forceOverwrite: boolean;
 
+  private _npmConfig?: NpmConfig;
+
+  private _cache: boolean;
+
+  private _cacheDir?: string;
+
+  private _cacheTtl?: number;
+
+  private _withReleaseDates: boolean;
+
+  private _retries?: number;
+
+  private _requestTimeout?: number;
+
+  private _packageManager?: PackageManager;
+
+  private _workspace?: string;
+
+  private _depth: number;
+
+  private _tag: string;
+
+  private _distTags: Record<string, string>;
+
+  private _minReleaseAge: number;
+
+  private _filters: PackageFilters;
+
   constructor({
     cwd,
     outputService,
     outputDir,
     silent = false,
     forceOverwrite = false,
+    npmConfig,
+    cache = true,
+    cacheDir,
+    cacheTtl,
+    withReleaseDates = true,
+    retries,
+    requestTimeout,
+    packageManager,
+    workspace,
+    depth = 0,
+    tag = DEFAULT_DIST_TAG,
+    distTags = {},
+    filters = {},
+    minReleaseAge = 0,
   }: ServiceCtxType) {
     this._cwd = cwd;
 
@@ -51,6 +119,34 @@ class ServiceCtx {
     this._silent = silent;
 
     this._forceOverwrite = forceOverwrite;
+
+    this._npmConfig = npmConfig;
+
+    this._cache = cache;
+
+    this._cacheDir = cacheDir;
+
+    this._cacheTtl = cacheTtl;
+
+    this._withReleaseDates = withReleaseDates;
+
+    this._retries = retries;
+
+    this._requestTimeout = requestTimeout;
+
+    this._packageManager = packageManager;
+
+    this._workspace = workspace;
+
+    this._depth = depth;
+
+    this._tag = tag;
+
+    this._distTags = distTags;
+
+    this._filters = filters;
+
+    this._minReleaseAge = minReleaseAge;
   }
 
   get cwd(): string {
@@ -72,6 +168,62 @@ class ServiceCtx {
   get forceOverwrite(): boolean {
     return this._forceOverwrite;
   }
+
+  get npmConfig(): NpmConfig | undefined {
+    return this._npmConfig;
+  }
+
+  get cache(): boolean {
+    return this._cache;
+  }
+
+  get cacheDir(): string | undefined {
+    return this._cacheDir;
+  }
+
+  get cacheTtl(): number | undefined {
+    return this._cacheTtl;
+  }
+
+  get withReleaseDates(): boolean {
+    return this._withReleaseDates;
+  }
+
+  get retries(): number | undefined {
+    return this._retries;
+  }
+
+  get requestTimeout(): number | undefined {
+    return this._requestTimeout;
+  }
+
+  get packageManager(): PackageManager | undefined {
+    return this._packageManager;
+  }
+
+  get workspace(): string | undefined {
+    return this._workspace;
+  }
+
+  get depth(): number {
+    return this._depth;
+  }
+
+  get tag(): string {
+    return this._tag;
+  }
+
+  get distTags(): Record<string, string> {
+    return this._distTags;
+  }
+
+  get filters(): PackageFilters {
+    return this._filters;
+  }
+
+  get minReleaseAge(): number {
+    return this._minReleaseAge;
+  }
 }
 
 export default ServiceCtx;
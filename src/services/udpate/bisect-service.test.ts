@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import OutputService from '@/services/output-service';
+import type PackageFileService from '@/services/package-file-service';
+import ServiceCtx from '@/services/service-ctx';
+import BisectService from '@/services/udpate/bisect-service';
+import type UpdateService from '@/services/udpate/update-service';
+import type { PackageUpdateInfo, VerificationFailure } from '@/utils/types';
+
+const createUpdate = (packageName: string): PackageUpdateInfo => ({
+  packageName,
+  dependencyType: 'dependencies',
+  currentVersion: '^1.0.0',
+  newVersion: '^2.0.0',
+  updateType: 'major',
+});
+
+const axios = createUpdate('axios');
+
+const lodash = createUpdate('lodash');
+
+const jest29 = createUpdate('jest');
+
+const chalk = createUpdate('chalk');
+
+describe('BisectService', () => {
+  let outputDir: string;
+
+  // Fails verification while any of the failing packages is written
+  const createBisectService = (failingPackages: string[] = []) => {
+    let written: PackageUpdateInfo[] = [];
+
+    const getFailure = (): VerificationFailure | undefined =>
+      written.some(({ packageName }) => failingPackages.includes(packageName))
+        ? { step: 'Verify', command: 'npm test', result: { exitCode: 1, output: 'failed' } }
+        : undefined;
+
+    const updateService: jest.Mocked<
+      Pick<
+        UpdateService,
+        'restoreFiles' | 'writeUpdates' | 'saveHistory' | 'runVerificationSteps' | 'verifyUpdates'
+      >
+    > = {
+      restoreFiles: jest.fn(() => {
+        written = [];
+      }),
+      writeUpdates: jest.fn((updates: PackageUpdateInfo[]) => {
+        written = updates;
+
+        return { updatedCount: updates.length, updatedFilePaths: [] };
+      }),
+      saveHistory: jest.fn(),
+      runVerificationSteps: jest.fn<Promise<VerificationFailure | undefined>, [boolean, string?]>(
+        async () => getFailure()
+      ),
+      verifyUpdates: jest.fn<Promise<boolean>, [boolean, string?]>(async () => !getFailure()),
+    };
+
+    const packageFileService: jest.Mocked<
+      Pick<PackageFileService, 'getExportFilePath' | 'getName'>
+    > = {
+      getExportFilePath: jest.fn<string, [string, boolean?, string?]>(() =>
+        path.join(outputDir, 'bisect-report')
+      ),
+      getName: jest.fn(() => 'test-project'),
+    };
+
+    const bisectService = new BisectService(
+      updateService,
+      packageFileService,
+      'npm test',
+      new ServiceCtx({ cwd: outputDir, outputService: new OutputService(true) })
+    );
+
+    return { updateService, bisectService };
+  };
+
+  beforeEach(() => {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-bisect-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it('should install the updates before verifying them in each trial', async () => {
+    const { updateService, bisectService } = createBisectService(['lodash']);
+
+    const result = await bisectService.bisect([axios, lodash, jest29, chalk]);
+
+    expect(updateService.runVerificationSteps).toHaveBeenCalledTimes(result.trials);
+
+    expect(updateService.runVerificationSteps.mock.calls).toEqual(
+      Array.from({ length: result.trials }, () => [true, 'npm test'])
+    );
+
+    expect(updateService.verifyUpdates).toHaveBeenCalledWith(true, 'npm test');
+  });
+
+  it('should apply the passing updates and report the failing ones', async () => {
+    const { updateService, bisectService } = createBisectService(['lodash']);
+
+    const result = await bisectService.bisect([axios, lodash, jest29, chalk]);
+
+    expect(result.applied).toEqual([axios, jest29, chalk]);
+
+    expect(result.failing.map(({ update }) => update)).toEqual([lodash]);
+
+    expect(result.rolledBack).toBe(false);
+
+    expect(updateService.writeUpdates).toHaveBeenLastCalledWith([axios, jest29, chalk]);
+
+    expect(updateService.saveHistory).toHaveBeenCalledWith([axios, jest29, chalk]);
+  });
+
+  it('should write the JSON and Markdown reports', async () => {
+    const { bisectService } = createBisectService(['axios']);
+
+    const result = await bisectService.bisect([axios, lodash]);
+
+    const [jsonPath, markdownPath] = bisectService.writeReports(result);
+
+    expect(JSON.parse(fs.readFileSync(jsonPath, 'utf8'))).toEqual(result);
+
+    expect(fs.readFileSync(markdownPath, 'utf8')).toContain('axios');
+  });
+});
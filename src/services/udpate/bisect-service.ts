@@ -0,0 +1,200 @@
+/**
+ * @fileoverview Provides the BisectService class for isolating updates that break verification.
+ *
+ * This module implements a service for bisecting updates with features including:
+ * - Installing and verifying subsets of the updates, binary search style
+ * - Building the largest set of updates that passes verification together
+ * - Finding the updates that fail verification on their own, with the tail of the failed output
+ * - Applying the passing updates and installing and verifying them again, rolling them back if that fails
+ * - Saving the applied updates to the update history
+ * - Writing the result as JSON and Markdown reports
+ *
+ * The service is used by the update command in bisect mode, when a bulk update
+ * would break the build and the updates causing it should be found.
+ */
+
+import fs from 'fs';
+
+import type PackageFileService from '@/services/package-file-service';
+import type { ServiceType } from '@/services/service';
+import Service from '@/services/service';
+import type UpdateService from '@/services/udpate/update-service';
+import formatBisectReport from '@/utils/helpers/format-bisect-report';
+import getOutputTail from '@/utils/helpers/get-output-tail';
+import type {
+  BisectFailure,
+  BisectResult,
+  PackageUpdateInfo,
+  VerificationFailure,
+} from '@/utils/types';
+
+// Only the update steps used to run the trials, so they can be mocked in tests
+type BisectUpdateSteps = Pick<
+  UpdateService,
+  'restoreFiles' | 'writeUpdates' | 'saveHistory' | 'runVerificationSteps' | 'verifyUpdates'
+>;
+
+type BisectReportFiles = Pick<PackageFileService, 'getExportFilePath' | 'getName'>;
+
+class BisectService extends Service {
+  private updateService: BisectUpdateSteps;
+
+  private packageFileService: BisectReportFiles;
+
+  private verifyCommand: string;
+
+  private trials = 0;
+
+  private failing: BisectFailure[] = [];
+
+  constructor(
+    updateService: BisectUpdateSteps,
+    packageFileService: BisectReportFiles,
+    verifyCommand: string,
+    ctx: ServiceType
+  ) {
+    super(ctx);
+
+    this.updateService = updateService;
+
+    this.packageFileService = packageFileService;
+
+    this.verifyCommand = verifyCommand;
+  }
+
+  /**
+   * Finds the largest set of updates passing verification and the updates failing it, then applies
+   * the passing updates and installs and verifies them again. If that fails, they are rolled back.
+   * @param updates The updates to bisect
+   * @returns The applied and failing updates
+   */
+  public async bisect(updates: Array<PackageUpdateInfo>): Promise<BisectResult> {
+    this.trials = 0;
+
+    this.failing = [];
+
+    const applied = await this.findPassingUpdates(updates, []);
+
+    // The last trial may have failed, so the passing updates are written, installed and verified again
+    this.ctx.outputService.updateLoadingText(`Applying ${applied.length} passing updates...`);
+
+    this.updateService.restoreFiles();
+
+    this.updateService.writeUpdates(applied);
+
+    if (applied.length) {
+      this.updateService.saveHistory(applied);
+    }
+
+    // Failing again, e.g. because of a flaky verification command, restores the files and the history
+    const verified = await this.updateService.verifyUpdates(true, this.verifyCommand);
+
+    return {
+      timestamp: new Date().toISOString(),
+      verifyCommand: this.verifyCommand,
+      trials: this.trials,
+      applied,
+      rolledBack: !verified,
+      failing: this.failing,
+    };
+  }
+
+  /**
+   * Writes the result as JSON and Markdown reports to the output directory
+   * @param result The result of the bisected update
+   * @returns The paths of the JSON and Markdown reports
+   */
+  public writeReports(result: BisectResult): string[] {
+    const filePath = this.packageFileService.getExportFilePath('.json', false, 'bisect-report');
+
+    const jsonPath = `${filePath}.json`;
+
+    const markdownPath = `${filePath}.md`;
+
+    fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2), 'utf8');
+
+    fs.writeFileSync(
+      markdownPath,
+      formatBisectReport(result, this.packageFileService.getName() || '.'),
+      'utf8'
+    );
+
+    return [jsonPath, markdownPath];
+  }
+
+  /**
+   * Adds the candidates passing verification on top of the passing updates found so far. Candidates
+   * are tested all at once, then each half is tested separately until single failing updates remain.
+   * @param candidates The updates to test
+   * @param passing The updates found to pass so far
+   * @param knownFailure The failure of the candidates on top of the passing updates, if already tested
+   * @returns The passing updates, including the passing candidates
+   */
+  private async findPassingUpdates(
+    candidates: Array<PackageUpdateInfo>,
+    passing: Array<PackageUpdateInfo>,
+    knownFailure?: VerificationFailure
+  ): Promise<Array<PackageUpdateInfo>> {
+    if (!candidates.length) {
+      return passing;
+    }
+
+    const failure = knownFailure ?? (await this.runTrial([...passing, ...candidates]));
+
+    if (!failure) {
+      return [...passing, ...candidates];
+    }
+
+    if (candidates.length === 1) {
+      this.failing.push({
+        update: candidates[0],
+        step: failure.step,
+        exitCode: failure.result.exitCode,
+        outputTail: getOutputTail(failure.result.output),
+      });
+
+      return passing;
+    }
+
+    const middle = Math.ceil(candidates.length / 2);
+
+    const firstHalf = candidates.slice(0, middle);
+
+    const secondHalf = candidates.slice(middle);
+
+    const passingWithFirstHalf = await this.findPassingUpdates(firstHalf, passing);
+
+    // If the whole first half passed, testing the second half on top of it repeats the failed trial
+    const isFirstHalfPassing = passingWithFirstHalf.length === passing.length + firstHalf.length;
+
+    return this.findPassingUpdates(
+      secondHalf,
+      passingWithFirstHalf,
+      isFirstHalfPassing ? failure : undefined
+    );
+  }
+
+  /**
+   * Writes a set of updates to the original package.json files, then installs and verifies them.
+   * The updates are always installed, so they aren't verified against the old node_modules.
+   * @param updates The updates to test
+   * @returns The failed step, or undefined if the updates pass verification
+   */
+  private async runTrial(
+    updates: Array<PackageUpdateInfo>
+  ): Promise<VerificationFailure | undefined> {
+    this.trials++;
+
+    this.ctx.outputService.updateLoadingText(
+      `Bisect trial ${this.trials}: installing and verifying ${updates.length} updates...`
+    );
+
+    this.updateService.restoreFiles();
+
+    this.updateService.writeUpdates(updates);
+
+    return this.updateService.runVerificationSteps(true, this.verifyCommand);
+  }
+}
+
+export default BisectService;
@@ -0,0 +1,163 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import OutputService from '@/services/output-service';
+import ServiceCtx from '@/services/service-ctx';
+import GitUpdateService from '@/services/udpate/git-update-service';
+import type UpdateService from '@/services/udpate/update-service';
+import runCommand from '@/utils/helpers/run-command';
+import type { PackageUpdateInfo, VerificationFailure } from '@/utils/types';
+
+const axios: PackageUpdateInfo = {
+  packageName: 'axios',
+  dependencyType: 'dependencies',
+  currentVersion: '~1.4.0',
+  newVersion: '~1.7.9',
+  updateType: 'minor',
+};
+
+const lodash: PackageUpdateInfo = {
+  packageName: 'lodash',
+  dependencyType: 'dependencies',
+  currentVersion: '^4.17.15',
+  newVersion: '^4.18.1',
+  updateType: 'minor',
+};
+
+const jest29: PackageUpdateInfo = {
+  packageName: 'jest',
+  dependencyType: 'devDependencies',
+  currentVersion: '^28.0.0',
+  newVersion: '^29.7.0',
+  updateType: 'major',
+};
+
+describe('GitUpdateService', () => {
+  let projectDir: string;
+
+  const git = async (...args: string[]): Promise<string> =>
+    (await runCommand('git', projectDir, args)).output.trim();
+
+  const readFile = (fileName: string): string =>
+    fs.readFileSync(path.join(projectDir, fileName), 'utf8');
+
+  const writeFile = (fileName: string, content: string): void =>
+    fs.writeFileSync(path.join(projectDir, fileName), content, 'utf8');
+
+  // Writes the updates to package.json, and "installs" them by copying package.json to the lockfile
+  const createUpdateService = (failingPackage?: string) => {
+    const updateService: jest.Mocked<
+      Pick<UpdateService, 'writeUpdates' | 'runVerificationSteps' | 'saveHistory'>
+    > = {
+      writeUpdates: jest.fn((updates: PackageUpdateInfo[]) => {
+        const lines = updates.map(({ packageName, newVersion }) => `${packageName}@${newVersion}`);
+
+        writeFile('package.json', `${readFile('package.json')}${lines.join('\n')}\n`);
+
+        return {
+          updatedCount: updates.length,
+          updatedFilePaths: [path.join(projectDir, 'package.json')],
+        };
+      }),
+      runVerificationSteps: jest.fn<Promise<VerificationFailure | undefined>, [boolean, string?]>(
+        async (install: boolean) => {
+          if (install) {
+            writeFile('package-lock.json', readFile('package.json'));
+          }
+
+          return failingPackage && readFile('package.json').includes(failingPackage)
+            ? { step: 'Install', command: 'npm install', result: { exitCode: 1, output: 'failed' } }
+            : undefined;
+        }
+      ),
+      saveHistory: jest.fn(),
+    };
+
+    const gitUpdateService = new GitUpdateService(
+      updateService,
+      {
+        packageManager: 'npm',
+        fileName: 'package-lock.json',
+        filePath: path.join(projectDir, 'package-lock.json'),
+      },
+      new ServiceCtx({ cwd: projectDir, outputService: new OutputService(true) })
+    );
+
+    return { updateService, gitUpdateService };
+  };
+
+  beforeEach(async () => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-git-'));
+
+    writeFile('package.json', '');
+
+    writeFile('package-lock.json', '');
+
+    await git('init', '--quiet');
+
+    await git('config', 'user.name', 'Test');
+
+    await git('config', 'user.email', 'test@example.com');
+
+    await git('add', '.');
+
+    await git('commit', '--quiet', '--message', 'Initial commit');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it('should install each update before committing it with the lockfile', async () => {
+    const { updateService, gitUpdateService } = createUpdateService();
+
+    const result = await gitUpdateService.commitUpdates([axios, jest29], undefined, 'npm test');
+
+    expect(result).toEqual({ commitCount: 2, failed: false });
+
+    expect(updateService.runVerificationSteps).toHaveBeenCalledTimes(2);
+
+    expect(updateService.runVerificationSteps).toHaveBeenCalledWith(true, 'npm test');
+
+    // Each commit contains the lockfile as installed for its package.json
+    expect(await git('show', 'HEAD~1:package-lock.json')).toBe('axios@~1.7.9');
+
+    expect(await git('show', 'HEAD:package-lock.json')).toBe('axios@~1.7.9\njest@^29.7.0');
+
+    expect(await git('status', '--porcelain')).toBe('');
+  });
+
+  it('should install each group before committing it with the lockfile', async () => {
+    const { gitUpdateService } = createUpdateService();
+
+    const result = await gitUpdateService.commitUpdates([axios, jest29, lodash], 'dependency-type');
+
+    expect(result).toEqual({ commitCount: 2, failed: false });
+
+    expect(await git('show', 'HEAD~1:package-lock.json')).toBe('axios@~1.7.9\nlodash@^4.18.1');
+
+    expect(await git('show', 'HEAD:package-lock.json')).toBe(
+      'axios@~1.7.9\nlodash@^4.18.1\njest@^29.7.0'
+    );
+  });
+
+  it('should restore the files of a failed group and keep the commits before it', async () => {
+    const { updateService, gitUpdateService } = createUpdateService('jest@');
+
+    // Failed commands are reported even in silent mode
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const result = await gitUpdateService.commitUpdates([axios, jest29], undefined);
+
+    expect(result).toEqual({ commitCount: 1, failed: true });
+
+    expect(readFile('package.json')).toBe('axios@~1.7.9\n');
+
+    expect(readFile('package-lock.json')).toBe('axios@~1.7.9\n');
+
+    expect(updateService.saveHistory).toHaveBeenCalledWith([axios]);
+  });
+});
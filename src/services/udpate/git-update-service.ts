@@ -0,0 +1,211 @@
+/**
+ * @fileoverview Provides the GitUpdateService class for committing updates to git.
+ *
+ * This module implements a service for applying updates as git commits with features including:
+ * - Refusing to run when tracked files have uncommitted changes
+ * - Creating a branch for the updates
+ * - Committing each update on its own, or grouped by update type or dependency type
+ * - Conventional commit messages, e.g. chore(deps): bump axios from ~1.4.0 to ~1.7.9
+ * - Installing each commit, so the lockfile matches its package.json files, and verifying it
+ * - Stopping at the first failed step
+ *
+ * The service is used by the update command in git mode, so that every dependency bump
+ * can be reviewed and reverted on its own.
+ */
+
+import type { ServiceType } from '@/services/service';
+import Service from '@/services/service';
+import type UpdateService from '@/services/udpate/update-service';
+import formatCommitMessage from '@/utils/helpers/format-commit-message';
+import runCommand from '@/utils/helpers/run-command';
+import type { CommandResult, GitGroup, LockFile, PackageUpdateInfo } from '@/utils/types';
+
+// Only the update steps used to commit the updates, so they can be mocked in tests
+type GitUpdateSteps = Pick<UpdateService, 'writeUpdates' | 'runVerificationSteps' | 'saveHistory'>;
+
+type CommitGroup = {
+  label: string;
+  updates: PackageUpdateInfo[];
+};
+
+class GitUpdateService extends Service {
+  private updateService: GitUpdateSteps;
+
+  private lockFile: LockFile;
+
+  constructor(updateService: GitUpdateSteps, lockFile: LockFile, ctx: ServiceType) {
+    super(ctx);
+
+    this.updateService = updateService;
+
+    this.lockFile = lockFile;
+  }
+
+  /**
+   * Checks that the project is in a git repository without uncommitted changes to tracked files,
+   * so that the commits only contain the updates
+   * @throws Error if the project isn't in a git repository or has uncommitted changes
+   */
+  public async checkWorkingTree(): Promise<void> {
+    const result = await this.git(['status', '--porcelain', '--untracked-files=no']);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`The --git option requires a git repository: ${result.output.trim()}`);
+    }
+
+    if (result.output.trim()) {
+      throw new Error(
+        'The working tree has uncommitted changes. Commit or stash them before updating with --git'
+      );
+    }
+  }
+
+  /**
+   * Creates a branch and switches to it
+   * @param branch The name of the branch
+   * @throws Error if the branch can't be created, e.g. because it already exists
+   */
+  public async createBranch(branch: string): Promise<void> {
+    const result = await this.git(['checkout', '-b', branch]);
+
+    if (result.exitCode !== 0) {
+      throw new Error(`Branch "${branch}" could not be created: ${result.output.trim()}`);
+    }
+  }
+
+  /**
+   * Writes and commits the updates one group at a time, together with the lockfile. The install
+   * command of the package manager runs before each commit to bring the lockfile in line with the
+   * updates. If a step fails, the files of the failed group are restored from the last commit and
+   * no more groups are committed.
+   * @param updates The updates to commit
+   * @param group How updates are grouped into commits, one commit per package if not set
+   * @param verifyCommand The command verifying each commit before it is made, e.g. npm test
+   * @returns The number of commits made and whether a step failed
+   */
+  public async commitUpdates(
+    updates: Array<PackageUpdateInfo>,
+    group: GitGroup | undefined,
+    verifyCommand?: string
+  ): Promise<{ commitCount: number; failed: boolean }> {
+    const committedUpdates: Array<PackageUpdateInfo> = [];
+
+    let commitCount = 0;
+
+    let failed = false;
+
+    for (const { label, updates: groupUpdates } of this.groupUpdates(updates, group)) {
+      const { updatedCount, updatedFilePaths } = this.updateService.writeUpdates(groupUpdates);
+
+      if (updatedCount === 0) {
+        continue;
+      }
+
+      const message = formatCommitMessage(groupUpdates, label);
+
+      this.ctx.outputService.updateLoadingText(`Committing "${message.split('\n')[0]}"...`);
+
+      const files = [...updatedFilePaths, this.lockFile.filePath];
+
+      const failure = await this.updateService.runVerificationSteps(true, verifyCommand);
+
+      if (failure) {
+        this.ctx.outputService.commandError(failure.step, failure.command, failure.result);
+
+        await this.restoreFiles(files);
+
+        failed = true;
+
+        break;
+      }
+
+      const commitResult = await this.commit(files, message);
+
+      if (commitResult.exitCode !== 0) {
+        this.ctx.outputService.commandError('Commit', 'git commit', commitResult);
+
+        await this.restoreFiles(files);
+
+        failed = true;
+
+        break;
+      }
+
+      committedUpdates.push(...groupUpdates);
+
+      commitCount++;
+    }
+
+    if (committedUpdates.length) {
+      this.updateService.saveHistory(committedUpdates);
+    }
+
+    if (failed) {
+      this.ctx.outputService.log(
+        `Files of the failed commit have been restored, ${commitCount} commits were made before it`
+      );
+
+      this.ctx.outputService.log(
+        `Please run "${this.lockFile.packageManager} install" to restore node_modules as well`
+      );
+    }
+
+    return { commitCount, failed };
+  }
+
+  /**
+   * Splits the updates into the groups committed together, in the order their first update is listed
+   */
+  private groupUpdates(
+    updates: Array<PackageUpdateInfo>,
+    group: GitGroup | undefined
+  ): CommitGroup[] {
+    if (!group) {
+      return updates.map((update) => ({ label: update.dependencyType, updates: [update] }));
+    }
+
+    const groups: Record<string, CommitGroup> = {};
+
+    for (const update of updates) {
+      const label =
+        group === 'update-type' ? `${update.updateType} updates` : update.dependencyType;
+
+      groups[label] ??= { label, updates: [] };
+
+      groups[label].updates.push(update);
+    }
+
+    return Object.values(groups);
+  }
+
+  private async commit(files: string[], message: string): Promise<CommandResult> {
+    // Only tracked files are staged, as the lockfile may be ignored
+    const addResult = await this.git(['add', '--update', '--', ...files]);
+
+    if (addResult.exitCode !== 0) {
+      return addResult;
+    }
+
+    // Other tracked files were unchanged before the first commit, so only the staged files are committed
+    return this.git(['commit', '--message', message]);
+  }
+
+  /**
+   * Restores the tracked files among the given files from the last commit
+   */
+  private async restoreFiles(files: string[]): Promise<void> {
+    const result = await this.git(['ls-files', '--', ...files]);
+
+    const trackedFiles = result.output.split('\n').filter(Boolean);
+
+    if (trackedFiles.length) {
+      await this.git(['checkout', 'HEAD', '--', ...trackedFiles]);
+    }
+  }
+
+  private git(args: string[]): Promise<CommandResult> {
+    return runCommand('git', this.ctx.cwd, args);
+  }
+}
+
+export default GitUpdateService;
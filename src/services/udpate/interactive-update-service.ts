@@ -0,0 +1,243 @@
+/**
+ * @fileoverview Provides the InteractiveUpdateService class for choosing updates in the terminal.
+ *
+ * This module implements a service for selecting updates interactively with features including:
+ * - A navigable list of updates grouped by dependency type and update status
+ * - Current and new versions with the release age of the new version
+ * - Toggling single packages or all of them
+ * - Choosing the update level (patch, minor, latest) of each package
+ * - Scrolling lists that don't fit in the terminal
+ *
+ * The service is used by the update command in interactive mode, before the chosen
+ * updates are applied. It requires both stdin and stdout to be a terminal.
+ */
+
+import readline from 'readline';
+
+import type { ServiceType } from '@/services/service';
+import Service from '@/services/service';
+import { UPDATE_LEVELS } from '@/utils/constants';
+import formatReleaseAge from '@/utils/helpers/format-release-age';
+import getSelectedUpdates from '@/utils/helpers/get-selected-updates';
+import groupUpdateChoices from '@/utils/helpers/group-update-choices';
+import handleUpdateChoiceKey from '@/utils/helpers/handle-update-choice-key';
+import type { PackageUpdateInfo, UpdateChoice, UpdateChoiceState } from '@/utils/types';
+
+const HELP_TEXT = '↑/↓ move · space toggle · ←/→ level · a all · enter apply · esc cancel';
+
+type Line = {
+  text: string;
+  choiceIndex?: number;
+};
+
+class InteractiveUpdateService extends Service {
+  private state: UpdateChoiceState;
+
+  private scrollOffset = 0;
+
+  private renderedLineCount = 0;
+
+  constructor(choices: UpdateChoice[], ctx: ServiceType) {
+    super(ctx);
+
+    // The cursor moves through the updates in the order they are listed
+    this.state = {
+      choices: groupUpdateChoices(choices).flatMap((group) => group.choices),
+      cursor: 0,
+    };
+  }
+
+  /**
+   * Checks whether updates can be chosen interactively, which requires a terminal
+   * @returns True if both stdin and stdout are a terminal
+   */
+  public static isSupported(): boolean {
+    return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+  }
+
+  /**
+   * Shows the list of updates and waits for the user to choose them
+   * @returns The chosen updates, or undefined if the user cancelled
+   */
+  public selectUpdates(): Promise<PackageUpdateInfo[] | undefined> {
+    const { stdin, stdout } = process;
+
+    return new Promise((resolve) => {
+      const finish = (updates: PackageUpdateInfo[] | undefined) => {
+        stdin.off('keypress', onKeypress);
+
+        stdin.setRawMode(false);
+
+        stdin.pause();
+
+        this.clear();
+
+        // Show cursor again
+        stdout.write('\u001B[?25h');
+
+        resolve(updates);
+      };
+
+      const onKeypress = (_input: string | undefined, key: readline.Key | undefined) => {
+        if (!key) {
+          return;
+        }
+
+        if ((key.ctrl && key.name === 'c') || key.name === 'escape' || key.name === 'q') {
+          finish(undefined);
+
+          return;
+        }
+
+        if (key.name === 'return') {
+          finish(getSelectedUpdates(this.state.choices));
+
+          return;
+        }
+
+        this.state = handleUpdateChoiceKey(this.state, key.name);
+
+        this.render();
+      };
+
+      readline.emitKeypressEvents(stdin);
+
+      stdin.setRawMode(true);
+
+      stdin.resume();
+
+      stdin.on('keypress', onKeypress);
+
+      // Hide cursor
+      stdout.write('\u001B[?25l');
+
+      this.render();
+    });
+  }
+
+  private getLines(): Line[] {
+    const { choices, cursor } = this.state;
+
+    const lines: Line[] = [];
+
+    const labels = choices.map((choice) =>
+      choice.workspaceName ? `${choice.packageName} (${choice.workspaceName})` : choice.packageName
+    );
+
+    const labelWidth = Math.max(...labels.map((label) => label.length));
+
+    const versionWidth = Math.max(
+      ...choices.flatMap((choice) =>
+        Object.values(choice.updates).map(
+          (update) => `${update.currentVersion} → ${update.newVersion}`.length
+        )
+      )
+    );
+
+    // The choices are already grouped, so grouping them again keeps their order and indexes
+    let index = 0;
+
+    for (const group of groupUpdateChoices(choices)) {
+      lines.push({ text: '' }, { text: group.label });
+
+      for (const choice of group.choices) {
+        lines.push({
+          text: this.formatChoice(
+            choice,
+            labels[index],
+            labelWidth,
+            versionWidth,
+            index === cursor
+          ),
+          choiceIndex: index,
+        });
+
+        index++;
+      }
+    }
+
+    return lines;
+  }
+
+  private formatChoice(
+    choice: UpdateChoice,
+    label: string,
+    labelWidth: number,
+    versionWidth: number,
+    isUnderCursor: boolean
+  ): string {
+    const update = choice.updates[choice.level];
+
+    const versions = update ? `${update.currentVersion} → ${update.newVersion}` : '';
+
+    const levels = UPDATE_LEVELS.filter((level) => choice.updates[level])
+      .map((level) => (level === choice.level ? `[${level}]` : level))
+      .join(' ');
+
+    const notes = [formatReleaseAge(update?.releaseDate)].filter(Boolean);
+
+    return [
+      isUnderCursor ? '❯' : ' ',
+      choice.selected ? '◉' : '◯',
+      label.padEnd(labelWidth),
+      versions.padEnd(versionWidth),
+      levels,
+      notes.length ? `(${notes.join(', ')})` : '',
+    ]
+      .join(' ')
+      .trimEnd();
+  }
+
+  private render(): void {
+    const { stdout } = process;
+
+    const { choices, cursor } = this.state;
+
+    const selectedCount = choices.filter(({ selected }) => selected).length;
+
+    const lines = this.getLines();
+
+    // Header and footer lines are always shown, the list scrolls to keep the cursor visible
+    const visibleCount = Math.max((stdout.rows || 24) - 5, 3);
+
+    const cursorLine = lines.findIndex(({ choiceIndex }) => choiceIndex === cursor);
+
+    if (cursorLine < this.scrollOffset) {
+      // Keep the group header of the first row visible when scrolling up
+      this.scrollOffset = Math.max(cursorLine - 2, 0);
+    } else if (cursorLine >= this.scrollOffset + visibleCount) {
+      this.scrollOffset = cursorLine - visibleCount + 1;
+    }
+
+    this.scrollOffset = Math.min(this.scrollOffset, Math.max(lines.length - visibleCount, 0));
+
+    const output = [
+      'Select the updates to apply',
+      HELP_TEXT,
+      ...lines.slice(this.scrollOffset, this.scrollOffset + visibleCount).map(({ text }) => text),
+      '',
+      `${selectedCount} of ${choices.length} updates selected`,
+    ];
+
+    // Long lines are cut so that each line takes a single terminal row
+    const width = (stdout.columns || 80) - 1;
+
+    this.clear();
+
+    stdout.write(`${output.map((line) => line.slice(0, width)).join('\n')}\n`);
+
+    this.renderedLineCount = output.length;
+  }
+
+  private clear(): void {
+    const { stdout } = process;
+
+    readline.moveCursor(stdout, 0, -this.renderedLineCount);
+
+    readline.clearScreenDown(stdout);
+
+    this.renderedLineCount = 0;
+  }
+}
+
+export default InteractiveUpdateService;
@@ -3,9 +3,15 @@
  *
  * This module implements a service for updating package dependencies with features including:
  * - Filtering packages that need updates based on specified update level (latest, minor, patch)
- * - Determining appropriate version prefixes (^, ~, etc.) for updates
- * - Handling special cases like deprecated packages and non-npm registry dependencies
- * - Applying updates to package.json while preserving formatting
+ * - Rewriting version ranges to include the update, keeping their form or normalizing them
+ * - Passing over deprecated versions and reporting packages whose newer versions are all deprecated
+ * - Holding back versions younger than the minimum release age, showing when they become eligible
+ * - Handling special cases like non-npm registry dependencies
+ * - Applying updates to package.json by replacing only the version strings, preserving formatting
+ * - Writing updates of workspace packages to their own package.json files
+ * - Preparing the updates of every update level to choose from interactively
+ * - Running the install and verification commands, restoring package.json files and the lockfile if they fail
+ * - Saving package.json files and the lockfile of each update run to the update history, so the run can be undone
  * - Providing feedback on update operations
  *
  * The service is used by the update command to intelligently update dependencies
@@ -18,121 +24,156 @@ import path from 'path';
 import type PackageInfoService from '@/services/package-info-service';
 import type { ServiceType } from '@/services/service';
 import Service from '@/services/service';
-import { PACKAGE_FILE_NAME, PACKAGE_LOCK_FILE_NAME } from '@/utils/constants';
+import { PACKAGE_FILE_NAME, UPDATE_LEVELS } from '@/utils/constants';
+import getUpdateStatus from '@/utils/helpers/get-update-status';
 import isNpmRegistryUrl from '@/utils/helpers/is-npm-registry-url';
-import type { PackageUpdateInfo, UpdateLevel } from '@/utils/types';
-
-import type { PackageJson } from 'type-fest';
+import rewriteRange from '@/utils/helpers/rewrite-range';
+import runCommand from '@/utils/helpers/run-command';
+import setDependencyVersion from '@/utils/helpers/set-dependency-version';
+import UpdateHistory from '@/utils/helpers/update-history';
+import type {
+  DeprecatedUpdatesPackage,
+  HeldBackPackage,
+  LockFile,
+  PackageUpdateInfo,
+  RangeStyle,
+  UpdateChoice,
+  UpdateLevel,
+  VerificationFailure,
+} from '@/utils/types';
 
 class UpdateService extends Service {
   private packageInfoList: PackageInfoService[];
 
   private updateLevel: UpdateLevel;
 
-  private packageJsonPath: string;
+  private rangeStyle: RangeStyle;
+
+  private lockFile: LockFile;
+
+  // Contents of package.json files and the lockfile before the updates were applied, keyed by path
+  private originalFiles: Record<string, string> = {};
+
+  private history: UpdateHistory;
+
+  // ID of the update run saved to the history, removed again if the updates are rolled back
+  private historyId?: string;
 
-  constructor(packageInfoList: PackageInfoService[], updateLevel: UpdateLevel, ctx: ServiceType) {
+  constructor(
+    packageInfoList: PackageInfoService[],
+    updateLevel: UpdateLevel,
+    rangeStyle: RangeStyle,
+    lockFile: LockFile,
+    ctx: ServiceType
+  ) {
     super(ctx);
 
     this.packageInfoList = packageInfoList;
 
     this.updateLevel = updateLevel;
 
-    this.packageJsonPath = path.resolve(this.ctx.cwd, PACKAGE_FILE_NAME);
+    this.rangeStyle = rangeStyle;
+
+    this.lockFile = lockFile;
+
+    this.history = new UpdateHistory(ctx.cwd);
   }
 
   /**
    * Prepares the list of updates to be applied
    */
   public prepareUpdates(): Array<PackageUpdateInfo> {
-    const updatablePackages = this.getUpdatablePackages();
-
     const updates: Array<PackageUpdateInfo> = [];
 
-    for (const pkg of updatablePackages) {
-      const packageInfo = pkg.getInfo();
-
-      const { packageName, dependencyType, versionRequired, updateStatus } = packageInfo;
-
-      // Determine the target version based on update level
-      let targetVersion: string | undefined;
-
-      // Prioritize the latest version available, fall back to minor or patch if available
-      if (this.updateLevel === 'latest') {
-        targetVersion =
-          packageInfo.versionLast?.version ||
-          packageInfo.versionLastMinor?.version ||
-          packageInfo.versionLastPatch?.version;
-      } else if (this.updateLevel === 'minor') {
-        targetVersion =
-          packageInfo.versionLastMinor?.version || packageInfo.versionLastPatch?.version;
-      } else if (this.updateLevel === 'patch' && packageInfo.versionLastPatch?.version) {
-        targetVersion = packageInfo.versionLastPatch?.version;
+    for (const pkg of this.getUpdatablePackages()) {
+      const update = this.prepareUpdate(pkg, this.updateLevel);
+
+      if (update) {
+        updates.push(update);
       }
+    }
 
-      if (!targetVersion) {
-        continue;
+    return updates;
+  }
+
+  /**
+   * Prepares the updates each package can get at every update level, for choosing them interactively.
+   * Updates are initially selected at the specified update level, or the highest level below it.
+   */
+  public prepareUpdateChoices(): Array<UpdateChoice> {
+    const choices: Array<UpdateChoice> = [];
+
+    const levelIndex = UPDATE_LEVELS.indexOf(this.updateLevel);
+
+    for (const pkg of this.getUpdatablePackages()) {
+      const { packageName, dependencyType, workspaceName, updateStatus } = pkg.getInfo();
+
+      const updates: UpdateChoice['updates'] = {};
+
+      let previousUpdate: PackageUpdateInfo | undefined;
+
+      for (const level of UPDATE_LEVELS) {
+        const update = this.prepareUpdate(pkg, level);
+
+        // Levels leading to the same version as the level below them are left out
+        if (update && update.newVersion !== previousUpdate?.newVersion) {
+          updates[level] = update;
+
+          previousUpdate = update;
+        }
       }
 
-      // Determine the version prefix from the current version requirement
-      const prefix = this.getVersionPrefix(versionRequired);
+      const levels = UPDATE_LEVELS.filter((level) => updates[level]);
+
+      if (!levels.length) {
+        continue;
+      }
 
-      const newVersion = `${prefix}${targetVersion}`;
+      const allowedLevels = levels.filter((level) => UPDATE_LEVELS.indexOf(level) <= levelIndex);
 
-      // Add to updates list
-      updates.push({
+      choices.push({
         packageName,
         dependencyType,
-        currentVersion: versionRequired,
-        newVersion,
-        updateType: updateStatus || 'patch',
+        workspaceName,
+        updateStatus,
+        updates,
+        level: allowedLevels[allowedLevels.length - 1] ?? levels[0],
+        selected: allowedLevels.length > 0,
       });
     }
 
-    return updates;
+    return choices;
   }
 
   /**
    * Applies the updates to package.json
    * @param updates The list of updates to apply
    * @param dryRun If true, don't actually make changes
+   * @param install If true, the install command is run afterwards, so it isn't suggested
    * @returns Number of packages updated
    */
-  public applyUpdates(updates: Array<PackageUpdateInfo>, dryRun = false): number {
+  public applyUpdates(updates: Array<PackageUpdateInfo>, dryRun = false, install = false): number {
     if (dryRun) {
       return updates.length;
     }
 
     try {
-      // Read the current package.json
-      const packageJson = JSON.parse(fs.readFileSync(this.packageJsonPath, 'utf8')) as PackageJson;
-
-      let updatedCount = 0;
-
-      for (const update of updates) {
-        const { packageName, dependencyType, newVersion } = update;
-
-        // Update the version in package.json
-        if (packageJson[dependencyType] && typeof packageJson[dependencyType] === 'object') {
-          const deps = packageJson[dependencyType] as Record<string, string>;
-
-          if (deps[packageName] !== newVersion) {
-            deps[packageName] = newVersion;
-
-            updatedCount++;
-          }
-        }
-      }
+      const { updatedCount, updatedFilePaths } = this.writeUpdates(updates);
 
       if (updatedCount > 0) {
-        // Write the updated package.json back to disk
-        fs.writeFileSync(this.packageJsonPath, JSON.stringify(packageJson, null, 2), 'utf8');
+        this.ctx.outputService.log(
+          updatedFilePaths.length > 1
+            ? `Package versions have been updated in ${updatedFilePaths.length} ${PACKAGE_FILE_NAME} files`
+            : `Package versions have been updated in ${PACKAGE_FILE_NAME}`
+        );
 
-        // Log a message suggesting to run npm install
-        this.ctx.outputService.log(`Package versions have been updated in ${PACKAGE_FILE_NAME}`);
+        this.saveHistory(updates);
+      }
 
+      if (updatedCount > 0 && !install) {
+        // Log a message suggesting to run the install command of the project's package manager
         this.ctx.outputService.log(
-          `Please run "npm install" to update your ${PACKAGE_LOCK_FILE_NAME} and node_modules`
+          `Please run "${this.getInstallCommand()}" to update your ${this.lockFile.fileName} and node_modules`
         );
 
         this.ctx.outputService.log(
@@ -149,14 +190,253 @@ class UpdateService extends Service {
   }
 
   /**
-   * Displays the updates to be applied
+   * Writes the updates to package.json files, keeping the original contents of the files and the
+   * lockfile so they can be restored
+   * @param updates The list of updates to write
+   * @returns Number of packages updated and paths of the changed package.json files
+   */
+  public writeUpdates(updates: Array<PackageUpdateInfo>): {
+    updatedCount: number;
+    updatedFilePaths: string[];
+  } {
+    let updatedCount = 0;
+
+    const updatedFilePaths: string[] = [];
+
+    // Workspace packages have their own package.json, so updates are grouped by file
+    const updatesByPath: Record<string, Array<PackageUpdateInfo>> = {};
+
+    for (const update of updates) {
+      const packageJsonPath = path.resolve(
+        this.ctx.cwd,
+        update.workspacePath ?? '.',
+        PACKAGE_FILE_NAME
+      );
+
+      updatesByPath[packageJsonPath] = [...(updatesByPath[packageJsonPath] ?? []), update];
+    }
+
+    // The lockfile is restored together with package.json files if a later step fails
+    this.originalFiles[this.lockFile.filePath] ??= fs.readFileSync(this.lockFile.filePath, 'utf8');
+
+    for (const [packageJsonPath, packageUpdates] of Object.entries(updatesByPath)) {
+      // Read the current package.json as text, so that its formatting is kept
+      let content = fs.readFileSync(packageJsonPath, 'utf8');
+
+      this.originalFiles[packageJsonPath] ??= content;
+
+      let fileUpdatedCount = 0;
+
+      for (const update of packageUpdates) {
+        const { packageName, dependencyType, newVersion } = update;
+
+        // Update the version string in place
+        const updatedContent = setDependencyVersion(
+          content,
+          dependencyType,
+          packageName,
+          newVersion
+        );
+
+        if (updatedContent !== undefined && updatedContent !== content) {
+          content = updatedContent;
+
+          fileUpdatedCount++;
+        }
+      }
+
+      if (fileUpdatedCount > 0) {
+        // Write the updated package.json back to disk
+        fs.writeFileSync(packageJsonPath, content, 'utf8');
+
+        updatedCount += fileUpdatedCount;
+
+        updatedFilePaths.push(packageJsonPath);
+      }
+    }
+
+    return { updatedCount, updatedFilePaths };
+  }
+
+  /**
+   * Runs the install command of the package manager and a verification command after the updates
+   * were applied. If either of them fails, package.json files and the lockfile are restored.
+   * @param install If true, the install command of the package manager is run
+   * @param verifyCommand The command verifying the updates, e.g. npm test
+   * @returns True if every step succeeded
+   */
+  public async verifyUpdates(install: boolean, verifyCommand?: string): Promise<boolean> {
+    const failure = await this.runVerificationSteps(install, verifyCommand);
+
+    if (!failure) {
+      return true;
+    }
+
+    this.ctx.outputService.commandError(failure.step, failure.command, failure.result);
+
+    this.restoreFiles();
+
+    this.ctx.outputService.log(
+      `${PACKAGE_FILE_NAME} and ${this.lockFile.fileName} have been restored to their state before the update`
+    );
+
+    if (install) {
+      this.ctx.outputService.log(
+        `Please run "${this.getInstallCommand()}" to restore node_modules as well`
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Runs the install command of the package manager and a verification command, stopping at the first failure
+   * @param install If true, the install command of the package manager is run
+   * @param verifyCommand The command verifying the updates, e.g. npm test
+   * @returns The failed step with the command result, or undefined if every step succeeded
+   */
+  public async runVerificationSteps(
+    install: boolean,
+    verifyCommand?: string
+  ): Promise<VerificationFailure | undefined> {
+    const steps = [
+      ...(install ? [{ step: 'Install', command: this.getInstallCommand() }] : []),
+      ...(verifyCommand ? [{ step: 'Verification', command: verifyCommand }] : []),
+    ];
+
+    for (const { step, command } of steps) {
+      this.ctx.outputService.updateLoadingText(`Running "${command}"...`);
+
+      const result = await runCommand(command, this.ctx.cwd);
+
+      if (result.exitCode !== 0) {
+        return { step, command, result };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Saves the contents of package.json files and the lockfile before the updates were written to
+   * the update history. Failures are only logged, as the updates are already written.
+   * @param updates The list of written updates
+   */
+  public saveHistory(updates: Array<PackageUpdateInfo>): void {
+    try {
+      const entry = this.history.save({
+        packageManager: this.lockFile.packageManager,
+        updates,
+        files: Object.entries(this.originalFiles).map(([filePath, content]) => ({
+          path: path.relative(this.ctx.cwd, filePath),
+          content,
+        })),
+      });
+
+      this.historyId = entry.id;
+
+      this.ctx.outputService.log(
+        `A backup of this update has been saved as run ${entry.id}, run "check-my-deps undo" to revert it`
+      );
+    } catch (error) {
+      this.ctx.outputService.log(
+        `The backup of this update could not be saved: ${(error as Error).message}`
+      );
+    }
+  }
+
+  /**
+   * Restores package.json files and the lockfile to their contents before the updates were written,
+   * removing the update run from the history if it was saved
+   */
+  public restoreFiles(): void {
+    for (const [filePath, content] of Object.entries(this.originalFiles)) {
+      fs.writeFileSync(filePath, content, 'utf8');
+    }
+
+    this.originalFiles = {};
+
+    if (this.historyId) {
+      this.history.remove(this.historyId);
+
+      this.historyId = undefined;
+    }
+  }
+
+  /**
+   * Gets the packages without an update because every newer version within the update level
+   * is younger than the minimum release age
+   * @returns The packages with their held back versions
+   */
+  public getHeldBackPackages(): HeldBackPackage[] {
+    const heldBackPackages: HeldBackPackage[] = [];
+
+    for (const pkg of this.getUpdatablePackages()) {
+      const { version, heldBackVersions } = pkg.getUpdateTarget(this.updateLevel);
+
+      if (version || !heldBackVersions.length) {
+        continue;
+      }
+
+      const { packageName, dependencyType, versionRequired, workspaceName } = pkg.getInfo();
+
+      heldBackPackages.push({
+        packageName,
+        dependencyType,
+        currentVersion: versionRequired,
+        heldBackVersions,
+        ...(workspaceName && { workspaceName }),
+      });
+    }
+
+    return heldBackPackages;
+  }
+
+  /**
+   * Gets the packages without an update because every newer version within the update level
+   * is deprecated
+   * @returns The packages with their deprecated versions
+   */
+  public getDeprecatedUpdatesPackages(): DeprecatedUpdatesPackage[] {
+    const deprecatedUpdatesPackages: DeprecatedUpdatesPackage[] = [];
+
+    for (const pkg of this.getUpdatablePackages()) {
+      const { version, skippedVersions } = pkg.getUpdateTarget(this.updateLevel);
+
+      if (version || !skippedVersions.length) {
+        continue;
+      }
+
+      const { packageName, dependencyType, versionRequired, workspaceName } = pkg.getInfo();
+
+      deprecatedUpdatesPackages.push({
+        packageName,
+        dependencyType,
+        currentVersion: versionRequired,
+        skippedVersions,
+        ...(workspaceName && { workspaceName }),
+      });
+    }
+
+    return deprecatedUpdatesPackages;
+  }
+
+  /**
+   * Displays the updates to be applied, the packages whose newer versions are all deprecated,
+   * and the versions held back by the minimum release age
    * @param updates The list of updates to display
    */
   public displayUpdates(updates: Array<PackageUpdateInfo>): void {
+    const minReleaseAge = this.ctx.minReleaseAge ?? 0;
+
+    const deprecatedUpdatesPackages = this.getDeprecatedUpdatesPackages();
+
     // Create a structured JSON object
     const jsonOutput = {
       timestamp: new Date().toISOString(),
       updateLevel: this.updateLevel,
+      rangeStyle: this.rangeStyle,
+      ...(minReleaseAge > 0 && { minReleaseAge }),
       totalUpdates: updates.length,
       updates: updates.map((update) => ({
         packageName: update.packageName,
@@ -164,8 +444,15 @@ class UpdateService extends Service {
         currentVersion: update.currentVersion,
         newVersion: update.newVersion,
         updateType: update.updateType,
-        deprecated: update.deprecated,
+        skippedVersions: update.skippedVersions,
+        heldBackVersions: update.heldBackVersions,
+        releaseDate: update.releaseDate,
+        workspaceName: update.workspaceName,
+        workspacePath: update.workspacePath,
       })),
+      // Packages are not updated to deprecated versions, even if there is nothing else
+      ...(deprecatedUpdatesPackages.length > 0 && { deprecated: deprecatedUpdatesPackages }),
+      ...(minReleaseAge > 0 && { heldBack: this.getHeldBackPackages() }),
     };
 
     // Output the JSON string to the terminal
@@ -173,6 +460,57 @@ class UpdateService extends Service {
     this.ctx.outputService.msg(JSON.stringify(jsonOutput, null, 2), true);
   }
 
+  /**
+   * Prepares the update of a package at an update level
+   * @param pkg The package
+   * @param level The update level
+   * @returns The update, or undefined if the package has no update at that level
+   */
+  private prepareUpdate(
+    pkg: PackageInfoService,
+    level: UpdateLevel
+  ): PackageUpdateInfo | undefined {
+    const packageInfo = pkg.getInfo();
+
+    const { packageName, dependencyType, versionRequired, versionInstalled, workspaceName } =
+      packageInfo;
+
+    // Determine the target version based on update level, passing over deprecated and too recent versions
+    const {
+      version: targetVersion,
+      skippedVersions,
+      heldBackVersions,
+    } = pkg.getUpdateTarget(level);
+
+    if (!targetVersion) {
+      return undefined;
+    }
+
+    // Rewrite the range so it includes the target version, e.g. >=4.17.21 <5.0.0 becomes >=5.1.0 <6.0.0
+    const newVersion = rewriteRange(versionRequired, targetVersion, this.rangeStyle);
+
+    // Skip ranges that already allow the target version in their form, e.g. 5.x, or can't be rewritten
+    if (newVersion === versionRequired) {
+      return undefined;
+    }
+
+    return {
+      packageName,
+      dependencyType,
+      currentVersion: versionRequired,
+      newVersion,
+      updateType: getUpdateStatus(versionInstalled?.version ?? '', targetVersion) || 'patch',
+      ...(skippedVersions.length > 0 && { skippedVersions }),
+      ...(heldBackVersions.length > 0 && { heldBackVersions }),
+      releaseDate: pkg.getReleaseDate(targetVersion),
+      ...(workspaceName && { workspaceName, workspacePath: packageInfo.workspacePath }),
+    };
+  }
+
+  private getInstallCommand(): string {
+    return `${this.lockFile.packageManager} install`;
+  }
+
   /**
    * Gets the list of packages that need to be updated based on the specified update level
    */
@@ -189,8 +527,11 @@ class UpdateService extends Service {
         return false;
       }
 
-      // Skip non-npm registry packages (like git, file, etc.)
-      if (!packageSpec.registrySource || !isNpmRegistryUrl(packageSpec.registrySource)) {
+      // Skip packages not from npm or a configured registry (like git, file, etc.)
+      if (
+        !packageSpec.registrySource ||
+        !isNpmRegistryUrl(packageSpec.registrySource, this.ctx.npmConfig)
+      ) {
         return false;
       }
 
@@ -210,18 +551,6 @@ class UpdateService extends Service {
 
     return filteredList;
   }
-
-  /**
-   * Extracts the version prefix from the current version requirement
-   * e.g., "^1.2.3" returns "^", "~2.0.0" returns "~", "3.0.0" returns ""
-   */
-  private getVersionPrefix(versionRequired: string): string {
-    if (versionRequired.startsWith('^') || versionRequired.startsWith('~')) {
-      return versionRequired.charAt(0);
-    }
-
-    return '';
-  }
 }
 
 export default UpdateService;
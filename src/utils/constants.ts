@@ -11,6 +11,8 @@
  * throughout the codebase.
  */
 
+import type { UpdateLevel } from '@/utils/types';
+
 /**
  * Website URL for the current package
  */
@@ -36,12 +38,102 @@ export const THIS_PACKAGE_NAME = '@kinolanka/check-my-deps';
  */
 export const PACKAGE_FILE_NAME = 'package.json';
 
+/**
+ * Name of the package.json field holding check-my-deps settings
+ */
+export const PACKAGE_CONFIG_FIELD = 'check-my-deps';
+
 /**
  * Name of the package lock file
  */
 export const PACKAGE_LOCK_FILE_NAME = 'package-lock.json';
 
+/**
+ * Name of the pnpm lock file
+ */
+export const PNPM_LOCK_FILE_NAME = 'pnpm-lock.yaml';
+
+/**
+ * Name of the pnpm workspace file
+ */
+export const PNPM_WORKSPACE_FILE_NAME = 'pnpm-workspace.yaml';
+
+/**
+ * Name of the yarn lock file
+ */
+export const YARN_LOCK_FILE_NAME = 'yarn.lock';
+
+/**
+ * Name of the bun lock file
+ */
+export const BUN_LOCK_FILE_NAME = 'bun.lock';
+
 /**
  * Host of the npm registry
  */
 export const NPM_REGISTRY_HOST = 'registry.npmjs.org';
+
+/**
+ * Host of the yarn registry, a mirror of the npm registry used by Yarn classic
+ */
+export const YARN_REGISTRY_HOST = 'registry.yarnpkg.com';
+
+/**
+ * Default npm registry URL, used when no registry is configured in .npmrc
+ */
+export const NPM_REGISTRY_URL = `https://${NPM_REGISTRY_HOST}/`;
+
+/**
+ * Name of the npm configuration file
+ */
+export const NPMRC_FILE_NAME = '.npmrc';
+
+/**
+ * Name of the directory used for the registry metadata cache inside the user cache directory
+ */
+export const CACHE_DIR_NAME = 'check-my-deps';
+
+/**
+ * Name of the directory used for data that must survive cache cleanups inside the user data directory
+ */
+export const DATA_DIR_NAME = 'check-my-deps';
+
+/**
+ * Name of the directory inside the user data directory where backups of update runs are saved
+ */
+export const HISTORY_DIR_NAME = 'history';
+
+/**
+ * Default dist-tag whose version is used as the latest version
+ */
+export const DEFAULT_DIST_TAG = 'latest';
+
+/**
+ * Default time in minutes that cached registry metadata is used without revalidation
+ */
+export const DEFAULT_CACHE_TTL = 60;
+
+/**
+ * Default number of times a failed registry request is retried
+ */
+export const DEFAULT_REQUEST_RETRIES = 3;
+
+/**
+ * Default time in milliseconds a registry request may stay idle before it is aborted
+ */
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Update levels from the least to the most aggressive
+ */
+export const UPDATE_LEVELS: UpdateLevel[] = ['patch', 'minor', 'latest'];
+
+/**
+ * Fields of package.json that list dependencies
+ */
+export const DEPENDENCY_TYPES = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
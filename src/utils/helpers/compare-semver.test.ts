@@ -0,0 +1,36 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import type { SemVer } from '@/utils/types';
+
+const semver = (version: string) => parseSemver(version) as SemVer;
+
+describe('compareSemver', () => {
+  it('should compare major, minor and patch numbers numerically', () => {
+    expect(compareSemver(semver('1.10.0'), semver('1.9.0'))).toBe(1);
+
+    expect(compareSemver(semver('1.2.3'), semver('2.0.0'))).toBe(-1);
+
+    expect(compareSemver(semver('1.2.3'), semver('1.2.3'))).toBe(0);
+  });
+
+  it('should follow the precedence rules of prerelease versions', () => {
+    const ordered = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+    ];
+
+    const shuffled = [...ordered].reverse();
+
+    expect(shuffled.sort((a, b) => compareSemver(semver(a), semver(b)))).toEqual(ordered);
+  });
+
+  it('should ignore build metadata', () => {
+    expect(compareSemver(semver('1.0.0+build.1'), semver('1.0.0+build.2'))).toBe(0);
+  });
+});
@@ -0,0 +1,54 @@
+import type { SemVer } from '@/utils/types';
+
+/**
+ * Compares the prerelease identifiers of two versions with the same major, minor and patch numbers
+ */
+const comparePrerelease = (a: SemVer['prerelease'], b: SemVer['prerelease']): number => {
+  // A version without prerelease identifiers has a higher precedence, e.g. 1.0.0 > 1.0.0-rc.1
+  if (!a.length || !b.length) {
+    return Math.sign(b.length - a.length);
+  }
+
+  for (let index = 0; index < Math.max(a.length, b.length); index++) {
+    const identifierA = a[index];
+
+    const identifierB = b[index];
+
+    // A larger set of identifiers has a higher precedence if all preceding ones are equal
+    if (identifierA === undefined || identifierB === undefined) {
+      return identifierA === undefined ? -1 : 1;
+    }
+
+    if (identifierA === identifierB) {
+      continue;
+    }
+
+    // Numeric identifiers have a lower precedence than alphanumeric ones
+    if (typeof identifierA !== typeof identifierB) {
+      return typeof identifierA === 'number' ? -1 : 1;
+    }
+
+    return identifierA < identifierB ? -1 : 1;
+  }
+
+  return 0;
+};
+
+/**
+ * Compares two semantic versions following the precedence rules of the Semantic Versioning
+ * specification. Build metadata is ignored.
+ *
+ * @param {SemVer} a - The first version
+ * @param {SemVer} b - The second version
+ * @returns {number} A negative number if a is lower than b, a positive number if it is higher, 0 if both are equal
+ * @example
+ * // Returns -1, prereleases have a lower precedence than the release
+ * compareSemver(parseSemver('1.0.0-rc.1'), parseSemver('1.0.0'))
+ */
+const compareSemver = (a: SemVer, b: SemVer): number =>
+  Math.sign(a.major - b.major) ||
+  Math.sign(a.minor - b.minor) ||
+  Math.sign(a.patch - b.patch) ||
+  comparePrerelease(a.prerelease, b.prerelease);
+
+export default compareSemver;
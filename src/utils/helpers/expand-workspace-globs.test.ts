@@ -0,0 +1,72 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import expandWorkspaceGlobs from '@/utils/helpers/expand-workspace-globs';
+
+describe('expandWorkspaceGlobs', () => {
+  let cwd: string;
+
+  const addPackage = (dir: string) => {
+    fs.mkdirSync(path.join(cwd, dir), { recursive: true });
+
+    fs.writeFileSync(path.join(cwd, dir, 'package.json'), '{}');
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-workspaces-'));
+
+    addPackage('packages/a');
+
+    addPackage('packages/b');
+
+    addPackage('packages/internal');
+
+    addPackage('apps/web');
+
+    addPackage('apps/tools/cli');
+
+    addPackage('apps/node_modules/dep');
+
+    addPackage('workspace-demo');
+
+    // Folders without package.json aren't workspace packages
+    fs.mkdirSync(path.join(cwd, 'packages/empty'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should expand * patterns into folders with a package.json', () => {
+    expect(expandWorkspaceGlobs(cwd, ['packages/*'])).toEqual([
+      'packages/a',
+      'packages/b',
+      'packages/internal',
+    ]);
+  });
+
+  it('should expand literal paths and ignore ./ and trailing slashes', () => {
+    expect(expandWorkspaceGlobs(cwd, ['./workspace-demo/', 'packages/a'])).toEqual([
+      'packages/a',
+      'workspace-demo',
+    ]);
+  });
+
+  it('should expand ** patterns at any depth and skip node_modules', () => {
+    expect(expandWorkspaceGlobs(cwd, ['apps/**'])).toEqual(['apps/tools/cli', 'apps/web']);
+  });
+
+  it('should exclude negated patterns', () => {
+    expect(expandWorkspaceGlobs(cwd, ['packages/*', '!packages/internal'])).toEqual([
+      'packages/a',
+      'packages/b',
+    ]);
+  });
+
+  it('should return an empty list without patterns or matches', () => {
+    expect(expandWorkspaceGlobs(cwd, [])).toEqual([]);
+
+    expect(expandWorkspaceGlobs(cwd, ['missing/*'])).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+
+import { PACKAGE_FILE_NAME } from '@/utils/constants';
+
+// Folders that never contain workspace packages
+const IGNORED_DIRS = ['node_modules'];
+
+// Strips ./ and trailing slashes, so patterns match the relative paths of folders
+const normalizePattern = (pattern: string): string =>
+  path.posix.normalize(pattern.replace(/\\/g, '/')).replace(/^\.\//, '').replace(/\/+$/, '');
+
+/**
+ * Converts a workspace glob into a regular expression matching relative folder paths
+ * - ** matches any number of folders, including none
+ * - * matches any part of a folder name
+ * - ? matches a single character of a folder name
+ */
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+
+    if (char === '*' && pattern[index + 1] === '*') {
+      // packages/**/foo also matches packages/foo
+      if (pattern[index + 2] === '/') {
+        source += '(?:.*/)?';
+
+        index += 2;
+      } else {
+        source += '.*';
+
+        index += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Lists the folders below the project root, up to the given depth, as relative posix paths
+ */
+const listDirs = (cwd: string, maxDepth: number, relativeDir = '', depth = 1): string[] => {
+  if (depth > maxDepth) {
+    return [];
+  }
+
+  let entries: fs.Dirent[];
+
+  try {
+    entries = fs.readdirSync(path.resolve(cwd, relativeDir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const dirs: string[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || IGNORED_DIRS.includes(entry.name)) {
+      continue;
+    }
+
+    const dir = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+    dirs.push(dir, ...listDirs(cwd, maxDepth, dir, depth + 1));
+  }
+
+  return dirs;
+};
+
+/**
+ * Expands the workspace globs of a project into the folders of its workspace packages.
+ *
+ * Supports the patterns npm, Yarn and pnpm accept in their workspace configuration,
+ * e.g. packages/*, apps/** or negated patterns like !packages/internal. Only folders
+ * containing a package.json file are returned, node_modules and hidden folders are skipped.
+ *
+ * @param {string} cwd - The project root the patterns are relative to
+ * @param {string[]} patterns - The workspace globs
+ * @returns {string[]} The sorted relative paths of the workspace packages
+ * @example
+ * // Returns ['packages/a', 'packages/b']
+ * expandWorkspaceGlobs('/project', ['packages/*'])
+ */
+const expandWorkspaceGlobs = (cwd: string, patterns: string[]): string[] => {
+  const includes = patterns.filter((pattern) => !pattern.startsWith('!')).map(normalizePattern);
+
+  const excludes = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => globToRegExp(normalizePattern(pattern.slice(1))));
+
+  if (!includes.length) {
+    return [];
+  }
+
+  // Patterns without ** only need to look as deep as their number of folders
+  const maxDepth = includes.some((pattern) => pattern.includes('**'))
+    ? Infinity
+    : Math.max(...includes.map((pattern) => pattern.split('/').length));
+
+  const includeRegExps = includes.map(globToRegExp);
+
+  return listDirs(cwd, maxDepth)
+    .filter(
+      (dir) =>
+        includeRegExps.some((regExp) => regExp.test(dir)) &&
+        !excludes.some((regExp) => regExp.test(dir)) &&
+        fs.existsSync(path.resolve(cwd, dir, PACKAGE_FILE_NAME))
+    )
+    .sort();
+};
+
+export default expandWorkspaceGlobs;
@@ -0,0 +1,134 @@
+import findDuplicatePackages from '@/utils/helpers/find-duplicate-packages';
+import type { NpmListDepItem } from '@/utils/types';
+
+const createItem = (
+  name: string,
+  version: string,
+  requires?: Record<string, string>,
+  dependencies?: Record<string, NpmListDepItem>
+): NpmListDepItem => ({
+  version,
+  resolved: `https://registry.npmjs.org/${name}/-/${name}-${version}.tgz`,
+  requires,
+  dependencies,
+});
+
+describe('findDuplicatePackages', () => {
+  const ms200 = createItem('ms', '2.0.0');
+
+  const ms213 = createItem('ms', '2.1.3');
+
+  const debug269 = createItem('debug', '2.6.9', { ms: '2.0.0' }, { ms: ms200 });
+
+  const debug437 = createItem('debug', '4.3.7', { ms: '^2.1.3' }, { ms: ms213 });
+
+  const express = createItem(
+    'express',
+    '4.21.2',
+    { debug: '2.6.9' },
+    {
+      debug: debug269,
+    }
+  );
+
+  const duplicates = findDuplicatePackages([
+    {
+      name: 'demo',
+      requires: { express: '^4.21.2', debug: '^4.3.0', ms: '^2.0.0' },
+      dependencies: { express, debug: debug437, ms: ms213 },
+    },
+  ]);
+
+  it('should list packages installed at more than one version', () => {
+    expect(duplicates.map(({ packageName }) => packageName)).toEqual(['debug', 'ms']);
+  });
+
+  it('should list the dependents and required range of each version', () => {
+    expect(duplicates[1].versions).toEqual([
+      { version: '2.0.0', dependents: [{ dependent: 'debug@2.6.9', range: '2.0.0' }] },
+      {
+        version: '2.1.3',
+        dependents: [
+          { dependent: 'debug@4.3.7', range: '^2.1.3' },
+          { dependent: 'demo', range: '^2.0.0' },
+        ],
+      },
+    ]);
+  });
+
+  it('should not find a dedupe version if no installed version satisfies every range', () => {
+    expect(duplicates[0].dedupeVersion).toBe(undefined);
+
+    expect(duplicates[1].dedupeVersion).toBe(undefined);
+  });
+
+  it('should find the highest installed version that satisfies every range', () => {
+    const [duplicate] = findDuplicatePackages([
+      {
+        name: 'demo',
+        requires: { a: '^1.0.0', ms: '^2.1.0' },
+        dependencies: {
+          a: createItem('a', '1.0.0', { ms: '^2.0.0' }, { ms: createItem('ms', '2.0.1') }),
+          ms: createItem('ms', '2.1.3'),
+        },
+      },
+    ]);
+
+    expect(duplicate.dedupeVersion).toBe('2.1.3');
+  });
+
+  it('should identify aliased packages by their registry name and remove alias prefixes', () => {
+    const [duplicate] = findDuplicatePackages([
+      {
+        name: 'demo',
+        requires: { 'ms-alias': 'npm:ms@^2.1.0', ms: '^2.0.0' },
+        dependencies: { 'ms-alias': ms213, ms: createItem('ms', '2.1.2') },
+      },
+    ]);
+
+    expect(duplicate.packageName).toBe('ms');
+
+    expect(duplicate.versions[1].dependents).toEqual([{ dependent: 'demo', range: '^2.1.0' }]);
+
+    expect(duplicate.dedupeVersion).toBe('2.1.3');
+  });
+
+  it('should not find a dedupe version if a required range is unknown', () => {
+    const [duplicate] = findDuplicatePackages([
+      {
+        name: 'demo',
+        requires: { ms: '^2.0.0' },
+        dependencies: {
+          a: createItem('a', '1.0.0', undefined, { ms: createItem('ms', '2.0.1') }),
+          ms: ms213,
+        },
+      },
+    ]);
+
+    expect(duplicate.versions[0].dependents).toEqual([{ dependent: 'a@1.0.0', range: undefined }]);
+
+    expect(duplicate.dedupeVersion).toBe(undefined);
+  });
+
+  it('should combine the dependency trees of workspace packages', () => {
+    const result = findDuplicatePackages([
+      { name: 'demo', requires: { ms: '^2.1.0' }, dependencies: { ms: ms213 } },
+      { name: '@acme/ui', requires: { ms: '2.0.0' }, dependencies: { ms: ms200 } },
+    ]);
+
+    expect(result[0].versions.map(({ dependents }) => dependents[0].dependent)).toEqual([
+      '@acme/ui',
+      'demo',
+    ]);
+  });
+
+  it('should ignore packages without a version and survive cycles', () => {
+    const cyclic = createItem('cyclic', '1.0.0');
+
+    cyclic.dependencies = { cyclic, glob: { version: '', resolved: 'git+https://github.com/a/b' } };
+
+    expect(
+      findDuplicatePackages([{ name: 'demo', requires: {}, dependencies: { cyclic } }])
+    ).toEqual([]);
+  });
+});
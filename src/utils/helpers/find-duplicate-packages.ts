@@ -0,0 +1,117 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import getTarballPackageName from '@/utils/helpers/get-tarball-package-name';
+import parseSemver from '@/utils/helpers/parse-semver';
+import satisfiesRange from '@/utils/helpers/satisfies-range';
+import type {
+  DependencyTreeRoot,
+  DuplicateDependent,
+  DuplicatePackage,
+  NpmListDepItem,
+} from '@/utils/types';
+
+/**
+ * Removes npm alias and protocol prefixes from a range, e.g. npm:ms@^2.1.1 becomes ^2.1.1
+ */
+const normalizeRange = (range: string): string =>
+  range.replace(/^npm:(?:(?:@[^/@]+\/)?[^@]+@)?/, '');
+
+const compareVersions = (a: string, b: string): number => {
+  const semverA = parseSemver(a);
+
+  const semverB = parseSemver(b);
+
+  if (semverA && semverB) {
+    return compareSemver(semverA, semverB);
+  }
+
+  return a.localeCompare(b);
+};
+
+/**
+ * Finds the packages installed at more than one version anywhere in the dependency tree, with the
+ * packages requiring each version and the highest installed version that satisfies every required
+ * range, if any. Packages without a version, e.g. git or local dependencies, are ignored.
+ *
+ * @param {DependencyTreeRoot[]} roots - The project and its workspace packages with their direct dependencies
+ * @returns {DuplicatePackage[]} The duplicated packages sorted by name
+ * @example
+ * // Returns [{ packageName: 'ms', versions: [{ version: '2.0.0', ... }, { version: '2.1.3', ... }], dedupeVersion: undefined }]
+ * findDuplicatePackages([{ name: 'demo', requires: { ms: '^2.1.3' }, dependencies: npmListData.dependencies }])
+ */
+const findDuplicatePackages = (roots: DependencyTreeRoot[]): DuplicatePackage[] => {
+  // Dependents of each installed version, keyed by package name and version
+  const dependentsByPackage: Record<string, Record<string, DuplicateDependent[]>> = {};
+
+  // Shared items are the same object, which also stops the walk at cycles
+  const visitedItems = new Set<NpmListDepItem>();
+
+  const addDependent = (packageName: string, version: string, dependent: DuplicateDependent) => {
+    const dependentsByVersion = (dependentsByPackage[packageName] ??= {});
+
+    const dependents = (dependentsByVersion[version] ??= []);
+
+    const isKnown = dependents.some(
+      (known) => known.dependent === dependent.dependent && known.range === dependent.range
+    );
+
+    if (!isKnown) {
+      dependents.push(dependent);
+    }
+  };
+
+  const walk = (
+    dependencies: Record<string, NpmListDepItem>,
+    dependent: string,
+    requires: Record<string, string> = {}
+  ) => {
+    for (const [name, item] of Object.entries(dependencies)) {
+      // Aliased packages are identified by their name on the registry
+      const packageName = getTarballPackageName(item.resolved) ?? name;
+
+      if (item.version) {
+        addDependent(packageName, item.version, {
+          dependent,
+          range: requires[name] ? normalizeRange(requires[name]) : undefined,
+        });
+      }
+
+      if (visitedItems.has(item)) {
+        continue;
+      }
+
+      visitedItems.add(item);
+
+      walk(
+        item.dependencies ?? {},
+        `${packageName}@${item.version || item.resolved}`,
+        item.requires
+      );
+    }
+  };
+
+  for (const root of roots) {
+    walk(root.dependencies, root.name, root.requires);
+  }
+
+  return Object.entries(dependentsByPackage)
+    .filter(([, dependentsByVersion]) => Object.keys(dependentsByVersion).length > 1)
+    .map(([packageName, dependentsByVersion]) => {
+      const versions = Object.keys(dependentsByVersion)
+        .sort(compareVersions)
+        .map((version) => ({ version, dependents: dependentsByVersion[version] }));
+
+      const ranges = versions.flatMap(({ dependents }) => dependents.map(({ range }) => range));
+
+      // A single version can only replace the others if every dependent's range is known and satisfied
+      const dedupeVersion = ranges.every((range) => range !== undefined)
+        ? [...versions]
+            .reverse()
+            .find(({ version }) => ranges.every((range) => satisfiesRange(version, range)))?.version
+        : undefined;
+
+      return { packageName, versions, dedupeVersion };
+    })
+    .sort((a, b) => a.packageName.localeCompare(b.packageName));
+};
+
+export default findDuplicatePackages;
@@ -0,0 +1,111 @@
+import findUpdateTarget from '@/utils/helpers/find-update-target';
+
+describe('findUpdateTarget', () => {
+  const versions = ['1.0.0', '1.0.1', '1.0.2', '1.1.0', '1.2.0', '2.0.0', '2.1.0', '3.0.0-beta.1'];
+
+  it('should find the highest version within the update level', () => {
+    expect(findUpdateTarget('1.0.0', versions, {}, 'patch').version).toBe('1.0.2');
+
+    expect(findUpdateTarget('1.0.0', versions, {}, 'minor').version).toBe('1.2.0');
+
+    expect(findUpdateTarget('1.0.0', versions, {}, 'latest', '2.1.0').version).toBe('2.1.0');
+  });
+
+  it('should not go beyond the latest version', () => {
+    expect(findUpdateTarget('1.0.0', versions, {}, 'latest', '2.0.0').version).toBe('2.0.0');
+
+    expect(findUpdateTarget('1.0.0', versions, {}, 'latest', '3.0.0-beta.1').version).toBe(
+      '3.0.0-beta.1'
+    );
+  });
+
+  it('should skip deprecated versions and record why', () => {
+    const deprecations = { '2.1.0': 'Critical bug, use 2.0.0', '2.0.0': 'Deprecated' };
+
+    expect(findUpdateTarget('1.0.0', versions, deprecations, 'latest', '2.1.0')).toEqual({
+      version: '1.2.0',
+      skippedVersions: [
+        { version: '2.1.0', reason: 'Critical bug, use 2.0.0' },
+        { version: '2.0.0', reason: 'Deprecated' },
+      ],
+      heldBackVersions: [],
+    });
+  });
+
+  it('should not find a target when every newer version is deprecated', () => {
+    const deprecations = { '1.0.1': 'Broken', '1.0.2': 'Broken build' };
+
+    expect(findUpdateTarget('1.0.0', versions, deprecations, 'patch')).toEqual({
+      skippedVersions: [
+        { version: '1.0.2', reason: 'Broken build' },
+        { version: '1.0.1', reason: 'Broken' },
+      ],
+      heldBackVersions: [],
+    });
+  });
+
+  it('should not find a target without newer versions or a valid installed version', () => {
+    expect(findUpdateTarget('2.1.0', versions, {}, 'latest', '2.1.0')).toEqual({
+      skippedVersions: [],
+      heldBackVersions: [],
+    });
+
+    expect(findUpdateTarget('latest', versions, {}, 'latest', '2.1.0')).toEqual({
+      skippedVersions: [],
+      heldBackVersions: [],
+    });
+  });
+
+  describe('with a minimum release age', () => {
+    const releaseDates = {
+      '1.0.1': '2025-01-01T00:00:00.000Z',
+      '1.0.2': '2025-03-10T00:00:00.000Z',
+      '1.1.0': '2025-02-01T00:00:00.000Z',
+      '1.2.0': '2025-03-14T12:00:00.000Z',
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-03-15T00:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fall back to the newest version that has aged enough', () => {
+      expect(findUpdateTarget('1.0.0', versions, {}, 'minor', undefined, releaseDates, 14)).toEqual(
+        {
+          version: '1.1.0',
+          skippedVersions: [],
+          heldBackVersions: [{ version: '1.2.0', eligibleDate: '2025-03-28T12:00:00.000Z' }],
+        }
+      );
+    });
+
+    it('should hold back versions with an unknown release date', () => {
+      expect(
+        findUpdateTarget('1.0.0', versions, {}, 'latest', '2.1.0', releaseDates, 14)
+          .heldBackVersions
+      ).toEqual([
+        { version: '2.1.0', eligibleDate: undefined },
+        { version: '2.0.0', eligibleDate: undefined },
+        { version: '1.2.0', eligibleDate: '2025-03-28T12:00:00.000Z' },
+      ]);
+    });
+
+    it('should not find a target when no newer version has aged enough', () => {
+      expect(findUpdateTarget('1.0.1', versions, {}, 'patch', undefined, releaseDates, 30)).toEqual(
+        {
+          skippedVersions: [],
+          heldBackVersions: [{ version: '1.0.2', eligibleDate: '2025-04-09T00:00:00.000Z' }],
+        }
+      );
+    });
+
+    it('should ignore release dates without a minimum release age', () => {
+      expect(
+        findUpdateTarget('1.0.0', versions, {}, 'minor', undefined, releaseDates).version
+      ).toBe('1.2.0');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import type {
+  DeprecatedVersion,
+  HeldBackVersion,
+  SemVer,
+  UpdateLevel,
+  UpdateTarget,
+} from '@/utils/types';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Finds the version a package is updated to within an update level, passing over deprecated versions.
+ * Candidates are the stable releases newer than the installed version, with the same major and minor
+ * version for patch updates, the same major version for minor updates, and up to the latest version
+ * for latest updates. The highest candidate that isn't deprecated is chosen. If every candidate is
+ * deprecated, there is no target, and the deprecated versions are returned as the reason.
+ * With a minimum release age, candidates published more recently, or at an unknown date, are held back.
+ *
+ * @param {string} installedVersion - The installed version
+ * @param {string[]} versions - The published versions of the package
+ * @param {Record<string, string>} deprecations - The deprecation messages of deprecated versions
+ * @param {UpdateLevel} level - How far the package may be updated
+ * @param {string} [latestVersion] - The latest version, e.g. the version of the tracked dist-tag
+ * @param {Record<string, string>} [releaseDates] - The release dates of the versions
+ * @param {number} [minReleaseAge] - How many days ago a version must have been published, 0 to allow any version
+ * @returns {UpdateTarget} The version to update to, if any, and the deprecated and too recent versions passed over
+ * @example
+ * // Returns { version: '1.2.0', skippedVersions: [{ version: '1.3.0', reason: 'Use 1.2.0' }], heldBackVersions: [] }
+ * findUpdateTarget('1.0.0', ['1.0.0', '1.2.0', '1.3.0', '2.0.0'], { '1.3.0': 'Use 1.2.0' }, 'minor')
+ *
+ * // Returns { skippedVersions: [{ version: '2.0.0', reason: 'Broken' }], heldBackVersions: [] }
+ * findUpdateTarget('1.3.0', ['1.3.0', '2.0.0'], { '2.0.0': 'Broken' }, 'latest', '2.0.0')
+ *
+ * // On 2025-03-15, returns { version: '1.1.0', skippedVersions: [],
+ * //   heldBackVersions: [{ version: '1.2.0', eligibleDate: '2025-03-24T00:00:00.000Z' }] }
+ * findUpdateTarget('1.0.0', ['1.0.0', '1.1.0', '1.2.0'], {}, 'minor', undefined,
+ *   { '1.1.0': '2025-01-01T00:00:00.000Z', '1.2.0': '2025-03-10T00:00:00.000Z' }, 14)
+ */
+const findUpdateTarget = (
+  installedVersion: string,
+  versions: string[],
+  deprecations: Record<string, string>,
+  level: UpdateLevel,
+  latestVersion?: string,
+  releaseDates: Record<string, string> = {},
+  minReleaseAge = 0
+): UpdateTarget => {
+  const installed = parseSemver(installedVersion);
+
+  const latest = latestVersion ? parseSemver(latestVersion) : undefined;
+
+  if (!installed) {
+    return { skippedVersions: [], heldBackVersions: [] };
+  }
+
+  // Time a version reaches the minimum release age, undefined if its release date isn't known
+  const getEligibleTime = (version: string): number | undefined => {
+    const releaseTime = new Date(releaseDates[version] ?? '').getTime();
+
+    return isNaN(releaseTime) ? undefined : releaseTime + minReleaseAge * DAY_IN_MS;
+  };
+
+  const isWithinLevel = (semver: SemVer): boolean => {
+    switch (level) {
+      case 'patch':
+        return semver.major === installed.major && semver.minor === installed.minor;
+
+      case 'minor':
+        return semver.major === installed.major;
+
+      default:
+        return !latest || compareSemver(semver, latest) <= 0;
+    }
+  };
+
+  // Newer stable releases within the level, highest first. A tagged prerelease counts as a release.
+  const candidates = versions
+    .map((version) => ({ version, semver: parseSemver(version) }))
+    .filter(
+      (candidate): candidate is { version: string; semver: SemVer } =>
+        candidate.semver !== undefined &&
+        (!candidate.semver.prerelease.length || candidate.version === latestVersion) &&
+        compareSemver(candidate.semver, installed) > 0 &&
+        isWithinLevel(candidate.semver)
+    )
+    .sort((a, b) => compareSemver(b.semver, a.semver));
+
+  const skippedVersions: DeprecatedVersion[] = [];
+
+  const heldBackVersions: HeldBackVersion[] = [];
+
+  for (const { version } of candidates) {
+    const eligibleTime = getEligibleTime(version);
+
+    if (minReleaseAge && (eligibleTime === undefined || eligibleTime > Date.now())) {
+      heldBackVersions.push({
+        version,
+        eligibleDate: eligibleTime === undefined ? undefined : new Date(eligibleTime).toISOString(),
+      });
+
+      continue;
+    }
+
+    if (deprecations[version] === undefined) {
+      return { version, skippedVersions, heldBackVersions };
+    }
+
+    skippedVersions.push({ version, reason: deprecations[version] });
+  }
+
+  // Deprecated versions are never updated to, even when every newer version is deprecated
+  return { skippedVersions, heldBackVersions };
+};
+
+export default findUpdateTarget;
@@ -0,0 +1,97 @@
+import findUpdateVersions from '@/utils/helpers/find-update-versions';
+
+describe('findUpdateVersions', () => {
+  const versions = [
+    '1.0.0',
+    '1.0.1',
+    '1.0.10',
+    '1.0.2',
+    '1.1.0',
+    '1.10.0',
+    '1.2.0',
+    '2.0.0',
+    '2.1.0',
+    '3.0.0-beta.1',
+  ];
+
+  it('should find the last patch, last minor and latest releases', () => {
+    expect(findUpdateVersions('1.0.1', versions)).toEqual({
+      lastPatch: '1.0.10',
+      lastMinor: '1.10.0',
+      latest: '2.1.0',
+    });
+  });
+
+  it('should compare versions numerically rather than alphabetically', () => {
+    expect(findUpdateVersions('1.0.2', ['1.0.9', '1.0.10', '1.0.3']).lastPatch).toBe('1.0.10');
+  });
+
+  it('should ignore prereleases when looking for updates', () => {
+    expect(findUpdateVersions('2.1.0', versions)).toEqual({
+      lastPatch: undefined,
+      lastMinor: undefined,
+      latest: '2.1.0',
+    });
+  });
+
+  it('should update installed prereleases to their release and later releases', () => {
+    expect(findUpdateVersions('1.0.0-rc.1', versions)).toEqual({
+      lastPatch: '1.0.10',
+      lastMinor: '1.10.0',
+      latest: '2.1.0',
+    });
+
+    expect(findUpdateVersions('1.0.0-rc.1', ['0.9.0', '1.0.0'])).toEqual({
+      lastPatch: '1.0.0',
+      lastMinor: undefined,
+      latest: '1.0.0',
+    });
+  });
+
+  it('should not find updates for prereleases ahead of the latest release', () => {
+    expect(findUpdateVersions('3.0.0-beta.1', versions)).toEqual({
+      lastPatch: undefined,
+      lastMinor: undefined,
+      latest: '2.1.0',
+    });
+  });
+
+  it('should find updates of 0.x packages', () => {
+    expect(findUpdateVersions('0.2.3', ['0.2.3', '0.2.5', '0.3.0', '0.3.1', '1.0.0'])).toEqual({
+      lastPatch: '0.2.5',
+      lastMinor: '0.3.1',
+      latest: '1.0.0',
+    });
+  });
+
+  it('should keep build metadata and ignore invalid versions', () => {
+    expect(findUpdateVersions('1.0.0', ['1.0.0', '1.0.1+build.7', '1.0.1.2', 'latest'])).toEqual({
+      lastPatch: '1.0.1+build.7',
+      lastMinor: undefined,
+      latest: '1.0.1+build.7',
+    });
+  });
+
+  it('should only find the latest release if the installed version is invalid', () => {
+    expect(findUpdateVersions('1.2.3.4', versions)).toEqual({ latest: '2.1.0' });
+  });
+
+  it('should use the version of the dist-tag as the latest version', () => {
+    // Backport published after 2.1.0 while latest stays on 2.x
+    expect(findUpdateVersions('1.0.1', [...versions, '1.10.2'], '2.1.0')).toEqual({
+      lastPatch: '1.0.10',
+      lastMinor: '1.10.2',
+      latest: '2.1.0',
+    });
+
+    // latest kept on an older line
+    expect(findUpdateVersions('1.0.1', versions, '1.10.0').latest).toBe('1.10.0');
+
+    // next channel pointing to a prerelease
+    expect(findUpdateVersions('2.1.0', versions, '3.0.0-beta.1').latest).toBe('3.0.0-beta.1');
+  });
+
+  it('should fall back to the highest release if the tagged version is not published', () => {
+    expect(findUpdateVersions('1.0.1', versions, '9.9.9').latest).toBe('2.1.0');
+  });
+});
@@ -0,0 +1,71 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import type { SemVer } from '@/utils/types';
+
+type UpdateVersions = {
+  lastPatch?: string;
+  lastMinor?: string;
+  latest?: string;
+};
+
+/**
+ * Finds the versions a package could be updated to among the published versions.
+ * Only stable releases are considered, prereleases and versions that aren't valid
+ * semantic versions (e.g. 1.2.3.4) are ignored. Build metadata is kept in the returned versions.
+ * The latest version is the one a dist-tag points to when given, since maintainers may keep
+ * latest on an older line or publish backports after a new major version.
+ *
+ * @param {string} installedVersion - The installed version, may be a prerelease
+ * @param {string[]} versions - The published versions of the package
+ * @param {string} [taggedVersion] - The version of the tracked dist-tag, e.g. dist-tags.latest
+ * @returns {UpdateVersions} The highest release with the installed major and minor version that is
+ * higher than the installed version, the highest release with the installed major version and a higher
+ * minor version, and the tagged version or highest release overall. Only the latest version is set if the installed
+ * version isn't a valid semantic version.
+ * @example
+ * // Returns { lastPatch: '1.0.1', lastMinor: '1.1.0', latest: '2.0.0' }
+ * findUpdateVersions('1.0.0-rc.1', ['0.9.0', '1.0.0', '1.0.1', '1.1.0', '2.0.0', '2.1.0-beta.1'])
+ *
+ * // Returns { lastPatch: '1.0.1', lastMinor: '1.1.0', latest: '2.1.0-beta.1' }
+ * findUpdateVersions('1.0.0', ['1.0.0', '1.0.1', '1.1.0', '2.0.0', '2.1.0-beta.1'], '2.1.0-beta.1')
+ */
+const findUpdateVersions = (
+  installedVersion: string,
+  versions: string[],
+  taggedVersion?: string
+): UpdateVersions => {
+  // Stable releases, lowest first
+  const releases = versions
+    .map((version) => ({ version, semver: parseSemver(version) }))
+    .filter(
+      (release): release is { version: string; semver: SemVer } =>
+        release.semver !== undefined && !release.semver.prerelease.length
+    )
+    .sort((a, b) => compareSemver(a.semver, b.semver));
+
+  const latest =
+    taggedVersion && versions.includes(taggedVersion)
+      ? taggedVersion
+      : releases[releases.length - 1]?.version;
+
+  const installed = parseSemver(installedVersion);
+
+  if (!installed) {
+    return { latest };
+  }
+
+  // A prerelease is lower than its release, so 1.0.0-rc.1 can be updated to 1.0.0
+  const newerReleases = releases.filter(({ semver }) => compareSemver(semver, installed) > 0);
+
+  const lastPatch = newerReleases
+    .filter(({ semver }) => semver.major === installed.major && semver.minor === installed.minor)
+    .pop()?.version;
+
+  const lastMinor = newerReleases
+    .filter(({ semver }) => semver.major === installed.major && semver.minor > installed.minor)
+    .pop()?.version;
+
+  return { lastPatch, lastMinor, latest };
+};
+
+export default findUpdateVersions;
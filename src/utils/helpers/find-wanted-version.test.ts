@@ -0,0 +1,48 @@
+import findWantedVersion from '@/utils/helpers/find-wanted-version';
+
+describe('findWantedVersion', () => {
+  const versions = [
+    '1.0.0',
+    '1.2.0',
+    '1.10.1',
+    '1.4.2',
+    '2.0.0-rc.1',
+    '2.0.0',
+    '2.1.0',
+    '3.0.0-beta.1',
+  ];
+
+  it('should find the highest version satisfying caret and tilde ranges', () => {
+    expect(findWantedVersion('^1.2.0', versions)).toBe('1.10.1');
+
+    expect(findWantedVersion('~1.4.0', versions)).toBe('1.4.2');
+  });
+
+  it('should support exact versions, X-ranges, hyphen ranges and alternatives', () => {
+    expect(findWantedVersion('1.2.0', versions)).toBe('1.2.0');
+
+    expect(findWantedVersion('2.x', versions)).toBe('2.1.0');
+
+    expect(findWantedVersion('1.0.0 - 1.5.0', versions)).toBe('1.4.2');
+
+    expect(findWantedVersion('~1.2.0 || ^2.0.0', versions)).toBe('2.1.0');
+
+    expect(findWantedVersion('*', versions)).toBe('2.1.0');
+  });
+
+  it('should only want prereleases included by the range', () => {
+    expect(findWantedVersion('>=2.0.0-rc.0 <2.0.0', versions)).toBe('2.0.0-rc.1');
+
+    expect(findWantedVersion('^3.0.0-beta.0', versions)).toBe('3.0.0-beta.1');
+
+    expect(findWantedVersion('>=2.1.0', versions)).toBe('2.1.0');
+  });
+
+  it('should return undefined if no version satisfies the range', () => {
+    expect(findWantedVersion('^4.0.0', versions)).toBe(undefined);
+
+    expect(findWantedVersion('latest', versions)).toBe(undefined);
+
+    expect(findWantedVersion('github:isaacs/node-glob', versions)).toBe(undefined);
+  });
+});
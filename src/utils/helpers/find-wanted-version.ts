@@ -0,0 +1,29 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import satisfiesRange from '@/utils/helpers/satisfies-range';
+import type { SemVer } from '@/utils/types';
+
+/**
+ * Finds the highest published version that satisfies a range, i.e. the version `npm update`
+ * would install without changing package.json. Like npm, prereleases are only wanted if the
+ * range includes a prerelease of the same version.
+ *
+ * @param {string} range - The range from package.json, e.g. ^1.2.0
+ * @param {string[]} versions - The published versions of the package
+ * @returns {string | undefined} The wanted version, or undefined if no version satisfies the range
+ * or the range isn't a semver range, e.g. a git URL or a dist-tag
+ * @example
+ * // Returns '1.4.2'
+ * findWantedVersion('^1.2.0', ['1.1.0', '1.2.0', '1.4.2', '2.0.0'])
+ */
+const findWantedVersion = (range: string, versions: string[]): string | undefined =>
+  versions
+    .map((version) => ({ version, semver: parseSemver(version) }))
+    .filter(
+      (candidate): candidate is { version: string; semver: SemVer } =>
+        candidate.semver !== undefined && satisfiesRange(candidate.version, range)
+    )
+    .sort((a, b) => compareSemver(a.semver, b.semver))
+    .pop()?.version;
+
+export default findWantedVersion;
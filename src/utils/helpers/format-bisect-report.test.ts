@@ -0,0 +1,71 @@
+import formatBisectReport from '@/utils/helpers/format-bisect-report';
+import type { BisectResult, PackageUpdateInfo } from '@/utils/types';
+
+describe('formatBisectReport', () => {
+  const lodash: PackageUpdateInfo = {
+    packageName: 'lodash',
+    dependencyType: 'dependencies',
+    currentVersion: '^4.17.15',
+    newVersion: '^4.18.1',
+    updateType: 'minor',
+  };
+
+  const react: PackageUpdateInfo = {
+    packageName: 'react',
+    dependencyType: 'dependencies',
+    currentVersion: '^17.0.0 || ^18.0.0',
+    newVersion: '^17.0.0 || ^18.0.0 || ^19.0.0',
+    updateType: 'major',
+    workspaceName: 'web',
+  };
+
+  const result: BisectResult = {
+    timestamp: '2025-03-15T00:00:00.000Z',
+    verifyCommand: 'npm test',
+    trials: 3,
+    applied: [lodash],
+    rolledBack: false,
+    failing: [
+      {
+        update: react,
+        step: 'Verification',
+        exitCode: 1,
+        outputTail: ['FAIL src/app.test.tsx', 'Tests: 1 failed, 10 passed'],
+      },
+    ],
+  };
+
+  it('should list the applied updates in a table', () => {
+    const report = formatBisectReport(result, 'demo');
+
+    expect(report).toContain('# Bisect Report: demo');
+
+    expect(report).toContain('- Verification command: `npm test`');
+
+    expect(report).toContain('| lodash | dependencies | ^4.17.15 | ^4.18.1 | minor |');
+  });
+
+  it('should list the failing updates with the tail of the output', () => {
+    const report = formatBisectReport(result, 'demo');
+
+    expect(report).toContain(
+      '### react (web): ^17.0.0 || ^18.0.0 → ^17.0.0 || ^18.0.0 || ^19.0.0\n\nVerification failed with exit code 1.\n\n```\nFAIL src/app.test.tsx\nTests: 1 failed, 10 passed\n```'
+    );
+  });
+
+  it('should escape pipes in table cells', () => {
+    const report = formatBisectReport({ ...result, applied: [react], failing: [] }, 'demo');
+
+    expect(report).toContain('| react (web) | dependencies | ^17.0.0 \\|\\| ^18.0.0 |');
+
+    expect(report).toContain('Every update passed verification.');
+  });
+
+  it('should note when the applied updates were rolled back', () => {
+    expect(formatBisectReport(result, 'demo')).not.toContain('rolled back');
+
+    expect(formatBisectReport({ ...result, rolledBack: true }, 'demo')).toContain(
+      '## Applied Updates (1)\n\nThese updates failed when they were verified again after bisecting, so they have been rolled back.'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import type { BisectResult, PackageUpdateInfo } from '@/utils/types';
+
+const formatPackage = ({ packageName, workspaceName }: PackageUpdateInfo): string =>
+  workspaceName ? `${packageName} (${workspaceName})` : packageName;
+
+// Pipes would end table cells early
+const escapeCell = (value: string): string => value.replace(/\|/g, '\\|');
+
+/**
+ * Formats the result of a bisected update as a Markdown report, listing the applied updates
+ * and the updates failing verification with the tail of the failed command output.
+ *
+ * @param {BisectResult} result - The result of the bisected update
+ * @param {string} projectName - The name of the project
+ * @returns {string} The Markdown report
+ * @example
+ * // Returns '# Bisect Report: demo\n\n- Date: 2025-03-15T00:00:00.000Z\n...'
+ * formatBisectReport(result, 'demo')
+ */
+const formatBisectReport = (result: BisectResult, projectName: string): string => {
+  const lines = [
+    `# Bisect Report: ${projectName}`,
+    '',
+    `- Date: ${result.timestamp}`,
+    `- Verification command: \`${result.verifyCommand}\``,
+    `- Trials: ${result.trials}`,
+    '',
+    `## Applied Updates (${result.applied.length})`,
+    '',
+  ];
+
+  if (result.rolledBack) {
+    lines.push(
+      'These updates failed when they were verified again after bisecting, so they have been rolled back.',
+      ''
+    );
+  }
+
+  if (result.applied.length) {
+    lines.push(
+      '| Package | Dependency Type | Current Version | New Version | Update Type |',
+      '| --- | --- | --- | --- | --- |',
+      ...result.applied.map((update) => {
+        const cells = [
+          formatPackage(update),
+          update.dependencyType,
+          update.currentVersion,
+          update.newVersion,
+          update.updateType,
+        ];
+
+        return `| ${cells.map(escapeCell).join(' | ')} |`;
+      }),
+      ''
+    );
+  } else {
+    lines.push('No updates passed verification.', '');
+  }
+
+  lines.push(`## Failing Updates (${result.failing.length})`, '');
+
+  if (!result.failing.length) {
+    lines.push('Every update passed verification.', '');
+  }
+
+  for (const { update, step, exitCode, outputTail } of result.failing) {
+    lines.push(
+      `### ${formatPackage(update)}: ${update.currentVersion} → ${update.newVersion}`,
+      '',
+      `${step} failed with exit code ${exitCode}.`,
+      ''
+    );
+
+    if (outputTail.length) {
+      lines.push('```', ...outputTail, '```', '');
+    }
+  }
+
+  return lines.join('\n');
+};
+
+export default formatBisectReport;
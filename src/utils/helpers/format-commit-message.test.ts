@@ -0,0 +1,44 @@
+import formatCommitMessage from '@/utils/helpers/format-commit-message';
+import type { PackageUpdateInfo } from '@/utils/types';
+
+const axiosUpdate: PackageUpdateInfo = {
+  packageName: 'axios',
+  dependencyType: 'dependencies',
+  currentVersion: '~1.4.0',
+  newVersion: '~1.7.9',
+  updateType: 'minor',
+};
+
+const lodashUpdate: PackageUpdateInfo = {
+  packageName: 'lodash',
+  dependencyType: 'dependencies',
+  currentVersion: '^4.17.15',
+  newVersion: '^4.18.1',
+  updateType: 'minor',
+};
+
+describe('formatCommitMessage', () => {
+  it('should describe a single update in the subject', () => {
+    expect(formatCommitMessage([axiosUpdate], 'minor updates')).toBe(
+      'chore(deps): bump axios from ~1.4.0 to ~1.7.9'
+    );
+  });
+
+  it('should summarize a group of updates and list them in the body', () => {
+    expect(formatCommitMessage([axiosUpdate, lodashUpdate], 'minor updates')).toBe(
+      'chore(deps): bump 2 minor updates\n\n' +
+        '- bump axios from ~1.4.0 to ~1.7.9\n' +
+        '- bump lodash from ^4.17.15 to ^4.18.1'
+    );
+  });
+
+  it('should name the workspace of workspace package updates', () => {
+    expect(
+      formatCommitMessage([{ ...axiosUpdate, workspacePath: 'packages/web' }], 'dependencies')
+    ).toBe('chore(deps): bump axios from ~1.4.0 to ~1.7.9 in packages/web');
+
+    expect(formatCommitMessage([{ ...axiosUpdate, workspacePath: '.' }], 'dependencies')).toBe(
+      'chore(deps): bump axios from ~1.4.0 to ~1.7.9'
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import type { PackageUpdateInfo } from '@/utils/types';
+
+const formatBump = ({
+  packageName,
+  currentVersion,
+  newVersion,
+  workspacePath,
+}: PackageUpdateInfo): string => {
+  // Updates of workspace packages name the workspace, like Dependabot does
+  const location = workspacePath && workspacePath !== '.' ? ` in ${workspacePath}` : '';
+
+  return `bump ${packageName} from ${currentVersion} to ${newVersion}${location}`;
+};
+
+/**
+ * Formats a conventional commit message for a commit of dependency updates. A single update is
+ * described in the subject, a group of updates is summarized in the subject and listed in the body.
+ *
+ * @param {PackageUpdateInfo[]} updates - The updates in the commit
+ * @param {string} groupLabel - What the updates of a group have in common, e.g. 'minor updates' or 'devDependencies'
+ * @returns {string} The commit message
+ * @example
+ * // Returns 'chore(deps): bump axios from ~1.4.0 to ~1.7.9'
+ * formatCommitMessage([{ packageName: 'axios', currentVersion: '~1.4.0', newVersion: '~1.7.9', ... }], 'dependencies')
+ *
+ * // Returns 'chore(deps): bump 2 minor updates\n\n- bump axios from ~1.4.0 to ~1.7.9\n- bump ...'
+ * formatCommitMessage([axiosUpdate, lodashUpdate], 'minor updates')
+ */
+const formatCommitMessage = (updates: PackageUpdateInfo[], groupLabel: string): string => {
+  if (updates.length === 1) {
+    return `chore(deps): ${formatBump(updates[0])}`;
+  }
+
+  const body = updates.map((update) => `- ${formatBump(update)}`).join('\n');
+
+  return `chore(deps): bump ${updates.length} ${groupLabel}\n\n${body}`;
+};
+
+export default formatCommitMessage;
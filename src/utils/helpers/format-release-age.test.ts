@@ -0,0 +1,31 @@
+import formatReleaseAge from '@/utils/helpers/format-release-age';
+
+describe('formatReleaseAge', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-15T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should format ages in days, months and years', () => {
+    expect(formatReleaseAge('2025-03-14T00:00:00.000Z')).toBe('1 day ago');
+
+    expect(formatReleaseAge('2025-03-01T00:00:00.000Z')).toBe('14 days ago');
+
+    expect(formatReleaseAge('2024-10-01T00:00:00.000Z')).toBe('5 months ago');
+
+    expect(formatReleaseAge('2022-01-01T00:00:00.000Z')).toBe('3 years ago');
+  });
+
+  it('should format releases of the same day as today', () => {
+    expect(formatReleaseAge('2025-03-15T08:00:00.000Z')).toBe('today');
+  });
+
+  it('should return an empty string for unknown dates', () => {
+    expect(formatReleaseAge(undefined)).toBe('');
+
+    expect(formatReleaseAge('not a date')).toBe('');
+  });
+});
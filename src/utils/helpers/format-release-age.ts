@@ -0,0 +1,33 @@
+import calculateTimeSinceRelease from '@/utils/helpers/calculate-time-since-release';
+
+/**
+ * Formats how long ago a version was released in the largest fitting unit.
+ *
+ * @param {string | undefined} releaseDate - The release date from the registry's time field
+ * @returns {string} The release age, e.g. "3 days ago", or an empty string if the date is unknown
+ * @example
+ * // Returns '5 months ago' on 2025-03-15
+ * formatReleaseAge('2024-10-01T12:00:00.000Z')
+ */
+const formatReleaseAge = (releaseDate: string | undefined): string => {
+  const days = calculateTimeSinceRelease(releaseDate ?? '', 'days');
+
+  if (days === undefined) {
+    return '';
+  }
+
+  if (days === 0) {
+    return 'today';
+  }
+
+  const months = calculateTimeSinceRelease(releaseDate ?? '', 'months') ?? 0;
+
+  const years = calculateTimeSinceRelease(releaseDate ?? '', 'years') ?? 0;
+
+  const [count, unit] =
+    years > 0 ? [years, 'year'] : months > 0 ? [months, 'month'] : [days, 'day'];
+
+  return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+};
+
+export default formatReleaseAge;
@@ -0,0 +1,25 @@
+import getNerfDart from '@/utils/helpers/get-nerf-dart';
+
+describe('getNerfDart', () => {
+  it('should strip the protocol from a registry URL', () => {
+    expect(getNerfDart('https://registry.npmjs.org/')).toBe('//registry.npmjs.org/');
+  });
+
+  it('should add a trailing slash to the path', () => {
+    expect(getNerfDart('https://npm.acme.dev/api/npm')).toBe('//npm.acme.dev/api/npm/');
+  });
+
+  it('should keep the port', () => {
+    expect(getNerfDart('http://localhost:4873/')).toBe('//localhost:4873/');
+  });
+
+  it('should drop query parameters and hash fragments', () => {
+    expect(getNerfDart('https://npm.acme.dev/lodash?write=true#readme')).toBe(
+      '//npm.acme.dev/lodash/'
+    );
+  });
+
+  it('should return an empty string for an invalid URL', () => {
+    expect(getNerfDart('not-a-url')).toBe('');
+  });
+});
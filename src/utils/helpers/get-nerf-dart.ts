@@ -0,0 +1,24 @@
+/**
+ * Converts a registry URL to the protocol-less form npm uses to scope credentials in .npmrc.
+ *
+ * @param {string} url - The registry URL
+ * @returns {string} The "nerf dart" key prefix, or an empty string if the URL is invalid
+ * @example
+ * // Returns '//npm.acme.dev/api/npm/'
+ * getNerfDart('https://npm.acme.dev/api/npm')
+ */
+const getNerfDart = (url: string): string => {
+  try {
+    const parsedUrl = new URL(url);
+
+    const pathname = parsedUrl.pathname.endsWith('/')
+      ? parsedUrl.pathname
+      : `${parsedUrl.pathname}/`;
+
+    return `//${parsedUrl.host}${pathname}`;
+  } catch {
+    return '';
+  }
+};
+
+export default getNerfDart;
@@ -0,0 +1,15 @@
+import getOutputTail from '@/utils/helpers/get-output-tail';
+
+describe('getOutputTail', () => {
+  it('should return the last lines without trailing empty lines', () => {
+    expect(getOutputTail('one\ntwo\nthree\n\n', 2)).toEqual(['two', 'three']);
+  });
+
+  it('should return every line of short outputs', () => {
+    expect(getOutputTail('one\r\ntwo\r\n')).toEqual(['one', 'two']);
+  });
+
+  it('should return no lines for empty outputs', () => {
+    expect(getOutputTail('\n\n')).toEqual([]);
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Gets the last lines of a command output, which usually explain why the command failed.
+ * Trailing empty lines are left out.
+ *
+ * @param {string} output - The output of the command
+ * @param {number} [lineCount=20] - How many lines to return at most
+ * @returns {string[]} The last lines of the output
+ * @example
+ * // Returns ['Tests: 1 failed, 10 passed']
+ * getOutputTail('PASS a.test.ts\nFAIL b.test.ts\nTests: 1 failed, 10 passed\n\n', 1)
+ */
+const getOutputTail = (output: string, lineCount = 20): string[] => {
+  const lines = output.replace(/\s+$/, '').split(/\r?\n/);
+
+  return lines.length === 1 && !lines[0] ? [] : lines.slice(-lineCount);
+};
+
+export default getOutputTail;
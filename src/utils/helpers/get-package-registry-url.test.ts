@@ -0,0 +1,27 @@
+import { NPM_REGISTRY_URL } from '@/utils/constants';
+import getPackageRegistryUrl from '@/utils/helpers/get-package-registry-url';
+import type { NpmConfig } from '@/utils/types';
+
+describe('getPackageRegistryUrl', () => {
+  const npmConfig: NpmConfig = {
+    registry: 'https://npm.acme.dev/mirror',
+    scopes: { '@acme': 'https://npm.acme.dev/private/' },
+    auth: {},
+  };
+
+  it('should return the public npm registry when no config is provided', () => {
+    expect(getPackageRegistryUrl('lodash')).toBe(NPM_REGISTRY_URL);
+  });
+
+  it('should return the configured default registry for unscoped packages', () => {
+    expect(getPackageRegistryUrl('lodash', npmConfig)).toBe('https://npm.acme.dev/mirror/');
+  });
+
+  it('should return the scope registry for scoped packages with a configured scope', () => {
+    expect(getPackageRegistryUrl('@acme/ui', npmConfig)).toBe('https://npm.acme.dev/private/');
+  });
+
+  it('should return the default registry for scoped packages without a configured scope', () => {
+    expect(getPackageRegistryUrl('@types/node', npmConfig)).toBe('https://npm.acme.dev/mirror/');
+  });
+});
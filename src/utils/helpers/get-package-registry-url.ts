@@ -0,0 +1,29 @@
+import { NPM_REGISTRY_URL } from '@/utils/constants';
+import type { NpmConfig } from '@/utils/types';
+
+/**
+ * Resolves the registry a package should be fetched from.
+ *
+ * Scoped packages use their `@scope:registry` entry when one is configured,
+ * everything else uses the default `registry`.
+ *
+ * @param {string} packageName - The name of the package
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration
+ * @returns {string} The registry URL, always ending with a slash
+ * @example
+ * // Returns 'https://npm.acme.dev/'
+ * getPackageRegistryUrl('@acme/ui', { registry: NPM_REGISTRY_URL, scopes: { '@acme': 'https://npm.acme.dev' }, auth: {} })
+ */
+const getPackageRegistryUrl = (packageName: string, npmConfig?: NpmConfig): string => {
+  let registryUrl = npmConfig?.registry || NPM_REGISTRY_URL;
+
+  if (packageName.startsWith('@') && packageName.includes('/')) {
+    const scope = packageName.split('/')[0];
+
+    registryUrl = npmConfig?.scopes[scope] || registryUrl;
+  }
+
+  return registryUrl.endsWith('/') ? registryUrl : `${registryUrl}/`;
+};
+
+export default getPackageRegistryUrl;
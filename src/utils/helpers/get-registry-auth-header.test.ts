@@ -0,0 +1,63 @@
+import getRegistryAuthHeader from '@/utils/helpers/get-registry-auth-header';
+import type { NpmConfig } from '@/utils/types';
+
+describe('getRegistryAuthHeader', () => {
+  const createConfig = (auth: NpmConfig['auth']): NpmConfig => ({
+    registry: 'https://npm.acme.dev/',
+    scopes: {},
+    auth,
+  });
+
+  it('should return undefined when no config is provided', () => {
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash')).toBeUndefined();
+  });
+
+  it('should return undefined when no credentials match the URL', () => {
+    const npmConfig = createConfig({ '//other.dev/': { token: 'secret' } });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash', npmConfig)).toBeUndefined();
+  });
+
+  it('should return a bearer token header', () => {
+    const npmConfig = createConfig({ '//npm.acme.dev/': { token: 'secret' } });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash', npmConfig)).toBe('Bearer secret');
+  });
+
+  it('should return a basic auth header from _auth', () => {
+    const npmConfig = createConfig({ '//npm.acme.dev/': { auth: 'dXNlcjpwYXNz' } });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash', npmConfig)).toBe(
+      'Basic dXNlcjpwYXNz'
+    );
+  });
+
+  it('should return a basic auth header from username and password', () => {
+    const npmConfig = createConfig({ '//npm.acme.dev/': { username: 'user', password: 'pass' } });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash', npmConfig)).toBe(
+      `Basic ${Buffer.from('user:pass').toString('base64')}`
+    );
+  });
+
+  it('should prefer the most specific matching credentials', () => {
+    const npmConfig = createConfig({
+      '//npm.acme.dev/': { token: 'generic' },
+      '//npm.acme.dev/private/': { token: 'private' },
+    });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/private/@acme%2fui', npmConfig)).toBe(
+      'Bearer private'
+    );
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/public/lodash', npmConfig)).toBe(
+      'Bearer generic'
+    );
+  });
+
+  it('should not match credentials for a different port', () => {
+    const npmConfig = createConfig({ '//npm.acme.dev:8443/': { token: 'secret' } });
+
+    expect(getRegistryAuthHeader('https://npm.acme.dev/lodash', npmConfig)).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import getNerfDart from '@/utils/helpers/get-nerf-dart';
+import type { NpmConfig } from '@/utils/types';
+
+/**
+ * Builds the Authorization header for a registry request from the .npmrc credentials.
+ *
+ * Credentials are matched by the longest configured "nerf dart" prefix of the request URL,
+ * so `//npm.acme.dev/private/:_authToken` wins over `//npm.acme.dev/:_authToken`.
+ * Bearer tokens take precedence over basic auth.
+ *
+ * @param {string} url - The URL of the request
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration
+ * @returns {string | undefined} The header value, or undefined if no credentials match
+ * @example
+ * // Returns 'Bearer secret'
+ * getRegistryAuthHeader('https://npm.acme.dev/@acme%2fui', { registry: 'https://npm.acme.dev/', scopes: {}, auth: { '//npm.acme.dev/': { token: 'secret' } } })
+ */
+const getRegistryAuthHeader = (url: string, npmConfig?: NpmConfig): string | undefined => {
+  if (!npmConfig) {
+    return undefined;
+  }
+
+  const nerfDart = getNerfDart(url);
+
+  if (!nerfDart) {
+    return undefined;
+  }
+
+  // Find the most specific credentials that apply to the request URL
+  const matchingKey = Object.keys(npmConfig.auth)
+    .filter((key) => nerfDart.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!matchingKey) {
+    return undefined;
+  }
+
+  const { token, auth, username, password } = npmConfig.auth[matchingKey];
+
+  if (token) {
+    return `Bearer ${token}`;
+  }
+
+  if (auth) {
+    return `Basic ${auth}`;
+  }
+
+  if (username && password) {
+    return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return undefined;
+};
+
+export default getRegistryAuthHeader;
@@ -0,0 +1,43 @@
+import getRegistryPackageName from '@/utils/helpers/get-registry-package-name';
+
+describe('getRegistryPackageName', () => {
+  it('should return the name of packages that are not aliased', () => {
+    expect(
+      getRegistryPackageName(
+        'react',
+        '^18.2.0',
+        'https://registry.npmjs.org/react/-/react-18.2.0.tgz'
+      )
+    ).toBe('react');
+
+    expect(getRegistryPackageName('react', '^18.2.0')).toBe('react');
+  });
+
+  it('should return the aliased package of direct dependencies from the tarball URL', () => {
+    expect(
+      getRegistryPackageName(
+        'debug',
+        'npm:ms@^2.1.3',
+        'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz'
+      )
+    ).toBe('ms');
+  });
+
+  it('should return the aliased package from the required range without a tarball URL', () => {
+    expect(getRegistryPackageName('debug', 'npm:ms@^2.1.3')).toBe('ms');
+
+    expect(getRegistryPackageName('node-types', 'npm:@types/node@^18.0.0')).toBe('@types/node');
+
+    expect(getRegistryPackageName('latest-ms', 'npm:ms')).toBe('ms');
+  });
+
+  it('should fall back to the installed name for other sources', () => {
+    expect(
+      getRegistryPackageName(
+        'glob',
+        'github:isaacs/node-glob',
+        'git+https://github.com/isaacs/node-glob.git#1a2b3c4'
+      )
+    ).toBe('glob');
+  });
+});
@@ -0,0 +1,33 @@
+import getTarballPackageName from '@/utils/helpers/get-tarball-package-name';
+
+// npm aliases name the package they install, e.g. npm:ms@^2.1.3 or npm:@types/node@^18.0.0
+const ALIAS_PATTERN = /^npm:((?:@[^/@]+\/)?[^@]+)(?:@|$)/;
+
+/**
+ * Returns the name a dependency is published under on the registry.
+ *
+ * Dependencies installed under an alias, e.g. "debug": "npm:ms@^2.1.3", have to be looked up by
+ * the name of the aliased package. The tarball URL from the lockfile is the most reliable source
+ * of it, with the alias in the required range as a fallback.
+ *
+ * @param {string} packageName - The name the dependency is installed under
+ * @param {string} [versionRequired] - The required range, e.g. from package.json
+ * @param {string} [resolved] - The resolved source of the installed package, e.g. its tarball URL
+ * @returns {string} The name of the package on the registry
+ * @example
+ * // Returns 'ms'
+ * getRegistryPackageName('debug', 'npm:ms@^2.1.3')
+ *
+ * // Returns 'react'
+ * getRegistryPackageName('react', '^18.2.0', 'https://registry.npmjs.org/react/-/react-18.2.0.tgz')
+ */
+const getRegistryPackageName = (
+  packageName: string,
+  versionRequired?: string,
+  resolved?: string
+): string =>
+  getTarballPackageName(resolved) ??
+  ALIAS_PATTERN.exec(versionRequired?.trim() ?? '')?.[1] ??
+  packageName;
+
+export default getRegistryPackageName;
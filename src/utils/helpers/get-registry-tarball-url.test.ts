@@ -0,0 +1,32 @@
+import getRegistryTarballUrl from '@/utils/helpers/get-registry-tarball-url';
+import type { NpmConfig } from '@/utils/types';
+
+describe('getRegistryTarballUrl', () => {
+  it('should build the tarball URL on the public npm registry', () => {
+    expect(getRegistryTarballUrl('lodash', '4.17.21')).toBe(
+      'https://registry.npmjs.org/lodash/-/lodash-4.17.21.tgz'
+    );
+  });
+
+  it('should use only the name without the scope for the tarball file', () => {
+    expect(getRegistryTarballUrl('@types/node', '18.19.0')).toBe(
+      'https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz'
+    );
+  });
+
+  it('should use the registry configured for the package', () => {
+    const npmConfig: NpmConfig = {
+      registry: 'https://npm.acme.dev/mirror',
+      scopes: { '@acme': 'https://npm.acme.dev/private/' },
+      auth: {},
+    };
+
+    expect(getRegistryTarballUrl('lodash', '4.17.21', npmConfig)).toBe(
+      'https://npm.acme.dev/mirror/lodash/-/lodash-4.17.21.tgz'
+    );
+
+    expect(getRegistryTarballUrl('@acme/ui', '1.0.0-beta.1', npmConfig)).toBe(
+      'https://npm.acme.dev/private/@acme/ui/-/ui-1.0.0-beta.1.tgz'
+    );
+  });
+});
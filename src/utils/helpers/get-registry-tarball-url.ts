@@ -0,0 +1,28 @@
+import getPackageRegistryUrl from '@/utils/helpers/get-package-registry-url';
+import type { NpmConfig } from '@/utils/types';
+
+/**
+ * Builds the tarball URL of a package version on the registry it is installed from.
+ *
+ * Lockfiles like pnpm-lock.yaml and Yarn Berry's yarn.lock don't store tarball URLs for
+ * registry packages, so the URL npm would have recorded in package-lock.json is rebuilt.
+ *
+ * @param {string} packageName - The name of the package
+ * @param {string} version - The installed version
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration
+ * @returns {string} The tarball URL
+ * @example
+ * // Returns 'https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz'
+ * getRegistryTarballUrl('@types/node', '18.19.0')
+ */
+const getRegistryTarballUrl = (
+  packageName: string,
+  version: string,
+  npmConfig?: NpmConfig
+): string => {
+  const baseName = packageName.split('/').pop() ?? packageName;
+
+  return `${getPackageRegistryUrl(packageName, npmConfig)}${packageName}/-/${baseName}-${version}.tgz`;
+};
+
+export default getRegistryTarballUrl;
@@ -0,0 +1,73 @@
+import getRetryDelay from '@/utils/helpers/get-retry-delay';
+
+describe('getRetryDelay', () => {
+  describe('exponential backoff', () => {
+    it('should double the delay for every attempt', () => {
+      const random = () => 1;
+
+      expect(getRetryDelay(1, undefined, {}, random)).toBe(1000);
+
+      expect(getRetryDelay(2, undefined, {}, random)).toBe(2000);
+
+      expect(getRetryDelay(3, undefined, {}, random)).toBe(4000);
+    });
+
+    it('should cap the delay at the maximum delay', () => {
+      expect(getRetryDelay(10, undefined, { maxDelay: 5000 }, () => 1)).toBe(5000);
+    });
+
+    it('should use the custom minimum delay and factor', () => {
+      expect(getRetryDelay(3, undefined, { minDelay: 100, factor: 3 }, () => 1)).toBe(900);
+    });
+
+    it('should randomize the delay between half and the full backoff', () => {
+      expect(getRetryDelay(2, undefined, {}, () => 0)).toBe(1000);
+
+      expect(getRetryDelay(2, undefined, {}, () => 0.5)).toBe(1500);
+
+      for (let i = 0; i < 20; i++) {
+        const delay = getRetryDelay(2);
+
+        expect(delay).toBeGreaterThanOrEqual(1000);
+
+        expect(delay).toBeLessThanOrEqual(2000);
+      }
+    });
+  });
+
+  describe('Retry-After header', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(new Date('2025-03-15T00:00:00.000Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should honor a Retry-After value in seconds', () => {
+      expect(getRetryDelay(1, '5')).toBe(5000);
+    });
+
+    it('should cap a Retry-After value at the maximum delay', () => {
+      expect(getRetryDelay(1, '120', { maxDelay: 5000 })).toBe(5000);
+    });
+
+    it('should cap a large Retry-After value at the default maximum delay', () => {
+      expect(getRetryDelay(1, '3600')).toBe(30000);
+
+      expect(getRetryDelay(1, 'Sun, 16 Mar 2025 00:00:00 GMT')).toBe(30000);
+    });
+
+    it('should honor a Retry-After HTTP date', () => {
+      expect(getRetryDelay(1, 'Sat, 15 Mar 2025 00:00:10 GMT')).toBe(10000);
+    });
+
+    it('should return 0 for a Retry-After date in the past', () => {
+      expect(getRetryDelay(1, 'Fri, 14 Mar 2025 00:00:00 GMT')).toBe(0);
+    });
+
+    it('should fall back to exponential backoff for an invalid Retry-After value', () => {
+      expect(getRetryDelay(2, 'soon', {}, () => 1)).toBe(2000);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Options for the exponential backoff calculation
+ */
+export type RetryDelayOptions = {
+  // Delay in milliseconds before the first retry (default: 1000)
+  minDelay?: number;
+  // Upper bound in milliseconds for the delay, including Retry-After values (default: 30000)
+  maxDelay?: number;
+  // Multiplier applied for every further attempt (default: 2)
+  factor?: number;
+};
+
+/**
+ * Parses a Retry-After header value, which is either a number of seconds or an HTTP date.
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+const parseRetryAfter = (retryAfter?: string): number | undefined => {
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = new Date(retryAfter);
+
+  if (isNaN(date.getTime())) {
+    return undefined;
+  }
+
+  return Math.max(0, date.getTime() - Date.now());
+};
+
+/**
+ * Calculates how long to wait before retrying a failed request.
+ *
+ * A valid Retry-After header value is honored up to `maxDelay`, so a misbehaving registry
+ * can't stall the run. Otherwise the delay grows exponentially with each attempt, capped at
+ * `maxDelay`, and is randomized between half and the full value (jitter) so concurrent
+ * requests don't retry in lockstep.
+ *
+ * @param {number} attempt - The retry attempt, starting at 1
+ * @param {string} [retryAfter] - The Retry-After header of the failed response
+ * @param {RetryDelayOptions} [options] - The backoff options
+ * @param {() => number} [random] - Random number generator used for the jitter
+ * @returns {number} The delay in milliseconds
+ * @example
+ * // Returns a value between 2000 and 4000
+ * getRetryDelay(3)
+ *
+ * // Returns 5000
+ * getRetryDelay(1, '5')
+ *
+ * // Returns 30000
+ * getRetryDelay(1, '3600')
+ */
+const getRetryDelay = (
+  attempt: number,
+  retryAfter?: string,
+  options: RetryDelayOptions = {},
+  random: () => number = Math.random
+): number => {
+  const { minDelay = 1000, maxDelay = 30000, factor = 2 } = options;
+
+  const retryAfterDelay = parseRetryAfter(retryAfter);
+
+  if (retryAfterDelay !== undefined) {
+    return Math.min(maxDelay, retryAfterDelay);
+  }
+
+  const backoff = Math.min(maxDelay, minDelay * Math.pow(factor, Math.max(0, attempt - 1)));
+
+  return Math.round(backoff / 2 + (backoff / 2) * random());
+};
+
+export default getRetryDelay;
@@ -0,0 +1,59 @@
+import getSelectedUpdates from '@/utils/helpers/get-selected-updates';
+import type { PackageUpdateInfo, UpdateChoice } from '@/utils/types';
+
+const reactMinor: PackageUpdateInfo = {
+  packageName: 'react',
+  dependencyType: 'dependencies',
+  currentVersion: '^18.2.0',
+  newVersion: '^18.3.1',
+  updateType: 'minor',
+};
+
+const reactLatest: PackageUpdateInfo = {
+  ...reactMinor,
+  newVersion: '^19.0.0',
+  updateType: 'major',
+};
+
+const lodashPatch: PackageUpdateInfo = {
+  packageName: 'lodash',
+  dependencyType: 'dependencies',
+  currentVersion: '^4.17.15',
+  newVersion: '^4.17.21',
+  updateType: 'patch',
+};
+
+const react: UpdateChoice = {
+  packageName: 'react',
+  dependencyType: 'dependencies',
+  updateStatus: 'major',
+  updates: { minor: reactMinor, latest: reactLatest },
+  level: 'latest',
+  selected: true,
+};
+
+const lodash: UpdateChoice = {
+  packageName: 'lodash',
+  dependencyType: 'dependencies',
+  updateStatus: 'patch',
+  updates: { patch: lodashPatch, minor: lodashPatch, latest: lodashPatch },
+  level: 'latest',
+  selected: true,
+};
+
+describe('getSelectedUpdates', () => {
+  it('should return the updates of the selected packages at their chosen level', () => {
+    expect(getSelectedUpdates([{ ...react, level: 'minor' }, lodash])).toEqual([
+      reactMinor,
+      lodashPatch,
+    ]);
+  });
+
+  it('should leave out packages that are not selected', () => {
+    expect(getSelectedUpdates([react, { ...lodash, selected: false }])).toEqual([reactLatest]);
+  });
+
+  it('should leave out packages without an update at their chosen level', () => {
+    expect(getSelectedUpdates([{ ...react, level: 'patch' }, lodash])).toEqual([lodashPatch]);
+  });
+});
@@ -0,0 +1,18 @@
+import type { PackageUpdateInfo, UpdateChoice } from '@/utils/types';
+
+/**
+ * Gets the updates of the selected packages at their chosen update level.
+ *
+ * @param {UpdateChoice[]} choices - The updates to choose from
+ * @returns {PackageUpdateInfo[]} The selected updates, in the order of the choices
+ * @example
+ * // Returns the minor update of react
+ * getSelectedUpdates([{ packageName: 'react', level: 'minor', selected: true, ... }])
+ */
+const getSelectedUpdates = (choices: UpdateChoice[]): PackageUpdateInfo[] =>
+  choices
+    .filter((choice) => choice.selected)
+    .map((choice) => choice.updates[choice.level])
+    .filter((update): update is PackageUpdateInfo => update !== undefined);
+
+export default getSelectedUpdates;
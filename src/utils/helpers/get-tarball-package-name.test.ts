@@ -0,0 +1,35 @@
+import getTarballPackageName from '@/utils/helpers/get-tarball-package-name';
+
+describe('getTarballPackageName', () => {
+  it('should return the name of unscoped packages', () => {
+    expect(getTarballPackageName('https://registry.npmjs.org/ms/-/ms-2.1.3.tgz')).toBe('ms');
+  });
+
+  it('should return the name of scoped packages', () => {
+    expect(getTarballPackageName('https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz')).toBe(
+      '@types/node'
+    );
+
+    expect(
+      getTarballPackageName('https://registry.npmjs.org/@types%2fnode/-/node-18.19.0.tgz')
+    ).toBe('@types/node');
+  });
+
+  it('should support registries below a path and hash suffixes', () => {
+    expect(
+      getTarballPackageName(
+        'https://npm.acme.dev/repository/npm/@acme/ui/-/ui-1.0.0.tgz#b460864144ba63f2681096f274c4e57026da2c13'
+      )
+    ).toBe('@acme/ui');
+  });
+
+  it('should return undefined for other sources', () => {
+    expect(getTarballPackageName('git+https://github.com/isaacs/node-glob.git#1a2b3c4')).toBe(
+      undefined
+    );
+
+    expect(getTarballPackageName('file:local-packages/is-odd')).toBe(undefined);
+
+    expect(getTarballPackageName()).toBe(undefined);
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Extracts the package name from a registry tarball URL.
+ *
+ * The name a package is installed under can be an alias, e.g. "debug": "npm:ms@2.1.3",
+ * so the tarball URL is the reliable source of the name of the package on the registry.
+ *
+ * @param {string} [tarballUrl] - The tarball URL, e.g. the `resolved` field of a lockfile entry
+ * @returns {string | undefined} The package name, or undefined if the URL isn't a registry tarball URL
+ * @example
+ * // Returns '@types/node'
+ * getTarballPackageName('https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz')
+ *
+ * // Returns undefined
+ * getTarballPackageName('git+https://github.com/isaacs/node-glob.git#1a2b3c4')
+ */
+const getTarballPackageName = (tarballUrl?: string): string | undefined => {
+  const match = /\/((?:@|%40)[^/]+\/)?([^/]+)\/-\/[^/]+\.tgz(?:[#?].*)?$/i.exec(tarballUrl ?? '');
+
+  if (!match) {
+    return undefined;
+  }
+
+  // Scoped names may be encoded, e.g. @types%2fnode
+  return decodeURIComponent(`${match[1] ?? ''}${match[2]}`);
+};
+
+export default getTarballPackageName;
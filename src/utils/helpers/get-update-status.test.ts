@@ -0,0 +1,46 @@
+import getUpdateStatus from '@/utils/helpers/get-update-status';
+
+describe('getUpdateStatus', () => {
+  it('should classify updates by the left-most part that changes', () => {
+    expect(getUpdateStatus('1.2.3', '1.2.4')).toBe('patch');
+
+    expect(getUpdateStatus('1.2.3', '1.10.0')).toBe('minor');
+
+    expect(getUpdateStatus('1.2.3', '2.0.0')).toBe('major');
+  });
+
+  it('should be up to date when the installed version is the latest version', () => {
+    expect(getUpdateStatus('1.2.3', '1.2.3')).toBe('upToDate');
+
+    // Build metadata doesn't affect precedence
+    expect(getUpdateStatus('1.2.3+build.1', '1.2.3+build.2')).toBe('upToDate');
+  });
+
+  it('should be up to date when an installed prerelease is ahead of the latest release', () => {
+    expect(getUpdateStatus('2.0.0-rc.1', '1.9.0')).toBe('upToDate');
+  });
+
+  it('should classify updates from a prerelease to its release by the part the release bumps', () => {
+    expect(getUpdateStatus('1.0.0-rc.1', '1.0.0')).toBe('major');
+
+    expect(getUpdateStatus('1.2.0-rc.1', '1.2.0')).toBe('minor');
+
+    expect(getUpdateStatus('1.2.3-rc.1', '1.2.3')).toBe('patch');
+
+    expect(getUpdateStatus('1.0.0-rc.1', '1.0.1')).toBe('patch');
+  });
+
+  it('should classify updates of 0.x packages by position', () => {
+    expect(getUpdateStatus('0.2.3', '0.2.5')).toBe('patch');
+
+    expect(getUpdateStatus('0.2.3', '0.3.0')).toBe('minor');
+
+    expect(getUpdateStatus('0.2.3', '1.0.0')).toBe('major');
+  });
+
+  it('should return undefined for invalid versions', () => {
+    expect(getUpdateStatus('1.2.3.4', '1.2.4')).toBe(undefined);
+
+    expect(getUpdateStatus('1.2.3', '')).toBe(undefined);
+  });
+});
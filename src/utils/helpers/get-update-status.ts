@@ -0,0 +1,54 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import type { PackageStatus } from '@/utils/types';
+
+/**
+ * Classifies the update from the installed version to the latest version by the left-most
+ * part that changes. Updating a prerelease to its release, e.g. 1.2.0-rc.1 to 1.2.0, is
+ * classified by the part the release bumps. Versions of 0.x packages are classified the same
+ * way, so 0.2.3 to 0.3.0 is a minor update.
+ *
+ * @param {string} installedVersion - The installed version
+ * @param {string} latestVersion - The latest available version
+ * @returns {PackageStatus | undefined} The update status, 'upToDate' if the installed version is the
+ * latest version or higher, undefined if either version isn't a valid semantic version
+ * @example
+ * // Returns 'minor'
+ * getUpdateStatus('1.2.3', '1.4.0')
+ *
+ * // Returns 'major', 1.0.0 is the first major release
+ * getUpdateStatus('1.0.0-rc.1', '1.0.0')
+ */
+const getUpdateStatus = (
+  installedVersion: string,
+  latestVersion: string
+): PackageStatus | undefined => {
+  const installed = parseSemver(installedVersion);
+
+  const latest = parseSemver(latestVersion);
+
+  if (!installed || !latest) {
+    return undefined;
+  }
+
+  // Installed prereleases of upcoming versions can be ahead of the latest release
+  if (compareSemver(installed, latest) >= 0) {
+    return 'upToDate';
+  }
+
+  if (installed.major !== latest.major) {
+    return 'major';
+  }
+
+  if (installed.minor !== latest.minor) {
+    return 'minor';
+  }
+
+  if (installed.patch !== latest.patch || latest.patch > 0) {
+    return 'patch';
+  }
+
+  return latest.minor > 0 ? 'minor' : 'major';
+};
+
+export default getUpdateStatus;
@@ -0,0 +1,41 @@
+import os from 'os';
+import path from 'path';
+
+import { CACHE_DIR_NAME } from '@/utils/constants';
+import getUserCacheDir from '@/utils/helpers/get-user-cache-dir';
+
+describe('getUserCacheDir', () => {
+  describe('linux', () => {
+    it('should use XDG_CACHE_HOME when set', () => {
+      expect(getUserCacheDir({ XDG_CACHE_HOME: '/xdg/cache' }, 'linux')).toBe(
+        path.join('/xdg/cache', CACHE_DIR_NAME)
+      );
+    });
+
+    it('should fall back to ~/.cache', () => {
+      expect(getUserCacheDir({}, 'linux')).toBe(path.join(os.homedir(), '.cache', CACHE_DIR_NAME));
+    });
+  });
+
+  describe('macOS', () => {
+    it('should use ~/Library/Caches', () => {
+      expect(getUserCacheDir({ XDG_CACHE_HOME: '/xdg/cache' }, 'darwin')).toBe(
+        path.join(os.homedir(), 'Library', 'Caches', CACHE_DIR_NAME)
+      );
+    });
+  });
+
+  describe('windows', () => {
+    it('should use LOCALAPPDATA when set', () => {
+      expect(getUserCacheDir({ LOCALAPPDATA: '/appdata/local' }, 'win32')).toBe(
+        path.join('/appdata/local', CACHE_DIR_NAME)
+      );
+    });
+
+    it('should fall back to AppData/Local in the home directory', () => {
+      expect(getUserCacheDir({}, 'win32')).toBe(
+        path.join(os.homedir(), 'AppData', 'Local', CACHE_DIR_NAME)
+      );
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import os from 'os';
+import path from 'path';
+
+import { CACHE_DIR_NAME } from '@/utils/constants';
+
+/**
+ * Returns the directory used to cache registry metadata, following the platform conventions:
+ * - Linux and other Unix systems: `$XDG_CACHE_HOME/check-my-deps` or `~/.cache/check-my-deps`
+ * - macOS: `~/Library/Caches/check-my-deps`
+ * - Windows: `%LOCALAPPDATA%\check-my-deps`
+ *
+ * @param {Record<string, string | undefined>} [env] - Environment used to locate the cache directory
+ * @param {string} [platform] - The platform to resolve the directory for
+ * @returns {string} The absolute path of the cache directory
+ */
+const getUserCacheDir = (
+  env: typeof process.env = process.env,
+  platform: typeof process.platform = process.platform
+): string => {
+  let baseDir: string;
+
+  if (platform === 'win32') {
+    baseDir = env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local');
+  } else if (platform === 'darwin') {
+    baseDir = path.join(os.homedir(), 'Library', 'Caches');
+  } else {
+    baseDir = env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  }
+
+  return path.join(baseDir, CACHE_DIR_NAME);
+};
+
+export default getUserCacheDir;
@@ -0,0 +1,57 @@
+import os from 'os';
+import path from 'path';
+
+import { DATA_DIR_NAME } from '@/utils/constants';
+import getUserCacheDir from '@/utils/helpers/get-user-cache-dir';
+import getUserDataDir from '@/utils/helpers/get-user-data-dir';
+
+describe('getUserDataDir', () => {
+  describe('linux', () => {
+    it('should use XDG_DATA_HOME when set', () => {
+      expect(getUserDataDir({ XDG_DATA_HOME: '/xdg/data' }, 'linux')).toBe(
+        path.join('/xdg/data', DATA_DIR_NAME)
+      );
+    });
+
+    it('should fall back to ~/.local/share', () => {
+      expect(getUserDataDir({}, 'linux')).toBe(
+        path.join(os.homedir(), '.local', 'share', DATA_DIR_NAME)
+      );
+    });
+  });
+
+  describe('macOS', () => {
+    it('should use ~/Library/Application Support', () => {
+      expect(getUserDataDir({ XDG_DATA_HOME: '/xdg/data' }, 'darwin')).toBe(
+        path.join(os.homedir(), 'Library', 'Application Support', DATA_DIR_NAME)
+      );
+    });
+  });
+
+  describe('windows', () => {
+    it('should use APPDATA when set', () => {
+      expect(getUserDataDir({ APPDATA: '/appdata/roaming' }, 'win32')).toBe(
+        path.join('/appdata/roaming', DATA_DIR_NAME)
+      );
+    });
+
+    it('should fall back to AppData/Roaming in the home directory', () => {
+      expect(getUserDataDir({}, 'win32')).toBe(
+        path.join(os.homedir(), 'AppData', 'Roaming', DATA_DIR_NAME)
+      );
+    });
+  });
+
+  it('should never be inside the cache directory', () => {
+    const platforms: Array<typeof process.platform> = ['linux', 'darwin', 'win32'];
+
+    for (const platform of platforms) {
+      const relativePath = path.relative(
+        getUserCacheDir({}, platform),
+        getUserDataDir({}, platform)
+      );
+
+      expect(relativePath.startsWith('..')).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import os from 'os';
+import path from 'path';
+
+import { DATA_DIR_NAME } from '@/utils/constants';
+
+/**
+ * Returns the directory used to keep data that must survive cache cleanups, like the update history,
+ * following the platform conventions:
+ * - Linux and other Unix systems: `$XDG_DATA_HOME/check-my-deps` or `~/.local/share/check-my-deps`
+ * - macOS: `~/Library/Application Support/check-my-deps`
+ * - Windows: `%APPDATA%\check-my-deps`
+ *
+ * @param {Record<string, string | undefined>} [env] - Environment used to locate the data directory
+ * @param {string} [platform] - The platform to resolve the directory for
+ * @returns {string} The absolute path of the data directory
+ */
+const getUserDataDir = (
+  env: typeof process.env = process.env,
+  platform: typeof process.platform = process.platform
+): string => {
+  let baseDir: string;
+
+  if (platform === 'win32') {
+    baseDir = env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+  } else if (platform === 'darwin') {
+    baseDir = path.join(os.homedir(), 'Library', 'Application Support');
+  } else {
+    baseDir = env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+  }
+
+  return path.join(baseDir, DATA_DIR_NAME);
+};
+
+export default getUserDataDir;
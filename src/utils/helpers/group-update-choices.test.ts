@@ -0,0 +1,81 @@
+import groupUpdateChoices from '@/utils/helpers/group-update-choices';
+import type { PackageStatus, UpdateChoice } from '@/utils/types';
+
+const createChoice = (
+  packageName: string,
+  dependencyType: string,
+  updateStatus?: PackageStatus
+): UpdateChoice => ({
+  packageName,
+  dependencyType,
+  updateStatus,
+  updates: {},
+  level: 'latest',
+  selected: true,
+});
+
+describe('groupUpdateChoices', () => {
+  it('should group updates by dependency type and update status', () => {
+    const react = createChoice('react', 'dependencies', 'major');
+
+    const lodash = createChoice('lodash', 'dependencies', 'patch');
+
+    const jest = createChoice('jest', 'devDependencies', 'major');
+
+    expect(groupUpdateChoices([lodash, jest, react])).toEqual([
+      { label: 'dependencies · major', choices: [react] },
+      { label: 'dependencies · patch', choices: [lodash] },
+      { label: 'devDependencies · major', choices: [jest] },
+    ]);
+  });
+
+  it('should list major, minor and patch updates first and unknown statuses last', () => {
+    const groups = groupUpdateChoices([
+      createChoice('a', 'dependencies'),
+      createChoice('b', 'dependencies', 'patch'),
+      createChoice('c', 'dependencies', 'minor'),
+      createChoice('d', 'dependencies', 'major'),
+    ]);
+
+    expect(groups.map(({ label }) => label)).toEqual([
+      'dependencies · major',
+      'dependencies · minor',
+      'dependencies · patch',
+      'dependencies · unknown',
+    ]);
+  });
+
+  it('should keep dependency types in the order they first appear', () => {
+    const groups = groupUpdateChoices([
+      createChoice('jest', 'devDependencies', 'minor'),
+      createChoice('react', 'dependencies', 'major'),
+      createChoice('eslint', 'devDependencies', 'major'),
+    ]);
+
+    expect(groups.map(({ label }) => label)).toEqual([
+      'devDependencies · major',
+      'devDependencies · minor',
+      'dependencies · major',
+    ]);
+  });
+
+  it('should keep the order of updates within a group', () => {
+    const axios = createChoice('axios', 'dependencies', 'minor');
+
+    const zod = createChoice('zod', 'dependencies', 'minor');
+
+    const choices = [zod, createChoice('react', 'dependencies', 'major'), axios];
+
+    expect(groupUpdateChoices(choices)[1]).toEqual({
+      label: 'dependencies · minor',
+      choices: [zod, axios],
+    });
+
+    // The input is not reordered
+    expect(choices[0]).toBe(zod);
+  });
+
+  it('should return no groups without updates', () => {
+    expect(groupUpdateChoices([])).toEqual([]);
+  });
+});
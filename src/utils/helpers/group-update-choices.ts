@@ -0,0 +1,47 @@
+import type { PackageStatus, UpdateChoice, UpdateChoiceGroup } from '@/utils/types';
+
+// Groups with the most significant updates are listed first, unknown statuses last
+const STATUS_ORDER: Array<PackageStatus | undefined> = [
+  'major',
+  'minor',
+  'patch',
+  'upToDate',
+  undefined,
+];
+
+/**
+ * Groups updates by dependency type and update status. Dependency types keep the order they first
+ * appear in, the update statuses of each type are ordered from major to patch, and updates keep
+ * their order within their group.
+ *
+ * @param {UpdateChoice[]} choices - The updates to group
+ * @returns {UpdateChoiceGroup[]} The groups in the order they are listed
+ * @example
+ * // Returns [{ label: 'dependencies · major', choices: [react] },
+ * //   { label: 'dependencies · patch', choices: [lodash] }]
+ * groupUpdateChoices([lodash, react])
+ */
+const groupUpdateChoices = (choices: UpdateChoice[]): UpdateChoiceGroup[] => {
+  const dependencyTypes = Array.from(new Set(choices.map((choice) => choice.dependencyType)));
+
+  const getGroupOrder = (choice: UpdateChoice) =>
+    dependencyTypes.indexOf(choice.dependencyType) * STATUS_ORDER.length +
+    STATUS_ORDER.indexOf(choice.updateStatus);
+
+  const groups: UpdateChoiceGroup[] = [];
+
+  // Sorting is stable, so updates keep their order within each group
+  for (const choice of [...choices].sort((a, b) => getGroupOrder(a) - getGroupOrder(b))) {
+    const label = `${choice.dependencyType} · ${choice.updateStatus ?? 'unknown'}`;
+
+    if (groups[groups.length - 1]?.label !== label) {
+      groups.push({ label, choices: [] });
+    }
+
+    groups[groups.length - 1].choices.push(choice);
+  }
+
+  return groups;
+};
+
+export default groupUpdateChoices;
@@ -0,0 +1,133 @@
+import handleUpdateChoiceKey from '@/utils/helpers/handle-update-choice-key';
+import type { PackageUpdateInfo, UpdateChoice, UpdateChoiceState } from '@/utils/types';
+
+const createUpdate = (packageName: string, newVersion: string): PackageUpdateInfo => ({
+  packageName,
+  dependencyType: 'dependencies',
+  currentVersion: '^1.0.0',
+  newVersion,
+  updateType: 'patch',
+});
+
+const react: UpdateChoice = {
+  packageName: 'react',
+  dependencyType: 'dependencies',
+  updateStatus: 'major',
+  updates: {
+    patch: createUpdate('react', '^1.0.1'),
+    minor: createUpdate('react', '^1.2.0'),
+    latest: createUpdate('react', '^2.0.0'),
+  },
+  level: 'latest',
+  selected: true,
+};
+
+const lodash: UpdateChoice = {
+  packageName: 'lodash',
+  dependencyType: 'dependencies',
+  updateStatus: 'minor',
+  updates: { minor: createUpdate('lodash', '^1.3.0'), latest: createUpdate('lodash', '^1.3.0') },
+  level: 'latest',
+  selected: true,
+};
+
+const axios: UpdateChoice = { ...lodash, packageName: 'axios', selected: false };
+
+const state: UpdateChoiceState = { choices: [react, lodash, axios], cursor: 0 };
+
+describe('handleUpdateChoiceKey', () => {
+  describe('moving the cursor', () => {
+    it('should move the cursor down and up', () => {
+      expect(handleUpdateChoiceKey(state, 'down').cursor).toBe(1);
+
+      expect(handleUpdateChoiceKey({ ...state, cursor: 2 }, 'up').cursor).toBe(1);
+    });
+
+    it('should wrap around at the ends of the list', () => {
+      expect(handleUpdateChoiceKey(state, 'up').cursor).toBe(2);
+
+      expect(handleUpdateChoiceKey({ ...state, cursor: 2 }, 'down').cursor).toBe(0);
+    });
+
+    it('should move the cursor with vim keys', () => {
+      expect(handleUpdateChoiceKey(state, 'j').cursor).toBe(1);
+
+      expect(handleUpdateChoiceKey({ ...state, cursor: 1 }, 'k').cursor).toBe(0);
+    });
+  });
+
+  describe('selecting updates', () => {
+    it('should toggle the update under the cursor', () => {
+      const toggled = handleUpdateChoiceKey({ ...state, cursor: 1 }, 'space');
+
+      expect(toggled.choices.map(({ selected }) => selected)).toEqual([true, false, false]);
+
+      expect(
+        handleUpdateChoiceKey(toggled, 'space').choices.map(({ selected }) => selected)
+      ).toEqual([true, true, false]);
+    });
+
+    it('should select all updates unless all are selected, then deselect them', () => {
+      const selected = handleUpdateChoiceKey(state, 'a');
+
+      expect(selected.choices.map(({ selected }) => selected)).toEqual([true, true, true]);
+
+      expect(handleUpdateChoiceKey(selected, 'a').choices.map(({ selected }) => selected)).toEqual([
+        false,
+        false,
+        false,
+      ]);
+    });
+  });
+
+  describe('changing the update level', () => {
+    it('should step through the levels with an update', () => {
+      const minor = handleUpdateChoiceKey(state, 'left');
+
+      expect(minor.choices[0].level).toBe('minor');
+
+      expect(handleUpdateChoiceKey(minor, 'left').choices[0].level).toBe('patch');
+
+      expect(handleUpdateChoiceKey(minor, 'right').choices[0].level).toBe('latest');
+    });
+
+    it('should stop at the lowest and highest level with an update', () => {
+      expect(handleUpdateChoiceKey(state, 'right').choices[0].level).toBe('latest');
+
+      // lodash has no patch update
+      const lodashMinor = handleUpdateChoiceKey({ ...state, cursor: 1 }, 'left');
+
+      expect(lodashMinor.choices[1].level).toBe('minor');
+
+      expect(handleUpdateChoiceKey(lodashMinor, 'left').choices[1].level).toBe('minor');
+    });
+
+    it('should select the update when its level is changed', () => {
+      const result = handleUpdateChoiceKey({ ...state, cursor: 2 }, 'left');
+
+      expect(result.choices[2]).toEqual({ ...axios, level: 'minor', selected: true });
+    });
+  });
+
+  it('should not change the original choices', () => {
+    handleUpdateChoiceKey(state, 'a');
+
+    handleUpdateChoiceKey(state, 'left');
+
+    expect(state.choices).toEqual([react, lodash, axios]);
+
+    expect(axios.selected).toBe(false);
+
+    expect(react.level).toBe('latest');
+  });
+
+  it('should return the same state for other keys or without updates', () => {
+    expect(handleUpdateChoiceKey(state, 'x')).toBe(state);
+
+    expect(handleUpdateChoiceKey(state, undefined)).toBe(state);
+
+    const empty = { choices: [], cursor: 0 };
+
+    expect(handleUpdateChoiceKey(empty, 'down')).toBe(empty);
+  });
+});
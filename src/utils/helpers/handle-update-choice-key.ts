@@ -0,0 +1,75 @@
+import { UPDATE_LEVELS } from '@/utils/constants';
+import type { UpdateChoice, UpdateChoiceState, UpdateLevel } from '@/utils/types';
+
+// Vim keys move the cursor too
+const KEY_ALIASES: Record<string, string> = { k: 'up', j: 'down' };
+
+/**
+ * Gets the closest update level with an update in a direction, or the current level if there is none
+ */
+const getNextLevel = (choice: UpdateChoice, direction: 1 | -1): UpdateLevel => {
+  const levels = UPDATE_LEVELS.filter((level) => choice.updates[level]);
+
+  const index = levels.indexOf(choice.level) + direction;
+
+  return levels[Math.min(Math.max(index, 0), levels.length - 1)] ?? choice.level;
+};
+
+/**
+ * Handles a key pressed in the interactive update list: the arrow keys (or j and k) move the
+ * cursor, space toggles the update under the cursor, a toggles all updates, and left and right
+ * change the update level of the package under the cursor, which selects its update.
+ *
+ * @param {UpdateChoiceState} state - The updates and the cursor
+ * @param {string} [keyName] - The name of the pressed key
+ * @returns {UpdateChoiceState} The new state, the same state for keys without an action
+ * @example
+ * // Returns { choices, cursor: 1 }
+ * handleUpdateChoiceKey({ choices, cursor: 0 }, 'down')
+ */
+const handleUpdateChoiceKey = (
+  state: UpdateChoiceState,
+  keyName: string | undefined
+): UpdateChoiceState => {
+  const { choices, cursor } = state;
+
+  const updateCurrent = (changes: Partial<UpdateChoice>): UpdateChoiceState => ({
+    cursor,
+    choices: choices.map((choice, index) =>
+      index === cursor ? { ...choice, ...changes } : choice
+    ),
+  });
+
+  if (!choices.length) {
+    return state;
+  }
+
+  switch (KEY_ALIASES[keyName ?? ''] ?? keyName) {
+    case 'up':
+      return { choices, cursor: (cursor - 1 + choices.length) % choices.length };
+
+    case 'down':
+      return { choices, cursor: (cursor + 1) % choices.length };
+
+    case 'space':
+      return updateCurrent({ selected: !choices[cursor].selected });
+
+    case 'a': {
+      const selectAll = choices.some(({ selected }) => !selected);
+
+      return { cursor, choices: choices.map((choice) => ({ ...choice, selected: selectAll })) };
+    }
+
+    // Choosing a level selects the update
+    case 'left':
+      return updateCurrent({ level: getNextLevel(choices[cursor], -1), selected: true });
+
+    case 'right':
+      return updateCurrent({ level: getNextLevel(choices[cursor], 1), selected: true });
+
+    default:
+      return state;
+  }
+};
+
+export default handleUpdateChoiceKey;
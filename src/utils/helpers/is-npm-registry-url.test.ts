@@ -1,5 +1,6 @@
-import { NPM_REGISTRY_HOST } from '@/utils/constants';
+import { NPM_REGISTRY_HOST, YARN_REGISTRY_HOST } from '@/utils/constants';
 import isNpmRegistryUrl from '@/utils/helpers/is-npm-registry-url';
+import type { NpmConfig } from '@/utils/types';
 
 describe('isNpmRegistryUrl', () => {
   describe('normal cases', () => {
@@ -19,6 +20,14 @@ describe('isNpmRegistryUrl', () => {
       expect(result).toBe(true);
     });
 
+    it('should return true for a Yarn registry tarball URL', () => {
+      const url = `https://${YARN_REGISTRY_HOST}/lodash/-/lodash-4.17.21.tgz#679591c564c3bffaae8454cf0b3df370c3d6911c`;
+
+      const result = isNpmRegistryUrl(url);
+
+      expect(result).toBe(true);
+    });
+
     it('should return false for a non-npm registry URL', () => {
       const url = 'https://www.npmjs.com/package/lodash';
 
@@ -121,4 +130,52 @@ describe('isNpmRegistryUrl', () => {
       expect(result).toBe(true);
     });
   });
+
+  describe('configured registries', () => {
+    const npmConfig: NpmConfig = {
+      registry: 'https://mirror.acme.dev/npm/',
+      scopes: { '@acme': 'http://localhost:4873/' },
+      auth: {},
+    };
+
+    it('should return true for the configured default registry', () => {
+      const url = 'https://mirror.acme.dev/npm/lodash/-/lodash-4.17.21.tgz';
+
+      const result = isNpmRegistryUrl(url, npmConfig);
+
+      expect(result).toBe(true);
+    });
+
+    it('should return true for a configured scope registry', () => {
+      const url = 'http://localhost:4873/@acme/ui/-/ui-1.0.0.tgz';
+
+      const result = isNpmRegistryUrl(url, npmConfig);
+
+      expect(result).toBe(true);
+    });
+
+    it('should still return true for the public npm registry', () => {
+      const url = `https://${NPM_REGISTRY_HOST}/lodash`;
+
+      const result = isNpmRegistryUrl(url, npmConfig);
+
+      expect(result).toBe(true);
+    });
+
+    it('should return false for a registry host that is not configured', () => {
+      const url = 'http://localhost:4874/@acme/ui/-/ui-1.0.0.tgz';
+
+      const result = isNpmRegistryUrl(url, npmConfig);
+
+      expect(result).toBe(false);
+    });
+
+    it('should return false for a configured registry URL without config', () => {
+      const url = 'https://mirror.acme.dev/npm/lodash';
+
+      const result = isNpmRegistryUrl(url);
+
+      expect(result).toBe(false);
+    });
+  });
 });
@@ -1,11 +1,13 @@
 /**
- * Checks if a given string is a URL with the npm registry host.
+ * Checks if a given string is a URL pointing to an npm registry.
  *
  * This function validates whether a string represents a URL that points to the
- * npm registry. It checks both the protocol (https) and the host (registry.npmjs.org).
+ * public npm registry (registry.npmjs.org), its Yarn mirror (registry.yarnpkg.com) or to
+ * any registry configured in .npmrc, either as the default `registry` or as a scoped `@scope:registry`.
  *
  * @param {string} url - The URL string to check
- * @returns {boolean} True if the URL is an npm registry URL, false otherwise
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration with additional registries
+ * @returns {boolean} True if the URL is a registry URL, false otherwise
  * @example
  * // Returns true
  * isNpmRegistryUrl('https://registry.npmjs.org/lodash')
@@ -13,9 +15,18 @@
  * // Returns false
  * isNpmRegistryUrl('https://www.npmjs.com/package/lodash')
  */
-import { NPM_REGISTRY_HOST } from '@/utils/constants';
+import { NPM_REGISTRY_HOST, YARN_REGISTRY_HOST } from '@/utils/constants';
+import type { NpmConfig } from '@/utils/types';
 
-const isNpmRegistryUrl = (url?: string): boolean => {
+const getHost = (url: string): string | undefined => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return undefined;
+  }
+};
+
+const isNpmRegistryUrl = (url?: string, npmConfig?: NpmConfig): boolean => {
   if (!url || typeof url !== 'string') {
     return false;
   }
@@ -23,8 +34,19 @@ const isNpmRegistryUrl = (url?: string): boolean => {
   try {
     const parsedUrl = new URL(url);
 
-    // Check if the host matches the npm registry host
-    return parsedUrl.host === NPM_REGISTRY_HOST;
+    // Check if the host matches the npm registry host or the Yarn mirror of it
+    if (parsedUrl.host === NPM_REGISTRY_HOST || parsedUrl.host === YARN_REGISTRY_HOST) {
+      return true;
+    }
+
+    if (!npmConfig) {
+      return false;
+    }
+
+    // Check if the host matches any of the configured registries
+    const registryHosts = [npmConfig.registry, ...Object.values(npmConfig.scopes)].map(getHost);
+
+    return registryHosts.includes(parsedUrl.host);
   } catch (error) {
     // If URL parsing fails, it's not a valid URL
     return false;
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+
+import { NPM_REGISTRY_URL } from '@/utils/constants';
+import loadNpmConfig from '@/utils/helpers/load-npm-config';
+
+jest.mock('fs');
+
+describe('loadNpmConfig', () => {
+  const cwd = '/project';
+
+  const env = {
+    npm_config_globalconfig: '/global/npmrc',
+    npm_config_userconfig: '/home/user/.npmrc',
+    NPM_TOKEN: 'env-token',
+  };
+
+  const mockFiles = (files: Record<string, string>) => {
+    (fs.readFileSync as jest.Mock).mockImplementation((filePath: string) => {
+      if (filePath in files) {
+        return files[filePath];
+      }
+
+      throw new Error(`ENOENT: no such file or directory, open '${filePath}'`);
+    });
+  };
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should default to the public npm registry when no .npmrc exists', () => {
+    mockFiles({});
+
+    expect(loadNpmConfig(cwd, env)).toEqual({
+      registry: NPM_REGISTRY_URL,
+      scopes: {},
+      auth: {},
+    });
+  });
+
+  it('should read the project, user and global .npmrc files', () => {
+    mockFiles({});
+
+    loadNpmConfig(cwd, env);
+
+    expect(fs.readFileSync).toHaveBeenCalledWith('/global/npmrc', 'utf8');
+
+    expect(fs.readFileSync).toHaveBeenCalledWith('/home/user/.npmrc', 'utf8');
+
+    expect(fs.readFileSync).toHaveBeenCalledWith(path.resolve(cwd, '.npmrc'), 'utf8');
+  });
+
+  it('should give the project config precedence over user and global configs', () => {
+    mockFiles({
+      '/global/npmrc': 'registry=https://global.dev/',
+      '/home/user/.npmrc': 'registry=https://user.dev/\n@acme:registry=https://user.dev/acme/',
+      [path.resolve(cwd, '.npmrc')]: 'registry=https://project.dev/',
+    });
+
+    const npmConfig = loadNpmConfig(cwd, env);
+
+    expect(npmConfig.registry).toBe('https://project.dev/');
+
+    expect(npmConfig.scopes).toEqual({ '@acme': 'https://user.dev/acme/' });
+  });
+
+  it('should resolve credentials per registry', () => {
+    mockFiles({
+      [path.resolve(cwd, '.npmrc')]: [
+        '@acme:registry=https://npm.acme.dev/',
+        '//npm.acme.dev/:_authToken=${NPM_TOKEN}',
+        '//mirror.acme.dev/npm:username=user',
+        `//mirror.acme.dev/npm:_password=${Buffer.from('pass').toString('base64')}`,
+      ].join('\n'),
+    });
+
+    const npmConfig = loadNpmConfig(cwd, env);
+
+    expect(npmConfig.auth).toEqual({
+      '//npm.acme.dev/': { token: 'env-token' },
+      '//mirror.acme.dev/npm/': { username: 'user', password: 'pass' },
+    });
+  });
+
+  it('should apply legacy top-level credentials to the default registry', () => {
+    mockFiles({
+      [path.resolve(cwd, '.npmrc')]: 'registry=https://npm.acme.dev/\n_auth=dXNlcjpwYXNz',
+    });
+
+    expect(loadNpmConfig(cwd, env).auth).toEqual({
+      '//npm.acme.dev/': { auth: 'dXNlcjpwYXNz' },
+    });
+  });
+
+  it('should give registry-scoped credentials precedence over legacy ones', () => {
+    mockFiles({
+      [path.resolve(cwd, '.npmrc')]: [
+        'registry=https://npm.acme.dev/',
+        '_authToken=legacy',
+        '//npm.acme.dev/:_authToken=scoped',
+      ].join('\n'),
+    });
+
+    expect(loadNpmConfig(cwd, env).auth).toEqual({
+      '//npm.acme.dev/': { token: 'scoped' },
+    });
+  });
+});
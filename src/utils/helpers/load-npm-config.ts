@@ -0,0 +1,127 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { NPM_REGISTRY_URL, NPMRC_FILE_NAME } from '@/utils/constants';
+import getNerfDart from '@/utils/helpers/get-nerf-dart';
+import parseNpmrc from '@/utils/helpers/parse-npmrc';
+import type { NpmConfig, NpmRegistryAuth } from '@/utils/types';
+
+/**
+ * Reads an .npmrc file, returning an empty config if it doesn't exist or can't be read
+ */
+const readNpmrc = (filePath: string, env: typeof process.env): Record<string, string> => {
+  try {
+    return parseNpmrc(fs.readFileSync(filePath, 'utf8'), env);
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Returns the .npmrc locations in order of increasing precedence (global, user, project)
+ */
+const getNpmrcPaths = (cwd: string, env: typeof process.env): string[] => {
+  const prefix =
+    env.npm_config_prefix ||
+    env.NPM_CONFIG_PREFIX ||
+    (process.platform === 'win32'
+      ? path.dirname(process.execPath)
+      : path.resolve(process.execPath, '..', '..'));
+
+  const globalConfig =
+    env.npm_config_globalconfig || env.NPM_CONFIG_GLOBALCONFIG || path.join(prefix, 'etc', 'npmrc');
+
+  const userConfig =
+    env.npm_config_userconfig ||
+    env.NPM_CONFIG_USERCONFIG ||
+    path.join(os.homedir(), NPMRC_FILE_NAME);
+
+  const projectConfig = path.resolve(cwd, NPMRC_FILE_NAME);
+
+  return [globalConfig, userConfig, projectConfig];
+};
+
+/**
+ * Maps an .npmrc credential field to the corresponding NpmRegistryAuth property
+ */
+const setAuthField = (auth: NpmRegistryAuth, field: string, value: string): void => {
+  if (field === '_authToken') {
+    auth.token = value;
+  } else if (field === '_auth') {
+    auth.auth = value;
+  } else if (field === 'username') {
+    auth.username = value;
+  } else if (field === '_password') {
+    // npm stores passwords base64 encoded
+    auth.password = Buffer.from(value, 'base64').toString('utf8');
+  }
+};
+
+/**
+ * Loads the npm registry configuration from the global, user and project .npmrc files.
+ *
+ * Later files take precedence, matching npm's own resolution order. The result contains
+ * the default registry, per-scope registries and per-registry credentials keyed by
+ * their "nerf dart" (e.g. `//npm.acme.dev/`).
+ *
+ * @param {string} cwd - The project directory containing the project-level .npmrc
+ * @param {Record<string, string | undefined>} [env] - Environment used to locate config files and expand variables
+ * @returns {NpmConfig} The resolved registry configuration
+ */
+const loadNpmConfig = (cwd: string, env: typeof process.env = process.env): NpmConfig => {
+  const values: Record<string, string> = {};
+
+  for (const npmrcPath of getNpmrcPaths(cwd, env)) {
+    Object.assign(values, readNpmrc(npmrcPath, env));
+  }
+
+  const npmConfig: NpmConfig = {
+    registry: values.registry || NPM_REGISTRY_URL,
+    scopes: {},
+    auth: {},
+  };
+
+  // Legacy top-level credentials apply to the default registry
+  const defaultRegistryKey = getNerfDart(npmConfig.registry);
+
+  for (const field of ['_authToken', '_auth', 'username', '_password']) {
+    if (values[field] && defaultRegistryKey) {
+      npmConfig.auth[defaultRegistryKey] = npmConfig.auth[defaultRegistryKey] || {};
+
+      setAuthField(npmConfig.auth[defaultRegistryKey], field, values[field]);
+    }
+  }
+
+  for (const [key, value] of Object.entries(values)) {
+    // Scoped registries: @scope:registry=https://...
+    const scopeMatch = key.match(/^(@[^:]+):registry$/);
+
+    if (scopeMatch) {
+      npmConfig.scopes[scopeMatch[1]] = value;
+
+      continue;
+    }
+
+    // Registry credentials: //host/path/:_authToken=... (these override legacy ones)
+    if (key.startsWith('//')) {
+      const separatorIndex = key.lastIndexOf(':');
+
+      if (separatorIndex === -1) {
+        continue;
+      }
+
+      const nerfDart = key.slice(0, separatorIndex);
+
+      const registryKey = nerfDart.endsWith('/') ? nerfDart : `${nerfDart}/`;
+
+      npmConfig.auth[registryKey] = npmConfig.auth[registryKey] || {};
+
+      setAuthField(npmConfig.auth[registryKey], key.slice(separatorIndex + 1), value);
+    }
+  }
+
+  return npmConfig;
+};
+
+export default loadNpmConfig;
@@ -0,0 +1,50 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import loadPackageConfig from '@/utils/helpers/load-package-config';
+
+describe('loadPackageConfig', () => {
+  let cwd: string;
+
+  const writePackageJson = (content: unknown) => {
+    fs.writeFileSync(path.join(cwd, 'package.json'), JSON.stringify(content));
+  };
+
+  beforeEach(() => {
+    cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should read the dist-tags of packages', () => {
+    writePackageJson({
+      name: 'demo',
+      'check-my-deps': { distTags: { react: 'next', typescript: 'beta' } },
+    });
+
+    expect(loadPackageConfig(cwd)).toEqual({ distTags: { react: 'next', typescript: 'beta' } });
+  });
+
+  it('should ignore settings of the wrong type', () => {
+    writePackageJson({ 'check-my-deps': { distTags: { react: 1, vue: 'next' } } });
+
+    expect(loadPackageConfig(cwd)).toEqual({ distTags: { vue: 'next' } });
+
+    writePackageJson({ 'check-my-deps': { distTags: ['next'] } });
+
+    expect(loadPackageConfig(cwd)).toEqual({});
+  });
+
+  it('should return an empty config without settings or package.json', () => {
+    writePackageJson({ name: 'demo' });
+
+    expect(loadPackageConfig(cwd)).toEqual({});
+
+    fs.rmSync(path.join(cwd, 'package.json'));
+
+    expect(loadPackageConfig(cwd)).toEqual({});
+  });
+});
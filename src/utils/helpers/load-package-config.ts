@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+
+import { PACKAGE_CONFIG_FIELD, PACKAGE_FILE_NAME } from '@/utils/constants';
+import type { PackageConfig } from '@/utils/types';
+
+/**
+ * Keeps the entries of a settings object whose values are strings
+ */
+const getStringRecord = (value: unknown): Record<string, string> | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  );
+};
+
+/**
+ * Loads the check-my-deps settings from the "check-my-deps" field of the project's package.json.
+ * Missing or unreadable files and settings of the wrong type are ignored.
+ *
+ * @param {string} cwd - The project directory
+ * @returns {PackageConfig} The settings, empty if none are configured
+ * @example
+ * // package.json: { "check-my-deps": { "distTags": { "react": "next" } } }
+ * // Returns { distTags: { react: 'next' } }
+ * loadPackageConfig('/path/to/project')
+ */
+const loadPackageConfig = (cwd: string): PackageConfig => {
+  let packageJson: Record<string, unknown>;
+
+  try {
+    packageJson = JSON.parse(
+      fs.readFileSync(path.resolve(cwd, PACKAGE_FILE_NAME), 'utf8')
+    ) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+
+  const config = packageJson[PACKAGE_CONFIG_FIELD];
+
+  if (!config || typeof config !== 'object') {
+    return {};
+  }
+
+  const distTags = getStringRecord((config as Record<string, unknown>).distTags);
+
+  return distTags ? { distTags } : {};
+};
+
+export default loadPackageConfig;
@@ -1,65 +1,304 @@
+import http from 'http';
 import https from 'https';
 
-import { NPM_REGISTRY_HOST } from '@/utils/constants';
-import type { NpmRegistryPackageData } from '@/utils/types';
+import {
+  DEFAULT_CACHE_TTL,
+  DEFAULT_REQUEST_RETRIES,
+  DEFAULT_REQUEST_TIMEOUT,
+} from '@/utils/constants';
+import getPackageRegistryUrl from '@/utils/helpers/get-package-registry-url';
+import getRegistryAuthHeader from '@/utils/helpers/get-registry-auth-header';
+import getRetryDelay from '@/utils/helpers/get-retry-delay';
+import getUserCacheDir from '@/utils/helpers/get-user-cache-dir';
+import RegistryCache from '@/utils/helpers/registry-cache';
+import type { NpmConfig, NpmRegistryDataMode, NpmRegistryPackageData } from '@/utils/types';
+
+// Prefer the abbreviated install metadata, but accept full documents from registries without support for it
+const ABBREVIATED_ACCEPT_HEADER =
+  'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8, */*';
+
+// Response status codes that indicate a transient registry problem
+const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Information about a registry request that is about to be retried
+ */
+export type NpmRegistryRetryInfo = {
+  packageName: string;
+  attempt: number;
+  retries: number;
+  delay: number;
+  reason: string;
+};
+
+/**
+ * Options that control how the client talks to the registries
+ */
+export type NpmRegistryClientOptions = {
+  npmConfig?: NpmConfig;
+  // Whether registry responses are cached on disk (default: true)
+  cache?: boolean;
+  // Directory of the on-disk cache (default: the user cache directory)
+  cacheDir?: string;
+  // Time in minutes that cached responses are used without revalidation
+  cacheTtl?: number;
+  // Number of times a failed request is retried
+  retries?: number;
+  // Time in milliseconds a request may stay idle before it is aborted
+  timeout?: number;
+  // Called before a failed request is retried
+  onRetry?: (info: NpmRegistryRetryInfo) => void;
+};
+
+type RegistryResponse = {
+  statusCode?: number;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+};
 
 /**
  * A client for interacting with the npm Registry API
  * This provides more efficient access to package data than using the npm CLI
  */
 class NpmRegistryClient {
+  private npmConfig?: NpmConfig;
+
+  private cache: RegistryCache | null = null;
+
+  private cacheTtl = DEFAULT_CACHE_TTL;
+
+  private retries = DEFAULT_REQUEST_RETRIES;
+
+  private timeout = DEFAULT_REQUEST_TIMEOUT;
+
+  private onRetry?: NpmRegistryClientOptions['onRetry'];
+
+  /**
+   * Configures the client, e.g. with the registries and credentials resolved from .npmrc
+   * @param options The client options
+   */
+  public configure(options: NpmRegistryClientOptions): void {
+    this.npmConfig = options.npmConfig;
+
+    this.cache =
+      options.cache === false ? null : new RegistryCache(options.cacheDir || getUserCacheDir());
+
+    this.cacheTtl = options.cacheTtl ?? DEFAULT_CACHE_TTL;
+
+    this.retries = options.retries ?? DEFAULT_REQUEST_RETRIES;
+
+    this.timeout = options.timeout ?? DEFAULT_REQUEST_TIMEOUT;
+
+    this.onRetry = options.onRetry;
+  }
+
   /**
-   * Fetches package data from the npm registry
+   * Fetches package data from the npm registry.
+   *
+   * The abbreviated ("corgi") document is requested when it has everything the caller needs, as it
+   * is a fraction of the size of the full packument. Fields beyond the abbreviated metadata, e.g.
+   * `time` for release dates, are only part of the full document, so it is requested directly then.
+   *
    * @param packageName The name of the package to fetch
+   * @param requiredFields Document fields the caller needs beyond the abbreviated metadata
    * @returns A promise that resolves to the package data
    */
-  public async getPackageData(packageName: string): Promise<NpmRegistryPackageData> {
-    // Fetch from registry if not in cache
-    return await this.fetchFromRegistry(packageName);
+  public async getPackageData(
+    packageName: string,
+    requiredFields: string[] = []
+  ): Promise<NpmRegistryPackageData> {
+    return await this.fetchPackageDocument(
+      packageName,
+      requiredFields.length ? 'full' : 'abbreviated'
+    );
   }
 
   /**
-   * Fetches package data from the npm registry
+   * Removes all cached registry responses
+   * @param cacheDir The cache directory (default: the user cache directory)
+   * @returns The number of removed entries
+   */
+  public cleanCache(cacheDir?: string): number {
+    return new RegistryCache(cacheDir || getUserCacheDir()).clean();
+  }
+
+  /**
+   * Fetches a package document in the given format, using the cache when possible
    * @param packageName The name of the package to fetch
+   * @param mode The document format to request
    * @returns A promise that resolves to the package data
    */
-  private fetchFromRegistry(packageName: string): Promise<NpmRegistryPackageData> {
+  private async fetchPackageDocument(
+    packageName: string,
+    mode: NpmRegistryDataMode
+  ): Promise<NpmRegistryPackageData> {
+    const encodedPackageName = encodeURIComponent(packageName).replace('%40', '@');
+
+    const registryUrl = getPackageRegistryUrl(packageName, this.npmConfig);
+
+    const url = `${registryUrl}${encodedPackageName}`;
+
+    const accept = mode === 'abbreviated' ? ABBREVIATED_ACCEPT_HEADER : 'application/json';
+
+    // Both formats are served from the same URL, so the format is part of the cache key
+    const cacheKey = `${url} ${mode}`;
+
+    const cached = await this.cache?.get<NpmRegistryPackageData>(cacheKey);
+
+    // Use fresh cache entries without contacting the registry
+    if (cached && Date.now() - cached.storedAt < this.cacheTtl * 60 * 1000) {
+      return cached.data;
+    }
+
+    const headers: http.OutgoingHttpHeaders = { Accept: accept };
+
+    const authorization = getRegistryAuthHeader(url, this.npmConfig);
+
+    if (authorization) {
+      headers.Authorization = authorization;
+    }
+
+    // Revalidate stale cache entries with a conditional request
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    const res = await this.fetchWithRetry(packageName, url, headers);
+
+    if (res.statusCode === 304 && cached) {
+      await this.cache?.set(cacheKey, { ...cached, storedAt: Date.now() });
+
+      return cached.data;
+    }
+
+    if (res.statusCode === 200) {
+      let packageData: NpmRegistryPackageData;
+
+      try {
+        packageData = JSON.parse(res.body) as NpmRegistryPackageData;
+      } catch (error) {
+        throw new Error(
+          `Failed to parse response for ${packageName}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      await this.cache?.set(cacheKey, {
+        url,
+        etag: res.headers.etag,
+        lastModified: res.headers['last-modified'],
+        storedAt: Date.now(),
+        data: packageData,
+      });
+
+      return packageData;
+    }
+
+    if (res.statusCode === 404) {
+      throw new Error(`Package ${packageName} not found in registry ${registryUrl}`);
+    }
+
+    if (res.statusCode === 401 || res.statusCode === 403) {
+      throw new Error(
+        `Not authorized to fetch package ${packageName} from ${registryUrl}: ${res.statusCode}`
+      );
+    }
+
+    throw new Error(`Failed to fetch package ${packageName}: ${res.statusCode}`);
+  }
+
+  /**
+   * Sends a registry request, retrying transient failures with exponential backoff.
+   * Retry-After headers of 429 and 503 responses are honored up to the maximum delay.
+   * @param packageName The name of the package being fetched
+   * @param url The URL of the package document
+   * @param headers The request headers
+   * @returns A promise that resolves to the last response
+   */
+  private async fetchWithRetry(
+    packageName: string,
+    url: string,
+    headers: http.OutgoingHttpHeaders
+  ): Promise<RegistryResponse> {
+    for (let attempt = 1; ; attempt++) {
+      let reason: string;
+
+      let retryAfter: string | undefined;
+
+      try {
+        const res = await this.fetchFromRegistry(packageName, url, headers);
+
+        const statusCode = res.statusCode ?? 0;
+
+        if (!RETRYABLE_STATUS_CODES.includes(statusCode) || attempt > this.retries) {
+          return res;
+        }
+
+        reason = `status ${statusCode}`;
+
+        if (statusCode === 429 || statusCode === 503) {
+          retryAfter = res.headers['retry-after'];
+        }
+      } catch (error) {
+        // Network errors (socket resets, DNS failures, timeouts) are always retried
+        if (attempt > this.retries) {
+          throw error;
+        }
+
+        reason = error instanceof Error ? error.message : String(error);
+      }
+
+      const delay = getRetryDelay(attempt, retryAfter);
+
+      this.onRetry?.({ packageName, attempt, retries: this.retries, delay, reason });
+
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Sends a GET request to the registry configured for the package
+   * @param packageName The name of the package being fetched
+   * @param url The URL of the package document
+   * @param headers The request headers
+   * @returns A promise that resolves to the raw response
+   */
+  private fetchFromRegistry(
+    packageName: string,
+    url: string,
+    headers: http.OutgoingHttpHeaders
+  ): Promise<RegistryResponse> {
     return new Promise((resolve, reject) => {
-      const encodedPackageName = encodeURIComponent(packageName).replace('%40', '@');
-
-      const url = `https://${NPM_REGISTRY_HOST}/${encodedPackageName}`;
-
-      https
-        .get(url, (res) => {
-          let data = '';
-
-          res.on('data', (chunk) => {
-            data += chunk;
-          });
-
-          res.on('end', () => {
-            if (res.statusCode === 200) {
-              try {
-                const packageData = JSON.parse(data) as NpmRegistryPackageData;
-
-                resolve(packageData);
-              } catch (error) {
-                reject(
-                  new Error(
-                    `Failed to parse response for ${packageName}: ${error instanceof Error ? error.message : String(error)}`
-                  )
-                );
-              }
-            } else if (res.statusCode === 404) {
-              reject(new Error(`Package ${packageName} not found in npm registry`));
-            } else {
-              reject(new Error(`Failed to fetch package ${packageName}: ${res.statusCode}`));
-            }
-          });
-        })
-        .on('error', (error) => {
-          reject(new Error(`Request error for ${packageName}: ${error.message}`));
+      // Custom registries (e.g. a local Verdaccio) may be served over plain http
+      const client = url.startsWith('http:') ? http : https;
+
+      const req = client.get(url, { headers }, (res) => {
+        let data = '';
+
+        res.on('data', (chunk) => {
+          data += chunk;
+        });
+
+        res.on('end', () => {
+          resolve({ statusCode: res.statusCode, headers: res.headers, body: data });
         });
+
+        res.on('error', (error) => {
+          reject(new Error(`Response error for ${packageName}: ${error.message}`));
+        });
+      });
+
+      // Abort hung sockets instead of waiting forever
+      req.setTimeout(this.timeout, () => {
+        req.destroy(new Error(`Request timed out after ${this.timeout}ms`));
+      });
+
+      req.on('error', (error) => {
+        reject(new Error(`Request error for ${packageName}: ${error.message}`));
+      });
     });
   }
 }
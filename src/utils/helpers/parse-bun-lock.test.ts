@@ -0,0 +1,168 @@
+import parseBunLock from '@/utils/helpers/parse-bun-lock';
+
+describe('parseBunLock', () => {
+  const content = `{
+  "lockfileVersion": 1,
+  "workspaces": {
+    "": {
+      "name": "demo",
+      "dependencies": {
+        "@acme/ui": "workspace:*",
+        "debug": "npm:ms@^2.1.3",
+        "express": "^4.18.2",
+        "glob": "github:isaacs/node-glob#v10.3.3",
+        "is-odd": "file:./local-packages/is-odd",
+      },
+      "devDependencies": {
+        "@types/node": "^18.0.0",
+      },
+      "peerDependencies": {
+        "react": "^18.2.0",
+      },
+    },
+    "packages/ui": {
+      "name": "@acme/ui",
+      "version": "0.1.0",
+      "dependencies": {
+        "react": "^17.0.0",
+      },
+    },
+  },
+  "packages": {
+    "@acme/ui": ["@acme/ui@workspace:packages/ui"],
+
+    "@types/node": ["@types/node@18.19.0", "", {}, "sha512-node"],
+
+    "debug": ["ms@2.1.3", "", {}, "sha512-ms"],
+
+    "express": ["express@4.21.2", "", { "dependencies": { "body-parser": "1.20.3", "debug": "2.6.9" } }, "sha512-express"],
+
+    "body-parser": ["body-parser@1.20.3", "https://npm.acme.dev/body-parser/-/body-parser-1.20.3.tgz", { "dependencies": { "debug": "2.6.9" } }, "sha512-body-parser"],
+
+    "glob": ["glob@github:isaacs/node-glob#1a2b3c4", { "dependencies": { "minimatch": "^9.0.1" } }, "isaacs-node-glob-1a2b3c4"],
+
+    "is-odd": ["is-odd@file:local-packages/is-odd", {}],
+
+    "minimatch": ["minimatch@9.0.3", "", {}, "sha512-minimatch"],
+
+    "react": ["react@18.3.1", "", {}, "sha512-react-18"],
+
+    "@acme/ui/react": ["react@17.0.2", "", {}, "sha512-react-17"],
+
+    "body-parser/debug": ["debug@2.6.9", "", { "dependencies": { "ms": "2.0.0" } }, "sha512-debug"],
+
+    "express/debug": ["debug@2.6.9", "", { "dependencies": { "ms": "2.0.0" } }, "sha512-debug"],
+
+    "express/debug/ms": ["ms@2.0.0", "", {}, "sha512-ms-2.0.0"],
+  }
+}
+`;
+
+  const npmListData = parseBunLock(content);
+
+  it('should read the project name', () => {
+    expect(npmListData.name).toBe('demo');
+  });
+
+  it('should include direct dependencies of all types', () => {
+    expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+      ['@acme/ui', '@types/node', 'debug', 'express', 'glob', 'is-odd', 'react'].sort()
+    );
+  });
+
+  it('should rebuild registry tarball URLs and keep the integrity', () => {
+    expect(npmListData.dependencies.express).toMatchObject({
+      version: '4.21.2',
+      resolved: 'https://registry.npmjs.org/express/-/express-4.21.2.tgz',
+      integrity: 'sha512-express',
+      location: 'express',
+    });
+
+    expect(npmListData.dependencies['@types/node'].resolved).toBe(
+      'https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz'
+    );
+  });
+
+  it('should keep tarball URLs of packages from other registries', () => {
+    expect(npmListData.dependencies.express.dependencies?.['body-parser'].resolved).toBe(
+      'https://npm.acme.dev/body-parser/-/body-parser-1.20.3.tgz'
+    );
+  });
+
+  it('should resolve npm aliases to the aliased package', () => {
+    expect(npmListData.dependencies.debug).toMatchObject({
+      version: '2.1.3',
+      resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+    });
+  });
+
+  it('should resolve github, local and workspace dependencies', () => {
+    expect(npmListData.dependencies.glob).toMatchObject({
+      version: '',
+      resolved: 'git+https://github.com/isaacs/node-glob.git#1a2b3c4',
+    });
+
+    expect(npmListData.dependencies['is-odd']).toMatchObject({
+      version: '',
+      resolved: 'file:local-packages/is-odd',
+    });
+
+    expect(npmListData.dependencies['@acme/ui']).toMatchObject({
+      version: '0.1.0',
+      resolved: 'file:packages/ui',
+    });
+  });
+
+  it('should resolve nested install paths before hoisted ones', () => {
+    const express = npmListData.dependencies.express;
+
+    expect(express.dependencies?.debug.location).toBe('express/debug');
+
+    expect(express.dependencies?.debug.dependencies?.ms.version).toBe('2.0.0');
+
+    // body-parser can't see express' nested debug, so it uses its own copy
+    expect(express.dependencies?.['body-parser'].dependencies?.debug.location).toBe(
+      'body-parser/debug'
+    );
+
+    expect(npmListData.dependencies['@acme/ui'].dependencies?.react.version).toBe('17.0.2');
+
+    expect(npmListData.dependencies.react.version).toBe('18.3.1');
+  });
+
+  it('should list the direct dependencies of each workspace by path', () => {
+    expect(Object.keys(npmListData.workspaces ?? {})).toEqual(['packages/ui']);
+
+    expect(npmListData.workspaces?.['packages/ui'].react.location).toBe('@acme/ui/react');
+  });
+
+  it('should resolve dependencies of non-registry packages', () => {
+    expect(npmListData.dependencies.glob.dependencies?.minimatch.version).toBe('9.0.3');
+
+    expect(npmListData.dependencies.glob.requires).toEqual({ minimatch: '^9.0.1' });
+  });
+
+  it('should use the configured registry for tarball URLs', () => {
+    const npmListDataWithConfig = parseBunLock(content, {
+      registry: 'https://npm.acme.dev/',
+      scopes: {},
+      auth: {},
+    });
+
+    expect(npmListDataWithConfig.dependencies.express.resolved).toBe(
+      'https://npm.acme.dev/express/-/express-4.21.2.tgz'
+    );
+  });
+
+  it('should keep commas inside strings', () => {
+    const npmListDataWithCommas = parseBunLock(`{
+  "lockfileVersion": 1,
+  "workspaces": { "": { "name": "a,]b", "dependencies": { "ms": "^2.1.3", }, }, },
+  "packages": { "ms": ["ms@2.1.3", "", {}, "sha512-ms"], },
+}`);
+
+    expect(npmListDataWithCommas.name).toBe('a,]b');
+
+    expect(npmListDataWithCommas.dependencies.ms.version).toBe('2.1.3');
+  });
+});
@@ -0,0 +1,269 @@
+import path from 'path';
+
+import getRegistryTarballUrl from '@/utils/helpers/get-registry-tarball-url';
+import type {
+  BunLock,
+  BunLockPackage,
+  BunLockPackageInfo,
+  BunLockWorkspace,
+  NpmConfig,
+  NpmListData,
+  NpmListDepItem,
+} from '@/utils/types';
+
+// Id of the workspace that represents the project itself
+const ROOT_WORKSPACE_ID = '';
+
+/**
+ * Removes the trailing commas bun.lock allows after the last item of objects and arrays,
+ * leaving commas inside strings untouched, so the file can be read with JSON.parse
+ */
+const stripTrailingCommas = (content: string): string => {
+  let result = '';
+
+  let inString = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (inString) {
+      result += char;
+
+      if (char === '\\') {
+        result += content[++index] ?? '';
+      } else if (char === '"') {
+        inString = false;
+      }
+
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      let nextIndex = index + 1;
+
+      while (/\s/.test(content[nextIndex] ?? '')) {
+        nextIndex++;
+      }
+
+      if (content[nextIndex] === '}' || content[nextIndex] === ']') {
+        continue;
+      }
+    }
+
+    result += char;
+  }
+
+  return result;
+};
+
+/**
+ * Splits an install path into package names, keeping scoped names together
+ * e.g. @eslint/eslintrc/debug -> ['@eslint/eslintrc', 'debug']
+ */
+const splitInstallPath = (installPath: string): string[] => {
+  const names: string[] = [];
+
+  const segments = installPath ? installPath.split('/') : [];
+
+  for (let index = 0; index < segments.length; index++) {
+    names.push(
+      segments[index].startsWith('@') ? `${segments[index]}/${segments[++index]}` : segments[index]
+    );
+  }
+
+  return names;
+};
+
+/**
+ * Finds the install path of a dependency the way Node.js resolves it, from the most nested folder up
+ */
+const resolveInstallPath = (
+  packages: Record<string, BunLockPackage>,
+  from: string,
+  name: string
+): string | undefined => {
+  const names = splitInstallPath(from);
+
+  for (let depth = names.length; depth >= 0; depth--) {
+    const candidate = [...names.slice(0, depth), name].join('/');
+
+    if (packages[candidate]) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Maps the source of a non-registry package to the source npm would record in `resolved`
+ * - file:, link: and workspace: packages point to the local folder
+ * - github: packages point to the repository and commit
+ * - git and tarball URLs are kept as they are
+ */
+const getSource = (reference: string): string => {
+  const protocol = reference.slice(0, reference.indexOf(':') + 1);
+
+  if (['file:', 'link:', 'workspace:'].includes(protocol)) {
+    return `file:${path.posix.normalize(reference.slice(protocol.length))}`;
+  }
+
+  if (protocol === 'github:') {
+    const [repository, commit = ''] = reference.slice(protocol.length).split('#');
+
+    return `git+https://github.com/${repository}.git#${commit}`;
+  }
+
+  return reference;
+};
+
+/**
+ * Converts a bun.lock file into the structure produced by `npm list --json --package-lock-only`,
+ * so Bun projects are analyzed like npm projects.
+ *
+ * bun.lock is JSON with trailing commas. Its "packages" section is keyed by install path,
+ * e.g. express/debug for the copy of debug nested in express, and dependencies are resolved
+ * from the most nested path up like Node.js does. Workspace packages include their own dependencies.
+ *
+ * @param {string} content - The contents of bun.lock
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration, used to build registry tarball URLs
+ * @returns {NpmListData} The dependency tree with installed versions, sources and integrity hashes
+ */
+const parseBunLock = (content: string, npmConfig?: NpmConfig): NpmListData => {
+  const bunLock = JSON.parse(stripTrailingCommas(content)) as BunLock;
+
+  const packages = bunLock.packages ?? {};
+
+  const workspaces = bunLock.workspaces ?? {};
+
+  const items = new Map<string, NpmListDepItem>();
+
+  const getWorkspaceDependencies = (workspace: BunLockWorkspace): Record<string, string> => ({
+    ...workspace.peerDependencies,
+    ...workspace.optionalDependencies,
+    ...workspace.dependencies,
+    ...workspace.devDependencies,
+  });
+
+  const resolveDependencies = (
+    from: string,
+    deps: Record<string, string>
+  ): Record<string, NpmListDepItem> => {
+    const dependencies: Record<string, NpmListDepItem> = {};
+
+    for (const name of Object.keys(deps)) {
+      const installPath = resolveInstallPath(packages, from, name);
+
+      const item = installPath !== undefined ? getItem(installPath) : undefined;
+
+      if (item) {
+        dependencies[name] = item;
+      }
+    }
+
+    return dependencies;
+  };
+
+  const getItem = (installPath: string): NpmListDepItem | undefined => {
+    const existingItem = items.get(installPath);
+
+    if (existingItem) {
+      return existingItem;
+    }
+
+    const [resolution, ...fields] = packages[installPath];
+
+    const atIndex = resolution.indexOf('@', 1);
+
+    const name = resolution.slice(0, atIndex);
+
+    const reference = resolution.slice(atIndex + 1);
+
+    const item: NpmListDepItem = { version: '', resolved: '', location: installPath };
+
+    let info: BunLockPackageInfo = {};
+
+    // Only registry packages have the registry URL as a string after their resolution
+    if (typeof fields[0] === 'string') {
+      const [registryUrl, registryInfo, integrity] = fields as [string, BunLockPackageInfo, string];
+
+      item.version = reference;
+
+      item.resolved = registryUrl.endsWith('.tgz')
+        ? registryUrl
+        : getRegistryTarballUrl(
+            name,
+            reference,
+            registryUrl ? { registry: registryUrl, scopes: {}, auth: {} } : npmConfig
+          );
+
+      if (integrity) {
+        item.integrity = integrity;
+      }
+
+      info = registryInfo ?? {};
+    } else {
+      item.resolved = getSource(reference);
+
+      info = (fields[0] ?? {}) as BunLockPackageInfo;
+    }
+
+    // Register the item before resolving its dependencies to support cycles
+    items.set(installPath, item);
+
+    // Workspace packages keep their dependencies in the "workspaces" section
+    const workspace = reference.startsWith('workspace:')
+      ? workspaces[reference.slice('workspace:'.length)]
+      : undefined;
+
+    if (workspace?.version) {
+      item.version = workspace.version;
+    }
+
+    const deps = workspace
+      ? getWorkspaceDependencies(workspace)
+      : { ...info.optionalDependencies, ...info.dependencies };
+
+    if (Object.keys(deps).length) {
+      item.requires = deps;
+
+      item.dependencies = resolveDependencies(installPath, deps);
+    }
+
+    return item;
+  };
+
+  const rootWorkspace = workspaces[ROOT_WORKSPACE_ID] ?? {};
+
+  // Workspace packages resolve their nested dependencies from the install path of their own package,
+  // e.g. @acme/ui/react for the copy of react only the @acme/ui workspace uses
+  const workspaceDependencies: Record<string, Record<string, NpmListDepItem>> = {};
+
+  for (const [workspacePath, workspace] of Object.entries(workspaces)) {
+    if (workspacePath === ROOT_WORKSPACE_ID) {
+      continue;
+    }
+
+    const installPath = Object.keys(packages).find(
+      (key) =>
+        splitInstallPath(key).length === 1 &&
+        packages[key][0].endsWith(`@workspace:${workspacePath}`)
+    );
+
+    workspaceDependencies[workspacePath] = resolveDependencies(
+      installPath ?? ROOT_WORKSPACE_ID,
+      getWorkspaceDependencies(workspace)
+    );
+  }
+
+  return {
+    name: rootWorkspace.name ?? '',
+    version: rootWorkspace.version ?? '',
+    dependencies: resolveDependencies(ROOT_WORKSPACE_ID, getWorkspaceDependencies(rootWorkspace)),
+    workspaces: workspaceDependencies,
+  };
+};
+
+export default parseBunLock;
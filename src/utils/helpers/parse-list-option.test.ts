@@ -0,0 +1,18 @@
+import parseListOption from '@/utils/helpers/parse-list-option';
+
+describe('parseListOption', () => {
+  it('should split comma-separated values', () => {
+    expect(parseListOption('dependencies, devDependencies')).toEqual([
+      'dependencies',
+      'devDependencies',
+    ]);
+  });
+
+  it('should collect the values of repeated options', () => {
+    expect(parseListOption('react', ['@types/*'])).toEqual(['@types/*', 'react']);
+  });
+
+  it('should ignore empty values', () => {
+    expect(parseListOption('react,,')).toEqual(['react']);
+  });
+});
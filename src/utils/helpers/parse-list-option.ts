@@ -0,0 +1,20 @@
+/**
+ * Parses a comma-separated CLI option value into a list. Used as the argument parser of
+ * options that can be repeated, so the values of every occurrence are collected.
+ *
+ * @param {string} value - The option value
+ * @param {string[]} [previous] - The values of previous occurrences of the option
+ * @returns {string[]} The values of all occurrences, without empty values
+ * @example
+ * // Returns ['@types/*', 'eslint', 'react']
+ * parseListOption('eslint, react', ['@types/*'])
+ */
+const parseListOption = (value: string, previous: string[] = []): string[] => [
+  ...previous,
+  ...value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean),
+];
+
+export default parseListOption;
@@ -0,0 +1,63 @@
+import parseNpmrc from '@/utils/helpers/parse-npmrc';
+
+describe('parseNpmrc', () => {
+  it('should return an empty object for empty content', () => {
+    expect(parseNpmrc('')).toEqual({});
+  });
+
+  it('should parse key/value pairs', () => {
+    const content = 'registry=https://npm.acme.dev/\n@acme:registry=https://npm.acme.dev/private/';
+
+    expect(parseNpmrc(content)).toEqual({
+      registry: 'https://npm.acme.dev/',
+      '@acme:registry': 'https://npm.acme.dev/private/',
+    });
+  });
+
+  it('should ignore comments, empty lines and section headers', () => {
+    const content = '# comment\n; another comment\n\n[section]\nregistry=https://npm.acme.dev/';
+
+    expect(parseNpmrc(content)).toEqual({ registry: 'https://npm.acme.dev/' });
+  });
+
+  it('should trim whitespace around keys and values and handle CRLF line endings', () => {
+    const content = '  registry = https://npm.acme.dev/  \r\nstrict-ssl = false\r\n';
+
+    expect(parseNpmrc(content)).toEqual({
+      registry: 'https://npm.acme.dev/',
+      'strict-ssl': 'false',
+    });
+  });
+
+  it('should strip surrounding quotes from values', () => {
+    const content = 'a="double quoted"\nb=\'single quoted\'';
+
+    expect(parseNpmrc(content)).toEqual({ a: 'double quoted', b: 'single quoted' });
+  });
+
+  it('should treat keys without a value as true', () => {
+    expect(parseNpmrc('always-auth')).toEqual({ 'always-auth': 'true' });
+  });
+
+  it('should keep everything after the first equals sign in the value', () => {
+    const content = '//npm.acme.dev/:_auth=dXNlcjpwYXNz==';
+
+    expect(parseNpmrc(content)).toEqual({ '//npm.acme.dev/:_auth': 'dXNlcjpwYXNz==' });
+  });
+
+  it('should expand environment variables', () => {
+    const content =
+      '//npm.acme.dev/:_authToken=${NPM_TOKEN}\n${REGISTRY_KEY}=https://npm.acme.dev/';
+
+    const env = { NPM_TOKEN: 'secret', REGISTRY_KEY: 'registry' };
+
+    expect(parseNpmrc(content, env)).toEqual({
+      '//npm.acme.dev/:_authToken': 'secret',
+      registry: 'https://npm.acme.dev/',
+    });
+  });
+
+  it('should replace missing environment variables with an empty string', () => {
+    expect(parseNpmrc('token=${MISSING_TOKEN}', {})).toEqual({ token: '' });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Parses the contents of an .npmrc file into a flat key/value map.
+ *
+ * Supports the subset of the ini format that npm accepts: `#` and `;` comments,
+ * quoted values and `${VAR}` environment variable references in keys and values.
+ * Section headers are ignored, and keys without a value are treated as `true`.
+ *
+ * @param {string} content - The raw contents of the .npmrc file
+ * @param {Record<string, string | undefined>} [env] - Environment used to expand `${VAR}` references
+ * @returns {Record<string, string>} The parsed key/value pairs
+ * @example
+ * // Returns { registry: 'https://npm.acme.dev/', '@acme:registry': 'https://npm.acme.dev/' }
+ * parseNpmrc('registry=https://npm.acme.dev/\n@acme:registry=https://npm.acme.dev/')
+ */
+const parseNpmrc = (
+  content: string,
+  env: typeof process.env = process.env
+): Record<string, string> => {
+  const config: Record<string, string> = {};
+
+  if (!content) {
+    return config;
+  }
+
+  // Replace ${VAR} references with their environment values
+  const expandEnv = (value: string) =>
+    value.replace(/\$\{([^}]+)\}/g, (_match, name: string) => env[name] ?? '');
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    // Skip empty lines, comments and section headers
+    if (!line || line.startsWith('#') || line.startsWith(';') || line.startsWith('[')) {
+      continue;
+    }
+
+    const separatorIndex = line.indexOf('=');
+
+    if (separatorIndex === -1) {
+      config[expandEnv(line)] = 'true';
+
+      continue;
+    }
+
+    const key = expandEnv(line.slice(0, separatorIndex).trim());
+
+    let value = line.slice(separatorIndex + 1).trim();
+
+    // Strip surrounding quotes
+    if (
+      value.length >= 2 &&
+      ((value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'")))
+    ) {
+      value = value.slice(1, -1);
+    }
+
+    if (key) {
+      config[key] = expandEnv(value);
+    }
+  }
+
+  return config;
+};
+
+export default parseNpmrc;
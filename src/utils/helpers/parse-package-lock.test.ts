@@ -0,0 +1,277 @@
+import parsePackageLock from '@/utils/helpers/parse-package-lock';
+import type { PackageLock } from '@/utils/types';
+
+describe('parsePackageLock', () => {
+  describe('lockfile version 3', () => {
+    const packageLock: PackageLock = {
+      name: 'demo',
+      version: '1.0.0',
+      lockfileVersion: 3,
+      packages: {
+        '': {
+          name: 'demo',
+          version: '1.0.0',
+          workspaces: ['packages/*'],
+          dependencies: { express: '^4.18.2', 'is-odd': 'file:./local/is-odd', debug: 'npm:ms@^2' },
+          devDependencies: { typescript: '^5.1.6' },
+        },
+        'local/is-odd': { version: '3.0.1' },
+        'packages/app': {
+          name: 'app',
+          version: '0.1.0',
+          dependencies: { react: '^17.0.0' },
+          devDependencies: { typescript: '^4.5.0' },
+        },
+        'node_modules/app': { resolved: 'packages/app', link: true },
+        'node_modules/debug': {
+          name: 'ms',
+          version: '2.1.3',
+          resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+        },
+        'node_modules/express': {
+          version: '4.21.2',
+          resolved: 'https://registry.npmjs.org/express/-/express-4.21.2.tgz',
+          integrity: 'sha512-express',
+          dependencies: { 'body-parser': '1.20.3', debug: '2.6.9' },
+        },
+        'node_modules/express/node_modules/debug': {
+          version: '2.6.9',
+          resolved: 'https://registry.npmjs.org/debug/-/debug-2.6.9.tgz',
+          dependencies: { ms: '2.0.0' },
+        },
+        'node_modules/express/node_modules/ms': {
+          version: '2.0.0',
+          resolved: 'https://registry.npmjs.org/ms/-/ms-2.0.0.tgz',
+        },
+        'node_modules/body-parser': {
+          version: '1.20.3',
+          resolved: 'https://registry.npmjs.org/body-parser/-/body-parser-1.20.3.tgz',
+          dependencies: { debug: '2.6.9' },
+        },
+        'node_modules/is-odd': { resolved: 'local/is-odd', link: true },
+        'node_modules/react': {
+          version: '17.0.2',
+          resolved: 'https://registry.npmjs.org/react/-/react-17.0.2.tgz',
+        },
+        'node_modules/typescript': {
+          version: '5.8.2',
+          resolved: 'https://registry.npmjs.org/typescript/-/typescript-5.8.2.tgz',
+          dev: true,
+        },
+        'packages/app/node_modules/typescript': {
+          version: '4.5.5',
+          resolved: 'https://registry.npmjs.org/typescript/-/typescript-4.5.5.tgz',
+          dev: true,
+        },
+      },
+    };
+
+    const npmListData = parsePackageLock(packageLock);
+
+    it('should read the project name and version', () => {
+      expect(npmListData.name).toBe('demo');
+
+      expect(npmListData.version).toBe('1.0.0');
+    });
+
+    it('should include direct dependencies of all types', () => {
+      expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+        ['app', 'debug', 'express', 'is-odd', 'typescript'].sort()
+      );
+
+      expect(npmListData.dependencies.typescript.version).toBe('5.8.2');
+    });
+
+    it('should include the version, resolved URL, integrity and location', () => {
+      expect(npmListData.dependencies.express).toMatchObject({
+        version: '4.21.2',
+        resolved: 'https://registry.npmjs.org/express/-/express-4.21.2.tgz',
+        integrity: 'sha512-express',
+        location: 'node_modules/express',
+        requires: { 'body-parser': '1.20.3', debug: '2.6.9' },
+      });
+    });
+
+    it('should resolve npm aliases to the aliased package', () => {
+      expect(npmListData.dependencies.debug).toMatchObject({
+        version: '2.1.3',
+        resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+      });
+    });
+
+    it('should resolve links to local packages', () => {
+      expect(npmListData.dependencies['is-odd']).toMatchObject({
+        version: '3.0.1',
+        resolved: 'file:local/is-odd',
+      });
+    });
+
+    it('should prefer nested node_modules entries over hoisted ones', () => {
+      const express = npmListData.dependencies.express;
+
+      expect(express.dependencies?.debug.version).toBe('2.6.9');
+
+      expect(express.dependencies?.debug.dependencies?.ms.location).toBe(
+        'node_modules/express/node_modules/ms'
+      );
+    });
+
+    it('should resolve hoisted dependencies from parent folders', () => {
+      const bodyParser = npmListData.dependencies.express.dependencies?.['body-parser'];
+
+      expect(bodyParser?.location).toBe('node_modules/body-parser');
+
+      // body-parser can't see express' nested debug, so it resolves to the hoisted alias
+      expect(bodyParser?.dependencies?.debug.location).toBe('node_modules/debug');
+    });
+
+    it('should include workspaces with their own dependencies', () => {
+      const app = npmListData.dependencies.app;
+
+      expect(app).toMatchObject({ version: '0.1.0', resolved: 'file:packages/app' });
+
+      expect(app.dependencies?.react.version).toBe('17.0.2');
+
+      expect(app.dependencies?.typescript.version).toBe('4.5.5');
+    });
+
+    it('should list the direct dependencies of each workspace by path', () => {
+      const workspace = npmListData.workspaces?.['packages/app'];
+
+      expect(Object.keys(workspace ?? {}).sort()).toEqual(['react', 'typescript']);
+
+      expect(workspace?.typescript.location).toBe('packages/app/node_modules/typescript');
+
+      expect(workspace?.react).toBe(npmListData.dependencies.app.dependencies?.react);
+    });
+
+    it('should share items for packages required from multiple places', () => {
+      const bodyParser = npmListData.dependencies.express.dependencies?.['body-parser'];
+
+      expect(bodyParser?.dependencies?.debug).toBe(npmListData.dependencies.debug);
+    });
+  });
+
+  describe('cyclic dependencies', () => {
+    it('should handle packages that depend on each other', () => {
+      const npmListData = parsePackageLock({
+        lockfileVersion: 3,
+        packages: {
+          '': { dependencies: { a: '1.0.0' } },
+          'node_modules/a': { version: '1.0.0', dependencies: { b: '1.0.0' } },
+          'node_modules/b': { version: '1.0.0', dependencies: { a: '1.0.0' } },
+        },
+      });
+
+      const a = npmListData.dependencies.a;
+
+      expect(a.dependencies?.b.dependencies?.a).toBe(a);
+    });
+  });
+
+  describe('lockfile version 1', () => {
+    const packageLock: PackageLock = {
+      name: 'legacy',
+      version: '2.0.0',
+      lockfileVersion: 1,
+      requires: true,
+      dependencies: {
+        debug: {
+          version: '2.6.9',
+          resolved: 'https://registry.npmjs.org/debug/-/debug-2.6.9.tgz',
+          integrity: 'sha512-debug',
+          requires: { ms: '2.0.0' },
+          dependencies: {
+            ms: {
+              version: '2.0.0',
+              resolved: 'https://registry.npmjs.org/ms/-/ms-2.0.0.tgz',
+            },
+          },
+        },
+        ms: {
+          version: '2.1.3',
+          resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+        },
+        send: {
+          version: '0.19.0',
+          resolved: 'https://registry.npmjs.org/send/-/send-0.19.0.tgz',
+          requires: { ms: '2.1.3' },
+        },
+        alias: {
+          version: 'npm:ms@2.1.3',
+          resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+        },
+        commander: {
+          version: 'git+ssh://git@github.com/tj/commander.js.git#33195f18',
+          from: 'commander@git://github.com/tj/commander.js.git#v10.0.1',
+        },
+        'is-odd': {
+          version: 'file:local/is-odd',
+        },
+      },
+    };
+
+    const npmListData = parsePackageLock(packageLock);
+
+    it('should read the project name and version', () => {
+      expect(npmListData.name).toBe('legacy');
+
+      expect(npmListData.version).toBe('2.0.0');
+    });
+
+    it('should include the version, resolved URL, integrity and location', () => {
+      expect(npmListData.dependencies.debug).toMatchObject({
+        version: '2.6.9',
+        resolved: 'https://registry.npmjs.org/debug/-/debug-2.6.9.tgz',
+        integrity: 'sha512-debug',
+        location: 'node_modules/debug',
+        requires: { ms: '2.0.0' },
+      });
+    });
+
+    it('should prefer nested dependencies over top-level ones', () => {
+      expect(npmListData.dependencies.debug.dependencies?.ms).toMatchObject({
+        version: '2.0.0',
+        location: 'node_modules/debug/node_modules/ms',
+      });
+
+      expect(npmListData.dependencies.send.dependencies?.ms.version).toBe('2.1.3');
+    });
+
+    it('should extract the version of npm aliases', () => {
+      expect(npmListData.dependencies.alias).toMatchObject({
+        version: '2.1.3',
+        resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+      });
+    });
+
+    it('should use the version field as source for git and file dependencies', () => {
+      expect(npmListData.dependencies.commander).toMatchObject({
+        version: '',
+        resolved: 'git+ssh://git@github.com/tj/commander.js.git#33195f18',
+      });
+
+      expect(npmListData.dependencies['is-odd']).toMatchObject({
+        version: '',
+        resolved: 'file:local/is-odd',
+      });
+    });
+  });
+
+  describe('empty lockfiles', () => {
+    it('should return an empty tree', () => {
+      expect(parsePackageLock({ lockfileVersion: 3, packages: {} })).toEqual({
+        name: '',
+        version: '',
+        dependencies: {},
+        workspaces: {},
+      });
+
+      expect(parsePackageLock({ lockfileVersion: 1 })).toEqual({
+        name: '',
+        version: '',
+        dependencies: {},
+      });
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import type {
+  NpmListData,
+  NpmListDepItem,
+  PackageLock,
+  PackageLockDependency,
+  PackageLockPackage,
+} from '@/utils/types';
+
+/**
+ * Returns the location whose node_modules folder contains the given location
+ * e.g. node_modules/a/node_modules/b -> node_modules/a, node_modules/a -> '' and packages/a -> ''
+ */
+const getParentLocation = (location: string): string => {
+  const index = location.lastIndexOf('/node_modules/');
+
+  return index === -1 ? '' : location.slice(0, index);
+};
+
+/**
+ * Resolves a dependency the way Node.js does, walking up the nested node_modules folders
+ */
+const resolveLocation = (
+  packages: Record<string, PackageLockPackage>,
+  from: string,
+  name: string
+): string | undefined => {
+  let location = from;
+
+  for (;;) {
+    const candidate = location ? `${location}/node_modules/${name}` : `node_modules/${name}`;
+
+    if (packages[candidate]) {
+      return candidate;
+    }
+
+    if (!location) {
+      return undefined;
+    }
+
+    location = getParentLocation(location);
+  }
+};
+
+/**
+ * Collects the version ranges a package requires. Dev dependencies are only installed
+ * for the project itself and its workspaces or linked packages.
+ */
+const getRequires = (entry: PackageLockPackage, includeDev: boolean): Record<string, string> => ({
+  ...entry.peerDependencies,
+  ...entry.optionalDependencies,
+  ...entry.dependencies,
+  ...(includeDev ? entry.devDependencies : {}),
+});
+
+/**
+ * Builds the dependency tree from the "packages" section (lockfile versions 2 and 3)
+ */
+const parsePackagesSection = (packageLock: PackageLock): NpmListData => {
+  const packages = packageLock.packages ?? {};
+
+  const items = new Map<string, NpmListDepItem>();
+
+  const resolveDependencies = (
+    from: string,
+    requires: Record<string, string>
+  ): Record<string, NpmListDepItem> => {
+    const dependencies: Record<string, NpmListDepItem> = {};
+
+    for (const name of Object.keys(requires)) {
+      const location = resolveLocation(packages, from, name);
+
+      const item = location !== undefined ? getItem(location) : undefined;
+
+      if (item) {
+        dependencies[name] = item;
+      }
+    }
+
+    return dependencies;
+  };
+
+  const getItem = (location: string): NpmListDepItem | undefined => {
+    const existingItem = items.get(location);
+
+    if (existingItem) {
+      return existingItem;
+    }
+
+    const entry = packages[location];
+
+    if (!entry) {
+      return undefined;
+    }
+
+    // Links point to a package elsewhere in the project, e.g. a workspace or a file: dependency
+    const targetLocation = entry.link && entry.resolved ? entry.resolved : location;
+
+    const target = packages[targetLocation] ?? entry;
+
+    const item: NpmListDepItem = {
+      version: target.version ?? '',
+      resolved: entry.link ? `file:${entry.resolved ?? ''}` : (entry.resolved ?? ''),
+      location,
+    };
+
+    if (entry.integrity) {
+      item.integrity = entry.integrity;
+    }
+
+    // Register the item before resolving its dependencies to support cycles
+    items.set(location, item);
+
+    const requires = getRequires(target, Boolean(entry.link));
+
+    if (Object.keys(requires).length) {
+      item.requires = requires;
+
+      item.dependencies = resolveDependencies(targetLocation, requires);
+    }
+
+    return item;
+  };
+
+  const rootEntry = packages[''] ?? {};
+
+  const dependencies = resolveDependencies('', getRequires(rootEntry, true));
+
+  // Workspaces are linked into the root node_modules folder, like `npm list` reports them
+  for (const [location, entry] of Object.entries(packages)) {
+    const name = location.slice('node_modules/'.length);
+
+    if (entry.link && location.startsWith('node_modules/') && !name.includes('/node_modules/')) {
+      const item = getItem(location);
+
+      if (item && !dependencies[name]) {
+        dependencies[name] = item;
+      }
+    }
+  }
+
+  // Workspace packages are stored by their path, e.g. packages/a, and resolve from their own folder
+  const workspaces: Record<string, Record<string, NpmListDepItem>> = {};
+
+  for (const [location, entry] of Object.entries(packages)) {
+    if (location && !location.startsWith('node_modules/') && !location.includes('/node_modules/')) {
+      workspaces[location] = resolveDependencies(location, getRequires(entry, true));
+    }
+  }
+
+  return {
+    name: packageLock.name ?? rootEntry.name ?? '',
+    version: packageLock.version ?? rootEntry.version ?? '',
+    dependencies,
+    workspaces,
+  };
+};
+
+/**
+ * Splits a lockfile version 1 "version" field into the installed version and its source.
+ * Git, file and tarball dependencies store their source in the version field, and
+ * npm aliases store it as `npm:<name>@<version>`.
+ */
+const normalizeV1Version = (dep: PackageLockDependency): { version: string; resolved: string } => {
+  if (dep.version.startsWith('npm:')) {
+    return {
+      version: dep.version.slice(dep.version.lastIndexOf('@') + 1),
+      resolved: dep.resolved ?? '',
+    };
+  }
+
+  if (dep.version.includes(':')) {
+    return { version: '', resolved: dep.resolved ?? dep.version };
+  }
+
+  return { version: dep.version, resolved: dep.resolved ?? '' };
+};
+
+/**
+ * Builds the dependency tree from the nested "dependencies" section (lockfile version 1)
+ */
+const parseDependenciesSection = (packageLock: PackageLock): NpmListData => {
+  const nodes: Array<{
+    item: NpmListDepItem;
+    scopes: Array<Record<string, NpmListDepItem>>;
+  }> = [];
+
+  // Creates the items of one node_modules level and recurses into nested levels
+  const buildLevel = (
+    deps: Record<string, PackageLockDependency>,
+    parentLocation: string,
+    parentScopes: Array<Record<string, NpmListDepItem>>
+  ): Record<string, NpmListDepItem> => {
+    const level: Record<string, NpmListDepItem> = {};
+
+    for (const [name, dep] of Object.entries(deps)) {
+      const location = parentLocation
+        ? `${parentLocation}/node_modules/${name}`
+        : `node_modules/${name}`;
+
+      level[name] = { ...normalizeV1Version(dep), location };
+
+      if (dep.integrity) {
+        level[name].integrity = dep.integrity;
+      }
+
+      if (dep.requires && Object.keys(dep.requires).length) {
+        level[name].requires = dep.requires;
+      }
+    }
+
+    const scopes = [level, ...parentScopes];
+
+    for (const [name, dep] of Object.entries(deps)) {
+      const item = level[name];
+
+      // A package sees its own nested dependencies first, then those of its ancestors
+      const nested = dep.dependencies
+        ? buildLevel(dep.dependencies, item.location ?? '', scopes)
+        : {};
+
+      nodes.push({ item, scopes: [nested, ...scopes] });
+    }
+
+    return level;
+  };
+
+  const dependencies = buildLevel(packageLock.dependencies ?? {}, '', []);
+
+  // Link every package to the installed packages that satisfy its requirements
+  for (const { item, scopes } of nodes) {
+    if (!item.requires) {
+      continue;
+    }
+
+    item.dependencies = {};
+
+    for (const name of Object.keys(item.requires)) {
+      const dependency = scopes.find((scope) => scope[name])?.[name];
+
+      if (dependency) {
+        item.dependencies[name] = dependency;
+      }
+    }
+  }
+
+  return {
+    name: packageLock.name ?? '',
+    version: packageLock.version ?? '',
+    dependencies,
+  };
+};
+
+/**
+ * Converts a parsed package-lock.json file into the structure produced by
+ * `npm list --json --package-lock-only`, without needing npm to be installed.
+ *
+ * Supports lockfile versions 1, 2 and 3. Version 2 and 3 lockfiles are read from their
+ * flat "packages" section, resolving nested node_modules entries the way Node.js does.
+ * Unlike `npm list`, every item includes its dependencies, so the full installed tree is available.
+ *
+ * @param {PackageLock} packageLock - The parsed package-lock.json contents
+ * @returns {NpmListData} The dependency tree with installed versions, sources and integrity hashes
+ */
+const parsePackageLock = (packageLock: PackageLock): NpmListData => {
+  if (packageLock.packages) {
+    return parsePackagesSection(packageLock);
+  }
+
+  return parseDependenciesSection(packageLock);
+};
+
+export default parsePackageLock;
@@ -0,0 +1,43 @@
+import parsePackagePattern from '@/utils/helpers/parse-package-pattern';
+
+describe('parsePackagePattern', () => {
+  it('should match whole package names with globs', () => {
+    const pattern = parsePackagePattern('@types/*');
+
+    expect(pattern.test('@types/node')).toBe(true);
+
+    expect(pattern.test('@types/react-dom')).toBe(true);
+
+    expect(pattern.test('@typescript-eslint/parser')).toBe(false);
+
+    expect(parsePackagePattern('lodash').test('lodash.merge')).toBe(false);
+  });
+
+  it('should not match / with * and ?, but with **', () => {
+    expect(parsePackagePattern('*eslint*').test('eslint-plugin-import')).toBe(true);
+
+    expect(parsePackagePattern('*eslint*').test('@typescript-eslint/parser')).toBe(false);
+
+    expect(parsePackagePattern('**eslint**').test('@typescript-eslint/parser')).toBe(true);
+
+    expect(parsePackagePattern('react-dom?').test('react-dom')).toBe(false);
+  });
+
+  it('should escape characters with a special meaning in regular expressions', () => {
+    expect(parsePackagePattern('lodash.merge').test('lodash-merge')).toBe(false);
+
+    expect(parsePackagePattern('lodash.merge').test('lodash.merge')).toBe(true);
+  });
+
+  it('should use patterns wrapped in slashes as regular expressions', () => {
+    expect(parsePackagePattern('/^eslint/').test('eslint-config-prettier')).toBe(true);
+
+    expect(parsePackagePattern('/^eslint/').test('@typescript-eslint/parser')).toBe(false);
+
+    expect(parsePackagePattern('/^REACT/i').test('react')).toBe(true);
+  });
+
+  it('should throw for invalid regular expressions', () => {
+    expect(() => parsePackagePattern('/[a-/')).toThrow('Invalid package pattern "/[a-/"');
+  });
+});
@@ -0,0 +1,55 @@
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Converts a package name pattern into a regular expression matching whole package names.
+ *
+ * Patterns wrapped in slashes are regular expressions, optionally followed by flags, e.g. /^eslint/i.
+ * Other patterns are globs, where * matches any characters except /, ** matches any characters
+ * and ? matches a single character except /, e.g. @types/* or eslint-plugin-*.
+ *
+ * @param {string} pattern - The glob or regular expression
+ * @returns {RegExp} The regular expression matching the package names of the pattern
+ * @throws {Error} If the pattern is an invalid regular expression
+ * @example
+ * // Returns /^@types\/[^/]*$/
+ * parsePackagePattern('@types/*')
+ *
+ * // Returns /^eslint/
+ * parsePackagePattern('/^eslint/')
+ */
+const parsePackagePattern = (pattern: string): RegExp => {
+  const regexMatch = REGEX_PATTERN.exec(pattern);
+
+  if (regexMatch) {
+    try {
+      return new RegExp(regexMatch[1], regexMatch[2]);
+    } catch {
+      throw new Error(
+        `Invalid package pattern "${pattern}". Must be a glob or a regular expression`
+      );
+    }
+  }
+
+  const source = pattern
+    .split(/(\*\*|\*|\?)/)
+    .map((part) => {
+      switch (part) {
+        case '**':
+          return '.*';
+
+        case '*':
+          return '[^/]*';
+
+        case '?':
+          return '[^/]';
+
+        default:
+          return part.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+};
+
+export default parsePackagePattern;
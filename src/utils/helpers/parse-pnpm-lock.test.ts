@@ -0,0 +1,265 @@
+import parsePnpmLock from '@/utils/helpers/parse-pnpm-lock';
+import type { PnpmLock } from '@/utils/types';
+
+describe('parsePnpmLock', () => {
+  describe('lockfile format 9', () => {
+    const pnpmLock: PnpmLock = {
+      lockfileVersion: '9.0',
+      importers: {
+        '.': {
+          dependencies: {
+            axios: { specifier: '~1.4.0', version: '1.4.0(ms@2.1.3)' },
+            debug: { specifier: 'npm:ms@^2.1.3', version: 'ms@2.1.3' },
+            'is-odd': {
+              specifier: 'file:./local-packages/is-odd',
+              version: 'file:local-packages/is-odd',
+            },
+            '@acme/ui': { specifier: 'workspace:*', version: 'link:packages/ui' },
+          },
+          devDependencies: {
+            '@types/node': { specifier: '^18.0.0', version: '18.19.0' },
+          },
+          optionalDependencies: {
+            fsevents: { specifier: '^2.3.2', version: '2.3.3' },
+          },
+        },
+        'packages/ui': {
+          dependencies: {
+            axios: { specifier: '~1.4.0', version: '1.4.0(ms@2.1.3)' },
+          },
+        },
+      },
+      packages: {
+        '@types/node@18.19.0': { resolution: { integrity: 'sha512-node' } },
+        'axios@1.4.0': { resolution: { integrity: 'sha512-axios' } },
+        'follow-redirects@1.15.2': { resolution: { integrity: 'sha512-follow' } },
+        'fsevents@2.3.3': { resolution: { integrity: 'sha512-fsevents' } },
+        'is-odd@file:local-packages/is-odd': {
+          resolution: { directory: 'local-packages/is-odd', type: 'directory' },
+        },
+        'ms@2.1.3': { resolution: { integrity: 'sha512-ms' } },
+        'semver@https://codeload.github.com/npm/node-semver/tar.gz/v7.5.4': {
+          resolution: { tarball: 'https://codeload.github.com/npm/node-semver/tar.gz/v7.5.4' },
+          version: '7.5.4',
+        },
+      },
+      snapshots: {
+        '@types/node@18.19.0': {},
+        'axios@1.4.0(ms@2.1.3)': {
+          dependencies: {
+            'follow-redirects': '1.15.2(ms@2.1.3)',
+            semver: 'https://codeload.github.com/npm/node-semver/tar.gz/v7.5.4',
+          },
+        },
+        'follow-redirects@1.15.2(ms@2.1.3)': { optionalDependencies: { debug: 'ms@2.1.3' } },
+        'fsevents@2.3.3': {},
+        'is-odd@file:local-packages/is-odd': {},
+        'ms@2.1.3': {},
+        'semver@https://codeload.github.com/npm/node-semver/tar.gz/v7.5.4': {},
+      },
+    };
+
+    const npmListData = parsePnpmLock(pnpmLock);
+
+    it('should include direct dependencies of all types', () => {
+      expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+        ['@acme/ui', '@types/node', 'axios', 'debug', 'fsevents', 'is-odd'].sort()
+      );
+    });
+
+    it('should rebuild registry tarball URLs and keep the integrity', () => {
+      expect(npmListData.dependencies.axios).toMatchObject({
+        version: '1.4.0',
+        resolved: 'https://registry.npmjs.org/axios/-/axios-1.4.0.tgz',
+        integrity: 'sha512-axios',
+        location: 'axios@1.4.0(ms@2.1.3)',
+      });
+
+      expect(npmListData.dependencies['@types/node'].resolved).toBe(
+        'https://registry.npmjs.org/@types/node/-/node-18.19.0.tgz'
+      );
+    });
+
+    it('should resolve npm aliases to the aliased package', () => {
+      expect(npmListData.dependencies.debug).toMatchObject({
+        version: '2.1.3',
+        resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+      });
+    });
+
+    it('should resolve local directories and links', () => {
+      expect(npmListData.dependencies['is-odd']).toMatchObject({
+        version: '',
+        resolved: 'file:local-packages/is-odd',
+      });
+
+      expect(npmListData.dependencies['@acme/ui']).toMatchObject({
+        resolved: 'file:packages/ui',
+        location: 'packages/ui',
+      });
+    });
+
+    it('should include the dependencies of workspace packages', () => {
+      expect(npmListData.dependencies['@acme/ui'].dependencies?.axios).toBe(
+        npmListData.dependencies.axios
+      );
+    });
+
+    it('should list the direct dependencies of each workspace by path', () => {
+      expect(Object.keys(npmListData.workspaces ?? {})).toEqual(['packages/ui']);
+
+      expect(npmListData.workspaces?.['packages/ui'].axios).toBe(npmListData.dependencies.axios);
+    });
+
+    it('should resolve transitive dependencies from snapshots', () => {
+      const axiosDependencies = npmListData.dependencies.axios.dependencies;
+
+      expect(axiosDependencies?.['follow-redirects'].version).toBe('1.15.2');
+
+      expect(axiosDependencies?.semver).toMatchObject({
+        version: '7.5.4',
+        resolved: 'https://codeload.github.com/npm/node-semver/tar.gz/v7.5.4',
+      });
+
+      expect(axiosDependencies?.['follow-redirects'].dependencies?.debug).toBe(
+        npmListData.dependencies.debug
+      );
+    });
+
+    it('should use the configured registry for tarball URLs', () => {
+      const npmListDataWithConfig = parsePnpmLock(pnpmLock, {
+        registry: 'https://npm.acme.dev/',
+        scopes: { '@types': 'https://types.acme.dev' },
+        auth: {},
+      });
+
+      expect(npmListDataWithConfig.dependencies.axios.resolved).toBe(
+        'https://npm.acme.dev/axios/-/axios-1.4.0.tgz'
+      );
+
+      expect(npmListDataWithConfig.dependencies['@types/node'].resolved).toBe(
+        'https://types.acme.dev/@types/node/-/node-18.19.0.tgz'
+      );
+    });
+  });
+
+  describe('lockfile format 6', () => {
+    const pnpmLock: PnpmLock = {
+      lockfileVersion: '6.0',
+      dependencies: {
+        axios: { specifier: '~1.4.0', version: '1.4.0(ms@2.1.3)' },
+        debug: { specifier: 'npm:ms@^2.1.3', version: '/ms@2.1.3' },
+        'is-odd': {
+          specifier: 'file:./local-packages/is-odd',
+          version: 'file:local-packages/is-odd',
+        },
+      },
+      devDependencies: {
+        '@types/node': { specifier: '^18.0.0', version: '18.19.0' },
+      },
+      packages: {
+        '/@types/node@18.19.0': { resolution: { integrity: 'sha512-node' }, dev: true },
+        '/axios@1.4.0(ms@2.1.3)': {
+          resolution: { integrity: 'sha512-axios' },
+          dependencies: { 'follow-redirects': '1.15.2(ms@2.1.3)' },
+          dev: false,
+        },
+        '/follow-redirects@1.15.2(ms@2.1.3)': {
+          resolution: { integrity: 'sha512-follow' },
+          dependencies: { debug: '/ms@2.1.3' },
+          dev: false,
+        },
+        '/ms@2.1.3': { resolution: { integrity: 'sha512-ms' } },
+        'file:local-packages/is-odd': {
+          resolution: { directory: 'local-packages/is-odd', type: 'directory' },
+          name: 'is-odd',
+          dev: false,
+        },
+      },
+    };
+
+    const npmListData = parsePnpmLock(pnpmLock);
+
+    it('should read the root importer from the top level', () => {
+      expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+        ['@types/node', 'axios', 'debug', 'is-odd'].sort()
+      );
+    });
+
+    it('should include the version, resolved URL, integrity and location', () => {
+      expect(npmListData.dependencies.axios).toMatchObject({
+        version: '1.4.0',
+        resolved: 'https://registry.npmjs.org/axios/-/axios-1.4.0.tgz',
+        integrity: 'sha512-axios',
+        location: '/axios@1.4.0(ms@2.1.3)',
+      });
+
+      expect(npmListData.dependencies['@types/node'].version).toBe('18.19.0');
+    });
+
+    it('should resolve npm aliases and local directories', () => {
+      expect(npmListData.dependencies.debug).toMatchObject({
+        version: '2.1.3',
+        resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+      });
+
+      expect(npmListData.dependencies['is-odd'].resolved).toBe('file:local-packages/is-odd');
+    });
+
+    it('should resolve transitive dependencies', () => {
+      const followRedirects = npmListData.dependencies.axios.dependencies?.['follow-redirects'];
+
+      expect(followRedirects?.version).toBe('1.15.2');
+
+      expect(followRedirects?.dependencies?.debug).toBe(npmListData.dependencies.debug);
+    });
+
+    it('should read workspace importers', () => {
+      const npmListDataWithImporters = parsePnpmLock({
+        lockfileVersion: '6.0',
+        importers: {
+          '.': { dependencies: { ms: { specifier: '^2.1.3', version: '2.1.3' } } },
+        },
+        packages: { '/ms@2.1.3': { resolution: { integrity: 'sha512-ms' } } },
+      });
+
+      expect(npmListDataWithImporters.dependencies.ms.version).toBe('2.1.3');
+    });
+  });
+
+  describe('git dependencies', () => {
+    it('should use the repository and commit as source', () => {
+      const npmListData = parsePnpmLock({
+        lockfileVersion: '9.0',
+        importers: {
+          '.': {
+            dependencies: {
+              commander: {
+                specifier: 'github:tj/commander.js#v10.0.1',
+                version: 'git+https://git@github.com:tj/commander.js.git#33195f18',
+              },
+            },
+          },
+        },
+        packages: {
+          'commander@git+https://git@github.com:tj/commander.js.git#33195f18': {
+            resolution: {
+              type: 'git',
+              repo: 'https://git@github.com:tj/commander.js.git',
+              commit: '33195f18',
+            },
+            version: '10.0.1',
+          },
+        },
+        snapshots: {
+          'commander@git+https://git@github.com:tj/commander.js.git#33195f18': {},
+        },
+      });
+
+      expect(npmListData.dependencies.commander).toMatchObject({
+        version: '10.0.1',
+        resolved: 'git+https://git@github.com:tj/commander.js.git#33195f18',
+      });
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import path from 'path';
+
+import getRegistryTarballUrl from '@/utils/helpers/get-registry-tarball-url';
+import type {
+  NpmConfig,
+  NpmListData,
+  NpmListDepItem,
+  PnpmLock,
+  PnpmLockImporter,
+  PnpmLockPackage,
+} from '@/utils/types';
+
+// Id of the importer that represents the project itself
+const ROOT_IMPORTER_ID = '.';
+
+/**
+ * Converts a dependency reference into the key of its "packages" entry, following pnpm's own rules.
+ * Format 9 keys look like name@1.0.0(peer@2.0.0), format 6 keys like /name@1.0.0(peer@2.0.0).
+ * Returns undefined for links, which don't have an entry.
+ */
+const getPackageKey = (name: string, ref: string, isV9: boolean): string | undefined => {
+  if (ref.startsWith('link:')) {
+    return undefined;
+  }
+
+  if (isV9) {
+    if (ref.startsWith('@')) {
+      return ref;
+    }
+
+    const atIndex = ref.indexOf('@');
+
+    if (atIndex === -1) {
+      return `${name}@${ref}`;
+    }
+
+    const colonIndex = ref.indexOf(':');
+
+    const bracketIndex = ref.indexOf('(');
+
+    // Aliases reference another package, e.g. ms@2.1.3
+    const isAlias =
+      (colonIndex === -1 || atIndex < colonIndex) &&
+      (bracketIndex === -1 || atIndex < bracketIndex);
+
+    return isAlias ? ref : `${name}@${ref}`;
+  }
+
+  if (ref.startsWith('file:') || ref.startsWith('/')) {
+    return ref;
+  }
+
+  // References without a path are versions from the registry, anything else is a key already
+  return ref.replace(/(\([^)]+\))+$/, '').includes('/') ? ref : `/${name}@${ref}`;
+};
+
+/**
+ * Splits a package key into the package name and version, ignoring the peer dependencies suffix
+ * e.g. /@types/node@18.0.0 -> { name: '@types/node', version: '18.0.0' }
+ */
+const parsePackageKey = (key: string): { name?: string; version: string } => {
+  const bracketIndex = key.indexOf('(');
+
+  const base = (bracketIndex === -1 ? key : key.slice(0, bracketIndex)).replace(/^\//, '');
+
+  const atIndex = base.indexOf('@', 1);
+
+  if (atIndex === -1) {
+    return { version: base };
+  }
+
+  return { name: base.slice(0, atIndex), version: base.slice(atIndex + 1) };
+};
+
+/**
+ * Finds out where a package was installed from. pnpm only stores the integrity hash for
+ * packages from the registry, so their tarball URL is rebuilt from the configured registry.
+ */
+const getResolved = (
+  name: string,
+  version: string,
+  entry: PnpmLockPackage,
+  npmConfig?: NpmConfig
+): string => {
+  const resolution = entry.resolution ?? {};
+
+  if (resolution.tarball) {
+    return resolution.tarball;
+  }
+
+  if (resolution.type === 'git' && resolution.repo) {
+    return `git+${resolution.repo}#${resolution.commit ?? ''}`;
+  }
+
+  if (resolution.directory) {
+    return `file:${resolution.directory}`;
+  }
+
+  return getRegistryTarballUrl(name, version, npmConfig);
+};
+
+/**
+ * Converts a parsed pnpm-lock.yaml file into the structure produced by
+ * `npm list --json --package-lock-only`, so pnpm projects are analyzed like npm projects.
+ *
+ * Supports lockfile formats 6 and 9. Installed versions and sources are resolved from the
+ * "importers" and "packages" sections, plus the "snapshots" section in format 9.
+ * Linked workspace packages are reported with a `file:` source relative to the project root.
+ *
+ * @param {PnpmLock} pnpmLock - The parsed pnpm-lock.yaml contents
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration, used to build registry tarball URLs
+ * @returns {NpmListData} The dependency tree with installed versions, sources and integrity hashes
+ */
+const parsePnpmLock = (pnpmLock: PnpmLock, npmConfig?: NpmConfig): NpmListData => {
+  const isV9 = parseFloat(String(pnpmLock.lockfileVersion)) >= 9;
+
+  const packages = pnpmLock.packages ?? {};
+
+  const snapshots = pnpmLock.snapshots ?? {};
+
+  // Lockfile format 6 stores the root importer at the top level when there are no workspaces
+  const importers: Record<string, PnpmLockImporter> = pnpmLock.importers ?? {
+    [ROOT_IMPORTER_ID]: pnpmLock,
+  };
+
+  const items = new Map<string, NpmListDepItem>();
+
+  const resolveDependencies = (
+    deps: Record<string, string>,
+    importerId: string
+  ): Record<string, NpmListDepItem> => {
+    const dependencies: Record<string, NpmListDepItem> = {};
+
+    for (const [name, ref] of Object.entries(deps)) {
+      const item = ref.startsWith('link:')
+        ? getLinkItem(path.posix.join(importerId, ref.slice('link:'.length)))
+        : getPackageItem(name, ref);
+
+      if (item) {
+        dependencies[name] = item;
+      }
+    }
+
+    return dependencies;
+  };
+
+  const getImporterDependencies = (importerId: string): Record<string, string> => {
+    const importer = importers[importerId] ?? {};
+
+    const deps: Record<string, string> = {};
+
+    for (const depType of ['optionalDependencies', 'dependencies', 'devDependencies'] as const) {
+      for (const [name, dep] of Object.entries(importer[depType] ?? {})) {
+        deps[name] = dep.version;
+      }
+    }
+
+    return deps;
+  };
+
+  const getLinkItem = (targetPath: string): NpmListDepItem => {
+    const key = `link:${targetPath}`;
+
+    const existingItem = items.get(key);
+
+    if (existingItem) {
+      return existingItem;
+    }
+
+    const item: NpmListDepItem = {
+      version: '',
+      resolved: `file:${targetPath}`,
+      location: targetPath,
+    };
+
+    // Register the item before resolving its dependencies to support cycles
+    items.set(key, item);
+
+    // Workspace packages are importers with their own dependencies
+    if (importers[targetPath]) {
+      item.dependencies = resolveDependencies(getImporterDependencies(targetPath), targetPath);
+    }
+
+    return item;
+  };
+
+  const getPackageItem = (name: string, ref: string): NpmListDepItem | undefined => {
+    const key = getPackageKey(name, ref, isV9);
+
+    if (!key) {
+      return undefined;
+    }
+
+    const existingItem = items.get(key);
+
+    if (existingItem) {
+      return existingItem;
+    }
+
+    const parsedKey = parsePackageKey(key);
+
+    // Format 9 splits package metadata (without peers suffix) from the resolved dependencies
+    const entry = isV9 ? packages[key.replace(/(\([^)]+\))+$/, '')] : packages[key];
+
+    const snapshot = isV9 ? snapshots[key] : entry;
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const packageName = entry.name ?? parsedKey.name ?? name;
+
+    // Non-registry packages have a source instead of a version in their key
+    const isRegistryVersion = !parsedKey.version.includes(':') && !parsedKey.version.includes('/');
+
+    const version = isRegistryVersion ? parsedKey.version : (entry.version ?? '');
+
+    const item: NpmListDepItem = {
+      version,
+      resolved: getResolved(packageName, version, entry, npmConfig),
+      location: key,
+    };
+
+    if (entry.resolution?.integrity) {
+      item.integrity = entry.resolution.integrity;
+    }
+
+    items.set(key, item);
+
+    const deps = { ...snapshot?.optionalDependencies, ...snapshot?.dependencies };
+
+    if (Object.keys(deps).length) {
+      item.dependencies = resolveDependencies(deps, ROOT_IMPORTER_ID);
+    }
+
+    return item;
+  };
+
+  // Every other importer is a workspace package, keyed by its path like packages/a
+  const workspaces: Record<string, Record<string, NpmListDepItem>> = {};
+
+  for (const importerId of Object.keys(importers)) {
+    if (importerId !== ROOT_IMPORTER_ID) {
+      workspaces[importerId] = resolveDependencies(getImporterDependencies(importerId), importerId);
+    }
+  }
+
+  return {
+    name: '',
+    version: '',
+    dependencies: resolveDependencies(getImporterDependencies(ROOT_IMPORTER_ID), ROOT_IMPORTER_ID),
+    workspaces,
+  };
+};
+
+export default parsePnpmLock;
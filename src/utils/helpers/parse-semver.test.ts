@@ -0,0 +1,45 @@
+import parseSemver from '@/utils/helpers/parse-semver';
+
+describe('parseSemver', () => {
+  it('should parse release versions', () => {
+    expect(parseSemver('1.2.3')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: [],
+      build: [],
+    });
+  });
+
+  it('should parse prerelease identifiers and build metadata', () => {
+    expect(parseSemver('1.0.0-rc.1+build.5')).toEqual({
+      major: 1,
+      minor: 0,
+      patch: 0,
+      prerelease: ['rc', 1],
+      build: ['build', '5'],
+    });
+
+    expect(parseSemver('1.0.0-0.3.7')?.prerelease).toEqual([0, 3, 7]);
+
+    expect(parseSemver('1.0.0-x-y-z.--')?.prerelease).toEqual(['x-y-z', '--']);
+  });
+
+  it('should ignore a leading v or =', () => {
+    expect(parseSemver('v2.0.0')?.major).toBe(2);
+
+    expect(parseSemver('=2.0.0')?.major).toBe(2);
+  });
+
+  it('should return undefined for invalid versions', () => {
+    expect(parseSemver('1.2')).toBe(undefined);
+
+    expect(parseSemver('1.2.3.4')).toBe(undefined);
+
+    expect(parseSemver('01.2.3')).toBe(undefined);
+
+    expect(parseSemver('1.2.3-01')).toBe(undefined);
+
+    expect(parseSemver('latest')).toBe(undefined);
+  });
+});
@@ -0,0 +1,40 @@
+import type { SemVer } from '@/utils/types';
+
+// Semantic Versioning 2.0.0, see https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parses a semantic version following the Semantic Versioning 2.0.0 specification.
+ * A leading "v" or "=" is ignored, like npm does.
+ *
+ * @param {string} version - The version to parse
+ * @returns {SemVer | undefined} The parsed version, or undefined if it isn't a valid semantic version
+ * @example
+ * // Returns { major: 1, minor: 0, patch: 0, prerelease: ['rc', 1], build: ['build', '5'] }
+ * parseSemver('1.0.0-rc.1+build.5')
+ *
+ * // Returns undefined
+ * parseSemver('1.2.3.4')
+ */
+const parseSemver = (version: string): SemVer | undefined => {
+  const match = SEMVER_PATTERN.exec(version.trim().replace(/^[=v]+/, ''));
+
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+      ? match[4]
+          .split('.')
+          .map((identifier) => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+      : [],
+    build: match[5] ? match[5].split('.') : [],
+  };
+};
+
+export default parseSemver;
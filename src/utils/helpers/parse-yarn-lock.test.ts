@@ -0,0 +1,293 @@
+import parseYarnLock from '@/utils/helpers/parse-yarn-lock';
+
+describe('parseYarnLock', () => {
+  describe('Yarn classic lockfiles', () => {
+    const content = `# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.
+# yarn lockfile v1
+
+
+"@types/node@>=18.0.0 <19.0.0":
+  version "18.19.0"
+  resolved "https://registry.yarnpkg.com/@types/node/-/node-18.19.0.tgz#f4e0f6b4e7c8a4a3b2e1d0c9b8a7f6e5d4c3b2a1"
+  integrity sha512-node
+
+axios@~1.4.0:
+  version "1.4.0"
+  resolved "https://registry.yarnpkg.com/axios/-/axios-1.4.0.tgz#38a7bf1224cd308de271146038b551d725f0be1f"
+  integrity sha512-axios
+  dependencies:
+    follow-redirects "^1.15.0"
+    proxy-from-env "^1.1.0"
+
+"debug@npm:ms@^2.1.3", ms@^2.1.1:
+  version "2.1.3"
+  resolved "https://registry.yarnpkg.com/ms/-/ms-2.1.3.tgz#574c8138ce1d2b5861f0b44579dbadd60c6615b2"
+  integrity sha512-ms
+
+follow-redirects@^1.15.0:
+  version "1.15.2"
+  resolved "https://registry.yarnpkg.com/follow-redirects/-/follow-redirects-1.15.2.tgz#b460864144ba63f2681096f274c4e57026da2c13"
+  integrity sha512-follow
+  optionalDependencies:
+    ms "^2.1.1"
+
+"glob@git+https://github.com/isaacs/node-glob.git":
+  version "10.3.3"
+  resolved "git+https://github.com/isaacs/node-glob.git#3a08b9a8c1c5d9b8f4e6e5b5c7d3e2a1f0b9c8d7"
+
+"is-odd@file:./local-packages/is-odd":
+  version "3.0.1"
+`;
+
+    const npmListData = parseYarnLock(content, {
+      '@types/node': '>=18.0.0 <19.0.0',
+      axios: '~1.4.0',
+      debug: 'npm:ms@^2.1.3',
+      glob: 'git+https://github.com/isaacs/node-glob.git',
+      'is-odd': 'file:./local-packages/is-odd',
+      'not-installed': '^1.0.0',
+    });
+
+    it('should include the direct dependencies found in the lockfile', () => {
+      expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+        ['@types/node', 'axios', 'debug', 'glob', 'is-odd'].sort()
+      );
+    });
+
+    it('should include the version, resolved URL and integrity', () => {
+      expect(npmListData.dependencies.axios).toMatchObject({
+        version: '1.4.0',
+        resolved:
+          'https://registry.yarnpkg.com/axios/-/axios-1.4.0.tgz#38a7bf1224cd308de271146038b551d725f0be1f',
+        integrity: 'sha512-axios',
+        location: 'axios@1.4.0',
+      });
+
+      expect(npmListData.dependencies['@types/node'].version).toBe('18.19.0');
+    });
+
+    it('should resolve npm aliases, git and local dependencies', () => {
+      expect(npmListData.dependencies.debug.resolved).toBe(
+        'https://registry.yarnpkg.com/ms/-/ms-2.1.3.tgz#574c8138ce1d2b5861f0b44579dbadd60c6615b2'
+      );
+
+      expect(npmListData.dependencies.glob.resolved).toBe(
+        'git+https://github.com/isaacs/node-glob.git#3a08b9a8c1c5d9b8f4e6e5b5c7d3e2a1f0b9c8d7'
+      );
+
+      expect(npmListData.dependencies['is-odd']).toMatchObject({
+        version: '3.0.1',
+        resolved: 'file:local-packages/is-odd',
+      });
+    });
+
+    it('should resolve transitive dependencies through their descriptors', () => {
+      const followRedirects = npmListData.dependencies.axios.dependencies?.['follow-redirects'];
+
+      expect(followRedirects?.version).toBe('1.15.2');
+
+      expect(followRedirects?.requires).toEqual({ ms: '^2.1.1' });
+
+      // debug@npm:ms@^2.1.3 and ms@^2.1.1 share the same entry
+      expect(followRedirects?.dependencies?.ms).toBe(npmListData.dependencies.debug);
+    });
+  });
+
+  describe('Yarn Berry lockfiles', () => {
+    const content = `# This file is generated by running "yarn install" inside your project.
+# Manual changes might be lost - proceed with caution!
+
+__metadata:
+  version: 8
+  cacheKey: 10c0
+
+"@acme/ui@workspace:packages/ui, @acme/ui@workspace:^":
+  version: 0.0.0-use.local
+  resolution: "@acme/ui@workspace:packages/ui"
+  dependencies:
+    axios: "npm:~1.4.0"
+  languageName: unknown
+  linkType: soft
+
+"axios@npm:~1.4.0":
+  version: 1.4.0
+  resolution: "axios@npm:1.4.0"
+  dependencies:
+    follow-redirects: "npm:^1.15.0"
+  checksum: 10c0/a925a07590b0ec1d4daf28cd27890f930daab980371558deb3b883af174b881da09e5ba2cb8393a648fda5859e39934982d0b8b092fe89fc84cb6c80a70a1910
+  languageName: node
+  linkType: hard
+
+"commander@https://github.com/tj/commander.js.git#v10.0.1":
+  version: 10.0.1
+  resolution: "commander@https://github.com/tj/commander.js.git#commit=33195f18a7c4f3f7e3a1c8f3d4e5f6a7b8c9d0e1"
+  languageName: node
+  linkType: hard
+
+"debug@npm:ms@^2.1.3, ms@npm:^2.1.1":
+  version: 2.1.3
+  resolution: "ms@npm:2.1.3"
+  languageName: node
+  linkType: hard
+
+"demo@workspace:.":
+  version: 0.0.0-use.local
+  resolution: "demo@workspace:."
+  dependencies:
+    "@acme/ui": "workspace:^"
+    axios: "npm:~1.4.0"
+    commander: "https://github.com/tj/commander.js.git#v10.0.1"
+    debug: "npm:ms@^2.1.3"
+    fsevents: "npm:^2.3.2"
+    is-odd: "file:./local-packages/is-odd"
+    left-pad: "portal:../left-pad"
+    lodash: "patch:lodash@npm%3A4.17.15#~/.yarn/patches/lodash-npm-4.17.15-6d9b1b2e3f.patch"
+  languageName: unknown
+  linkType: soft
+
+"follow-redirects@npm:^1.15.0":
+  version: 1.15.2
+  resolution: "follow-redirects@npm:1.15.2"
+  dependencies:
+    debug: "npm:ms@^2.1.3"
+  languageName: node
+  linkType: hard
+
+"fsevents@npm:^2.3.2":
+  version: 2.3.3
+  resolution: "fsevents@npm:2.3.3"
+  conditions: os=darwin
+  languageName: node
+  linkType: hard
+
+"fsevents@patch:fsevents@npm%3A^2.3.2#optional!builtin<compat/fsevents>":
+  version: 2.3.3
+  resolution: "fsevents@patch:fsevents@npm%3A2.3.3#optional!builtin<compat/fsevents>::version=2.3.3&hash=df0bf1"
+  conditions: os=darwin
+  languageName: node
+  linkType: hard
+
+"is-odd@file:./local-packages/is-odd::locator=demo%40workspace%3A.":
+  version: 3.0.1
+  resolution: "is-odd@file:./local-packages/is-odd#./local-packages/is-odd::hash=8288f6&locator=demo%40workspace%3A."
+  languageName: node
+  linkType: hard
+
+"lodash@patch:lodash@npm%3A4.17.15#~/.yarn/patches/lodash-npm-4.17.15-6d9b1b2e3f.patch::locator=demo%40workspace%3A.":
+  version: 4.17.15
+  resolution: "lodash@patch:lodash@npm%3A4.17.15#~/.yarn/patches/lodash-npm-4.17.15-6d9b1b2e3f.patch::version=4.17.15&hash=7a0d2e&locator=demo%40workspace%3A."
+  languageName: node
+  linkType: hard
+
+"left-pad@portal:../left-pad::locator=demo%40workspace%3A.":
+  version: 0.0.0-use.local
+  resolution: "left-pad@portal:../left-pad::locator=demo%40workspace%3A."
+  languageName: node
+  linkType: soft
+`;
+
+    const npmListData = parseYarnLock(content, {
+      '@acme/ui': 'workspace:^',
+      axios: '~1.4.0',
+      commander: 'github:tj/commander.js#v10.0.1',
+      debug: 'npm:ms@^2.1.3',
+      fsevents: '^2.3.2',
+      'is-odd': 'file:./local-packages/is-odd',
+      'left-pad': 'portal:../left-pad',
+      lodash: 'patch:lodash@npm%3A4.17.15#~/.yarn/patches/lodash-npm-4.17.15-6d9b1b2e3f.patch',
+    });
+
+    it('should include every direct dependency', () => {
+      expect(Object.keys(npmListData.dependencies).sort()).toEqual(
+        [
+          '@acme/ui',
+          'axios',
+          'commander',
+          'debug',
+          'fsevents',
+          'is-odd',
+          'left-pad',
+          'lodash',
+        ].sort()
+      );
+    });
+
+    it('should map npm: resolutions to registry tarball URLs', () => {
+      expect(npmListData.dependencies.axios).toMatchObject({
+        version: '1.4.0',
+        resolved: 'https://registry.npmjs.org/axios/-/axios-1.4.0.tgz',
+        location: 'axios@npm:1.4.0',
+      });
+
+      expect(npmListData.dependencies.debug).toMatchObject({
+        version: '2.1.3',
+        resolved: 'https://registry.npmjs.org/ms/-/ms-2.1.3.tgz',
+      });
+    });
+
+    it('should map patched npm packages to the registry tarball of the original package', () => {
+      expect(npmListData.dependencies.lodash).toMatchObject({
+        version: '4.17.15',
+        resolved: 'https://registry.npmjs.org/lodash/-/lodash-4.17.15.tgz',
+      });
+    });
+
+    it('should map workspace:, portal: and file: resolutions to local folders', () => {
+      expect(npmListData.dependencies['@acme/ui']).toMatchObject({
+        version: '',
+        resolved: 'file:packages/ui',
+      });
+
+      expect(npmListData.dependencies['left-pad']).toMatchObject({
+        version: '',
+        resolved: 'file:../left-pad',
+      });
+
+      expect(npmListData.dependencies['is-odd']).toMatchObject({
+        version: '3.0.1',
+        resolved: 'file:local-packages/is-odd',
+      });
+    });
+
+    it('should map git resolutions to the repository and commit', () => {
+      expect(npmListData.dependencies.commander).toMatchObject({
+        version: '10.0.1',
+        resolved:
+          'git+https://github.com/tj/commander.js.git#33195f18a7c4f3f7e3a1c8f3d4e5f6a7b8c9d0e1',
+      });
+    });
+
+    it('should resolve transitive dependencies and workspace dependencies', () => {
+      const followRedirects = npmListData.dependencies.axios.dependencies?.['follow-redirects'];
+
+      expect(followRedirects?.dependencies?.debug).toBe(npmListData.dependencies.debug);
+
+      expect(npmListData.dependencies['@acme/ui'].dependencies?.axios).toBe(
+        npmListData.dependencies.axios
+      );
+    });
+
+    it('should list the direct dependencies of each workspace by path', () => {
+      const npmListDataWithWorkspaces = parseYarnLock(content, {}, undefined, {
+        'packages/ui': { axios: '~1.4.0' },
+      });
+
+      expect(npmListDataWithWorkspaces.workspaces?.['packages/ui'].axios).toMatchObject({
+        version: '1.4.0',
+        location: 'axios@npm:1.4.0',
+      });
+    });
+
+    it('should use the configured registry for tarball URLs', () => {
+      const npmListDataWithConfig = parseYarnLock(
+        content,
+        { axios: '~1.4.0' },
+        { registry: 'https://npm.acme.dev/', scopes: {}, auth: {} }
+      );
+
+      expect(npmListDataWithConfig.dependencies.axios.resolved).toBe(
+        'https://npm.acme.dev/axios/-/axios-1.4.0.tgz'
+      );
+    });
+  });
+});
@@ -0,0 +1,311 @@
+import path from 'path';
+
+import { parse as parseYaml } from 'yaml';
+
+import getRegistryTarballUrl from '@/utils/helpers/get-registry-tarball-url';
+import type { NpmConfig, NpmListData, NpmListDepItem, YarnLockEntry } from '@/utils/types';
+
+// Version Yarn Berry records for workspaces, which have no published version
+const WORKSPACE_VERSION = '0.0.0-use.local';
+
+const unquote = (value: string): string =>
+  value.length > 1 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1) : value;
+
+// Ranges like npm:, file:, workspace: or git+https: start with a protocol, plain semver ranges don't
+const hasProtocol = (range: string): boolean => /^[a-z][a-z0-9+.-]*:/i.test(range);
+
+/**
+ * Splits a `key value` line of a Yarn classic lockfile, e.g. `"@babel/core" "^7.0.0"`
+ */
+const splitKeyValue = (text: string): [string, string] => {
+  const keyEnd = text.startsWith('"') ? text.indexOf('"', 1) + 1 : text.indexOf(' ');
+
+  if (keyEnd <= 0) {
+    return [unquote(text), ''];
+  }
+
+  return [unquote(text.slice(0, keyEnd)), unquote(text.slice(keyEnd).trim())];
+};
+
+/**
+ * Parses the indentation based text format of Yarn classic (v1) lockfiles
+ * @returns The entries keyed by every descriptor they were resolved for
+ */
+const parseClassicLockfile = (content: string): Record<string, YarnLockEntry> => {
+  const entries: Record<string, YarnLockEntry> = {};
+
+  let entry: YarnLockEntry | undefined;
+
+  let section: Record<string, string> | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const text = line.trim();
+
+    if (!text || text.startsWith('#')) {
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+
+    // Entries start with their descriptors, e.g. `debug@^4.3.1, debug@^4.3.2:`
+    if (indent === 0) {
+      entry = { version: '' };
+
+      section = undefined;
+
+      for (const descriptor of text.replace(/:$/, '').split(/,\s*/)) {
+        entries[unquote(descriptor)] = entry;
+      }
+
+      continue;
+    }
+
+    if (!entry) {
+      continue;
+    }
+
+    // Nested sections like `dependencies:` contain one `name range` pair per line
+    if (text.endsWith(':')) {
+      section = {};
+
+      entry[unquote(text.slice(0, -1))] = section;
+
+      continue;
+    }
+
+    const [key, value] = splitKeyValue(text);
+
+    if (indent > 2 && section) {
+      section[key] = value;
+    } else {
+      section = undefined;
+
+      entry[key] = value;
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Parses the YAML format of Yarn Berry (v2+) lockfiles
+ * @returns The entries keyed by every descriptor they were resolved for
+ */
+const parseBerryLockfile = (content: string): Record<string, YarnLockEntry> => {
+  const entries: Record<string, YarnLockEntry> = {};
+
+  const lockfile = (parseYaml(content) ?? {}) as Record<string, YarnLockEntry>;
+
+  for (const [key, entry] of Object.entries(lockfile)) {
+    if (key === '__metadata') {
+      continue;
+    }
+
+    for (const descriptor of key.split(/,\s*/)) {
+      entries[descriptor] = entry;
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Splits a descriptor or locator into the package name and its range or reference
+ * e.g. @types/node@npm:^18.0.0 -> ['@types/node', 'npm:^18.0.0']
+ */
+const splitDescriptor = (descriptor: string): [string, string] => {
+  const atIndex = descriptor.indexOf('@', 1);
+
+  return atIndex === -1
+    ? [descriptor, '']
+    : [descriptor.slice(0, atIndex), descriptor.slice(atIndex + 1)];
+};
+
+// Local paths are reported relative to the project root, like npm does, e.g. file:local/is-odd
+const toFileSource = (localPath: string): string => `file:${path.posix.normalize(localPath)}`;
+
+/**
+ * Maps a Yarn Berry resolution (locator) to the source npm would record in `resolved`
+ * - npm: packages and patched npm: packages point to the registry tarball
+ * - workspace:, portal:, link: and file: packages point to the local folder
+ * - git repositories are reported as git+<url>#<commit>
+ */
+const getBerrySource = (resolution: string, npmConfig?: NpmConfig): string => {
+  const [name, reference] = splitDescriptor(resolution);
+
+  if (reference.startsWith('npm:')) {
+    return getRegistryTarballUrl(name, reference.slice('npm:'.length), npmConfig);
+  }
+
+  // Patches are applied on top of another locator, e.g. patch:fsevents@npm%3A2.3.3#...
+  if (reference.startsWith('patch:')) {
+    const patchedLocator = decodeURIComponent(reference.slice('patch:'.length).split('#')[0]);
+
+    return getBerrySource(patchedLocator, npmConfig);
+  }
+
+  const protocol = reference.slice(0, reference.indexOf(':') + 1);
+
+  if (['workspace:', 'portal:', 'link:', 'file:'].includes(protocol)) {
+    const localPath = reference.slice(protocol.length).split('::')[0].split('#')[0];
+
+    return toFileSource(localPath);
+  }
+
+  const [url, hash = ''] = reference.split('#');
+
+  const commit = /(?:^|&)commit=([^&]+)/.exec(hash)?.[1];
+
+  if (commit) {
+    return `${url.startsWith('git+') ? url : `git+${url}`}#${commit}`;
+  }
+
+  return reference;
+};
+
+/**
+ * Converts a yarn.lock file into the structure produced by `npm list --json --package-lock-only`,
+ * so Yarn projects are analyzed like npm projects.
+ *
+ * Supports the text format of Yarn classic (v1) and the YAML format of Yarn Berry (v2+),
+ * which is recognized by its `__metadata` entry. Each package.json descriptor (name@range)
+ * is mapped to the entry it was resolved to, so installed versions and sources are available.
+ *
+ * @param {string} content - The contents of yarn.lock
+ * @param {Record<string, string>} dependencies - The ranges required in package.json, keyed by package name
+ * @param {NpmConfig} [npmConfig] - The resolved npm configuration, used to build registry tarball URLs
+ * @param {Record<string, Record<string, string>>} [workspaces] - The ranges required by each workspace package, keyed by its path
+ * @returns {NpmListData} The dependency tree with installed versions and sources
+ */
+const parseYarnLock = (
+  content: string,
+  dependencies: Record<string, string>,
+  npmConfig?: NpmConfig,
+  workspaces: Record<string, Record<string, string>> = {}
+): NpmListData => {
+  const isBerry = /^__metadata:/m.test(content);
+
+  const entries = isBerry ? parseBerryLockfile(content) : parseClassicLockfile(content);
+
+  // Local descriptors get a ::locator=... suffix in Yarn Berry, so they are also indexed without it
+  for (const [descriptor, entry] of Object.entries(entries)) {
+    const baseDescriptor = descriptor.split('::')[0];
+
+    entries[baseDescriptor] = entries[baseDescriptor] ?? entry;
+  }
+
+  const items = new Map<YarnLockEntry, NpmListDepItem>();
+
+  const findEntry = (name: string, range: string): YarnLockEntry | undefined =>
+    entries[`${name}@${range}`] ??
+    // Yarn Berry adds the npm: protocol to plain semver ranges
+    (isBerry && !hasProtocol(range) ? entries[`${name}@npm:${range}`] : undefined);
+
+  const getSource = (entry: YarnLockEntry, range: string): string => {
+    if (isBerry && entry.resolution) {
+      return getBerrySource(entry.resolution, npmConfig);
+    }
+
+    if (entry.resolved) {
+      return entry.resolved;
+    }
+
+    // Yarn classic doesn't record a source for local packages, so the range is used instead
+    return range.startsWith('file:') || range.startsWith('link:')
+      ? toFileSource(range.slice(range.indexOf(':') + 1))
+      : range;
+  };
+
+  const resolveDependencies = (deps: Record<string, string>): Record<string, NpmListDepItem> => {
+    const resolvedDependencies: Record<string, NpmListDepItem> = {};
+
+    for (const [name, range] of Object.entries(deps)) {
+      const item = getItem(name, range);
+
+      if (item) {
+        resolvedDependencies[name] = item;
+      }
+    }
+
+    return resolvedDependencies;
+  };
+
+  const getItem = (name: string, range: string): NpmListDepItem | undefined => {
+    const entry = findEntry(name, range);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const existingItem = items.get(entry);
+
+    if (existingItem) {
+      return existingItem;
+    }
+
+    const version = String(entry.version ?? '');
+
+    const item: NpmListDepItem = {
+      version: version === WORKSPACE_VERSION ? '' : version,
+      resolved: getSource(entry, range),
+      location: entry.resolution ?? `${name}@${version}`,
+    };
+
+    if (entry.integrity) {
+      item.integrity = entry.integrity;
+    }
+
+    // Register the item before resolving its dependencies to support cycles
+    items.set(entry, item);
+
+    const deps = { ...entry.optionalDependencies, ...entry.dependencies };
+
+    if (Object.keys(deps).length) {
+      item.requires = deps;
+
+      item.dependencies = resolveDependencies(deps);
+    }
+
+    return item;
+  };
+
+  // Yarn Berry records the normalized ranges of each workspace in its workspace entry, e.g. demo@workspace:.
+  const getWorkspaceRanges = (
+    workspacePath: string,
+    ranges: Record<string, string>
+  ): Record<string, string> => {
+    const workspaceEntry = isBerry
+      ? Object.values(entries).find((entry) =>
+          entry.resolution?.endsWith(`@workspace:${workspacePath}`)
+        )
+      : undefined;
+
+    const workspaceRanges: Record<string, string> = {};
+
+    for (const [name, range] of Object.entries(ranges)) {
+      workspaceRanges[name] =
+        workspaceEntry?.dependencies?.[name] ??
+        workspaceEntry?.optionalDependencies?.[name] ??
+        range;
+    }
+
+    return workspaceRanges;
+  };
+
+  const workspaceDependencies: Record<string, Record<string, NpmListDepItem>> = {};
+
+  for (const [workspacePath, ranges] of Object.entries(workspaces)) {
+    workspaceDependencies[workspacePath] = resolveDependencies(
+      getWorkspaceRanges(workspacePath, ranges)
+    );
+  }
+
+  return {
+    name: '',
+    version: '',
+    dependencies: resolveDependencies(getWorkspaceRanges('.', dependencies)),
+    workspaces: workspaceDependencies,
+  };
+};
+
+export default parseYarnLock;
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import RegistryCache from '@/utils/helpers/registry-cache';
+
+describe('RegistryCache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should return undefined for a missing entry', async () => {
+    const cache = new RegistryCache(cacheDir);
+
+    expect(await cache.get('https://registry.npmjs.org/lodash')).toBeUndefined();
+  });
+
+  it('should store and read entries', async () => {
+    const cache = new RegistryCache(cacheDir);
+
+    const entry = {
+      url: 'https://registry.npmjs.org/lodash',
+      etag: '"abc"',
+      storedAt: 1000,
+      data: { name: 'lodash' },
+    };
+
+    await cache.set(entry.url, entry);
+
+    expect(await cache.get(entry.url)).toEqual(entry);
+  });
+
+  it('should create the cache directory if it does not exist', async () => {
+    const cache = new RegistryCache(path.join(cacheDir, 'nested'));
+
+    await cache.set('key', { url: 'key', storedAt: 1000, data: {} });
+
+    expect(await cache.get('key')).toEqual({ url: 'key', storedAt: 1000, data: {} });
+  });
+
+  it('should treat corrupted entries as missing', async () => {
+    const cache = new RegistryCache(cacheDir);
+
+    await cache.set('key', { url: 'key', storedAt: 1000, data: {} });
+
+    const [file] = fs.readdirSync(cacheDir);
+
+    fs.writeFileSync(path.join(cacheDir, file), '{ not json');
+
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('should remove all entries when cleaned', async () => {
+    const cache = new RegistryCache(cacheDir);
+
+    await cache.set('a', { url: 'a', storedAt: 1000, data: {} });
+
+    await cache.set('b', { url: 'b', storedAt: 1000, data: {} });
+
+    expect(cache.clean()).toBe(2);
+
+    expect(await cache.get('a')).toBeUndefined();
+
+    expect(cache.clean()).toBe(0);
+  });
+
+  it('should return 0 when cleaning a cache directory that does not exist', () => {
+    const cache = new RegistryCache(path.join(cacheDir, 'missing'));
+
+    expect(cache.clean()).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A cached registry response together with the validators needed to revalidate it
+ */
+export type RegistryCacheEntry<T = unknown> = {
+  url: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  data: T;
+};
+
+/**
+ * A persistent on-disk cache for registry responses.
+ * Each response is stored as a JSON file named after the hash of its cache key.
+ */
+class RegistryCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Returns the cache directory
+   */
+  public getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Reads a cached entry
+   * @param key The cache key, usually the request URL
+   * @returns The cached entry, or undefined if it doesn't exist or can't be read
+   */
+  public async get<T>(key: string): Promise<RegistryCacheEntry<T> | undefined> {
+    try {
+      const content = await fs.promises.readFile(this.getEntryPath(key), 'utf8');
+
+      return JSON.parse(content) as RegistryCacheEntry<T>;
+    } catch {
+      // Missing or corrupted entries are treated as cache misses
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes an entry to the cache. Failures are ignored, as the cache is only an optimization.
+   * @param key The cache key, usually the request URL
+   * @param entry The entry to store
+   */
+  public async set<T>(key: string, entry: RegistryCacheEntry<T>): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+
+      // Write to a temporary file first so concurrent readers never see partial entries
+      const entryPath = this.getEntryPath(key);
+
+      const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+      await fs.promises.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+
+      await fs.promises.rename(tempPath, entryPath);
+    } catch {
+      // Ignore cache write errors
+    }
+  }
+
+  /**
+   * Removes all entries from the cache
+   * @returns The number of removed entries
+   */
+  public clean(): number {
+    if (!fs.existsSync(this.dir)) {
+      return 0;
+    }
+
+    // Only the cached documents are removed, never directories or other files kept next to them
+    const files = fs
+      .readdirSync(this.dir, { withFileTypes: true })
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.json'))
+      .map((entry) => entry.name);
+
+    for (const file of files) {
+      fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+
+    return files.length;
+  }
+
+  private getEntryPath(key: string): string {
+    const hash = crypto.createHash('sha256').update(key).digest('hex');
+
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
+
+export default RegistryCache;
@@ -0,0 +1,99 @@
+import rewriteRange from '@/utils/helpers/rewrite-range';
+
+describe('rewriteRange', () => {
+  it('should move exact, caret and tilde ranges to the target', () => {
+    expect(rewriteRange('1.2.3', '2.0.1')).toBe('2.0.1');
+
+    expect(rewriteRange('^1.2.3', '1.5.0')).toBe('^1.5.0');
+
+    expect(rewriteRange('~1.2.3', '2.0.1')).toBe('~2.0.1');
+
+    expect(rewriteRange('=1.2.3', '1.2.4')).toBe('=1.2.4');
+  });
+
+  it('should keep the precision of X-ranges', () => {
+    expect(rewriteRange('5.x', '6.1.0')).toBe('6.x');
+
+    expect(rewriteRange('5.x', '5.3.0')).toBe('5.x');
+
+    expect(rewriteRange('1.2.x', '1.5.3')).toBe('1.5.x');
+
+    expect(rewriteRange('~1.2', '2.0.3')).toBe('~2.0');
+
+    expect(rewriteRange('4', '5.1.0')).toBe('5');
+  });
+
+  it('should bump lower bounds and raise upper bounds when needed', () => {
+    expect(rewriteRange('>=18.2.0', '19.1.0')).toBe('>=19.1.0');
+
+    expect(rewriteRange('>4.0.0', '4.2.0')).toBe('>=4.2.0');
+
+    expect(rewriteRange('>=4.17.21 <5.0.0', '4.18.0')).toBe('>=4.18.0 <5.0.0');
+
+    expect(rewriteRange('>=4.17.21 <5.0.0', '5.1.0')).toBe('>=5.1.0 <6.0.0');
+
+    expect(rewriteRange('>= 1.2.0 < 1.3.0', '1.4.2')).toBe('>=1.4.2 <1.5.0');
+
+    expect(rewriteRange('>=1.0.0 <=1.4.0', '1.6.0')).toBe('>=1.6.0 <=1.7.0');
+
+    expect(rewriteRange('>1.0.0 <=1.5.0', '2.1.0')).toBe('>=2.1.0 <=2.2.0');
+
+    expect(rewriteRange('>=1.0.0 <=1.4', '2.1.0')).toBe('>=2.1.0 <=2.1');
+
+    expect(rewriteRange('<2.0.0', '1.5.0')).toBe('<2.0.0');
+
+    expect(rewriteRange('<2.0.0', '3.1.0')).toBe('<4.0.0');
+
+    expect(rewriteRange('>=4.0.0 <5', '6.3.1')).toBe('>=6.3.1 <7');
+
+    expect(rewriteRange('>=4 <5.0', '6.3.1')).toBe('>=6 <6.4');
+
+    expect(rewriteRange('>= 1.2.3 < 2', '2.0.1')).toBe('>=2.0.1 <3');
+
+    expect(rewriteRange('>=4.0.0 <5.x', '6.3.1')).toBe('>=6.3.1 <7.x');
+  });
+
+  it('should rewrite hyphen ranges', () => {
+    expect(rewriteRange('1.2.3 - 2.3.4', '2.0.0')).toBe('2.0.0 - 2.3.4');
+
+    expect(rewriteRange('1.2.3 - 2.3', '3.1.0')).toBe('3.1.0 - 3.1');
+
+    expect(rewriteRange('1.2.3 - 2.3.4', '3.1.0')).toBe('3.1.0 - 3.1.1');
+  });
+
+  it('should extend unions or update the alternative including the target', () => {
+    expect(rewriteRange('^1.0.0 || ^2.0.0', '3.1.0')).toBe('^1.0.0 || ^2.0.0 || ^3.1.0');
+
+    expect(rewriteRange('^1.0.0 || ^2.0.0', '2.5.0')).toBe('^1.0.0 || ^2.5.0');
+  });
+
+  it('should leave ranges allowing any version and dist-tags alone', () => {
+    expect(rewriteRange('*', '2.0.0')).toBe('*');
+
+    expect(rewriteRange('x', '2.0.0')).toBe('x');
+
+    expect(rewriteRange('', '2.0.0')).toBe('');
+
+    expect(rewriteRange('latest', '2.0.0')).toBe('latest');
+
+    expect(rewriteRange('next', '2.0.0', 'caret')).toBe('next');
+  });
+
+  it('should keep npm alias prefixes', () => {
+    expect(rewriteRange('npm:ms@^2.1.0', '2.1.3')).toBe('npm:ms@^2.1.3');
+
+    expect(rewriteRange('npm:@acme/ui@~1.0.0', '1.1.0', 'exact')).toBe('npm:@acme/ui@1.1.0');
+  });
+
+  it('should normalize ranges to the selected style', () => {
+    expect(rewriteRange('>=4.17.21 <5.0.0', '5.1.0', 'caret')).toBe('^5.1.0');
+
+    expect(rewriteRange('^1.0.0 || ^2.0.0', '3.1.0', 'tilde')).toBe('~3.1.0');
+
+    expect(rewriteRange('5.x', '6.1.0', 'exact')).toBe('6.1.0');
+  });
+
+  it('should support prerelease targets', () => {
+    expect(rewriteRange('^2.0.0', '3.0.0-beta.1')).toBe('^3.0.0-beta.1');
+  });
+});
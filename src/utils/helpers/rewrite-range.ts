@@ -0,0 +1,214 @@
+import parseSemver from '@/utils/helpers/parse-semver';
+import satisfiesRange from '@/utils/helpers/satisfies-range';
+import type { RangeStyle, SemVer } from '@/utils/types';
+
+const COMPARATOR_PATTERN = /^(~>?|\^|>=|<=|>|<|=)?v?(.*)$/;
+
+const PARTIAL_VERSION_PATTERN =
+  /^(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const HYPHEN_RANGE_PATTERN = /^(\S+)\s+-\s+(\S+)$/;
+
+// npm aliases keep their prefix, e.g. npm:ms@^2.1.3
+const ALIAS_PATTERN = /^(npm:(?:@[^/@]+\/)?[^@]+@)(.*)$/;
+
+/**
+ * Formats the target version with the same parts as a partial version, keeping wildcards,
+ * e.g. 5.x becomes 6.x and ~1.2 becomes ~2.0 for the target 2.0.3
+ */
+const formatLike = (version: string, target: SemVer, targetVersion: string): string => {
+  const match = PARTIAL_VERSION_PATTERN.exec(version);
+
+  if (!match) {
+    return version;
+  }
+
+  const parts = match.slice(1, 4).filter((part) => part !== undefined);
+
+  if (parts.length === 3 && parts.every((part) => /^\d+$/.test(part))) {
+    return targetVersion.replace(/\+.*$/, '');
+  }
+
+  const targetParts = [target.major, target.minor, target.patch];
+
+  return parts
+    .map((part, index) => (/^\d+$/.test(part) ? String(targetParts[index]) : part))
+    .join('.');
+};
+
+/**
+ * Returns the first version above the target with the same shape as an upper bound, e.g. <5.0.0
+ * becomes <7.0.0 and <5.2.0 becomes <6.4.0 for the target 6.3.1. Partial versions are raised at
+ * their own precision, e.g. <5 becomes <7 and <5.0 becomes <6.4.
+ */
+const raiseUpperBound = (version: string, target: SemVer): string => {
+  const parts = (PARTIAL_VERSION_PATTERN.exec(version)?.slice(1, 4) ?? []).filter(
+    (part) => part !== undefined
+  );
+
+  const firstWildcardIndex = parts.findIndex((part) => !/^\d+$/.test(part));
+
+  const precision = firstWildcardIndex === -1 ? parts.length : firstWildcardIndex;
+
+  if (precision < 3) {
+    const raisedParts = precision <= 1 ? [target.major + 1] : [target.major, target.minor + 1];
+
+    // Wildcards are kept, e.g. <5.x becomes <7.x
+    return [...raisedParts, ...parts.slice(raisedParts.length)].join('.');
+  }
+
+  const bound = parseSemver(version);
+
+  if (bound && bound.patch === 0 && bound.minor === 0) {
+    return `${target.major + 1}.0.0`;
+  }
+
+  if (bound && bound.patch === 0) {
+    return `${target.major}.${target.minor + 1}.0`;
+  }
+
+  return `${target.major}.${target.minor}.${target.patch + 1}`;
+};
+
+/**
+ * Raises an inclusive upper bound above the target. Partial versions already include every
+ * version they match, e.g. <=1.4 becomes <=2.1 for the target 2.1.0, while full versions are
+ * raised like exclusive bounds, e.g. <=1.5.0 becomes <=2.2.0, so the range doesn't collapse
+ * to the target alone.
+ */
+const raiseInclusiveUpperBound = (
+  version: string,
+  target: SemVer,
+  targetVersion: string
+): string =>
+  parseSemver(version)
+    ? raiseUpperBound(version, target)
+    : formatLike(version, target, targetVersion);
+
+/**
+ * Rewrites a single comparator so it includes the target version. Lower bounds and exact,
+ * caret, tilde and X-ranges move to the target, upper bounds are only raised if needed.
+ */
+const rewriteComparator = (comparator: string, target: SemVer, targetVersion: string): string => {
+  const [, operator = '', version] = COMPARATOR_PATTERN.exec(comparator) ?? [];
+
+  if (!PARTIAL_VERSION_PATTERN.test(version)) {
+    return comparator;
+  }
+
+  if (operator === '<' || operator === '<=') {
+    if (satisfiesRange(targetVersion, comparator)) {
+      return comparator;
+    }
+
+    return operator === '<'
+      ? `<${raiseUpperBound(version, target)}`
+      : `<=${raiseInclusiveUpperBound(version, target, targetVersion)}`;
+  }
+
+  // A lower bound excluding the target, e.g. >4.0.0, becomes inclusive
+  return `${operator === '>' ? '>=' : operator}${formatLike(version, target, targetVersion)}`;
+};
+
+/**
+ * Rewrites a set of comparators which must all be satisfied, e.g. >=4.17.21 <5.0.0 or 1.2.3 - 2.3
+ */
+const rewriteComparatorSet = (
+  comparatorSet: string,
+  target: SemVer,
+  targetVersion: string
+): string => {
+  const hyphenMatch = HYPHEN_RANGE_PATTERN.exec(comparatorSet);
+
+  if (hyphenMatch) {
+    const [, from, to] = hyphenMatch;
+
+    const newTo = satisfiesRange(targetVersion, `<=${to}`)
+      ? to
+      : raiseInclusiveUpperBound(to, target, targetVersion);
+
+    return `${formatLike(from, target, targetVersion)} - ${newTo}`;
+  }
+
+  return comparatorSet
+    .replace(/([<>=~^]+)\s+/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((comparator) => rewriteComparator(comparator, target, targetVersion))
+    .join(' ');
+};
+
+/**
+ * Rewrites a version range from package.json so that it includes the target version.
+ *
+ * With the "keep" style the range keeps its form: lower bounds move to the target, upper bounds
+ * are raised when the target is above them, X-ranges keep their precision, and unions either
+ * update the alternative that includes the target or get a new alternative for it. The other
+ * styles replace the range with a caret (^), tilde (~) or exact range of the target.
+ * Ranges that allow any version (*, x or empty) and dist-tags like latest are left alone, and so is
+ * any range that can't be rewritten to include the target.
+ *
+ * @param {string} range - The range from package.json
+ * @param {string} targetVersion - The version to update to
+ * @param {RangeStyle} [style='keep'] - Whether to keep the form of the range or normalize it
+ * @returns {string} The rewritten range, the same range if it doesn't need to or can't change
+ * @example
+ * // Returns '>=5.1.0 <6.0.0'
+ * rewriteRange('>=4.17.21 <5.0.0', '5.1.0')
+ *
+ * // Returns '^1.0.0 || ^2.0.0 || ^3.1.0'
+ * rewriteRange('^1.0.0 || ^2.0.0', '3.1.0')
+ *
+ * // Returns '~3.1.0'
+ * rewriteRange('>=2.0.0', '3.1.0', 'tilde')
+ */
+const rewriteRange = (range: string, targetVersion: string, style: RangeStyle = 'keep'): string => {
+  const [, aliasPrefix = '', aliasRange = range] = ALIAS_PATTERN.exec(range) ?? [];
+
+  const target = parseSemver(targetVersion);
+
+  const trimmedRange = aliasRange.trim();
+
+  // Ranges allowing any version and non-semver ranges (dist-tags, URLs) have no bounds to move
+  if (!target || /^[xX*]?$/.test(trimmedRange) || !/^[\d\s<>=~^vxX*.|-]/.test(trimmedRange)) {
+    return range;
+  }
+
+  let newRange: string;
+
+  if (style === 'caret') {
+    newRange = `^${targetVersion}`;
+  } else if (style === 'tilde') {
+    newRange = `~${targetVersion}`;
+  } else if (style === 'exact') {
+    newRange = targetVersion;
+  } else {
+    const alternatives = trimmedRange.split('||').map((alternative) => alternative.trim());
+
+    const matchIndex = alternatives.findIndex((alternative) =>
+      satisfiesRange(targetVersion, alternative)
+    );
+
+    if (alternatives.length > 1 && matchIndex === -1) {
+      // Unions get a new alternative in the form of the last one, e.g. ^1.0.0 || ^2.0.0 || ^3.0.0
+      alternatives.push(
+        rewriteComparatorSet(alternatives[alternatives.length - 1], target, targetVersion)
+      );
+    } else {
+      const index = Math.max(matchIndex, 0);
+
+      alternatives[index] = rewriteComparatorSet(alternatives[index], target, targetVersion);
+    }
+
+    newRange = alternatives.join(' || ');
+  }
+
+  // Keep the original range rather than writing one that doesn't include the target
+  if (!satisfiesRange(targetVersion, newRange)) {
+    return range;
+  }
+
+  return `${aliasPrefix}${newRange}`;
+};
+
+export default rewriteRange;
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+
+import runCommand from '@/utils/helpers/run-command';
+
+describe('runCommand', () => {
+  it('should collect the output of a successful command', async () => {
+    const result = await runCommand('node -e "console.log(\'ok\')"', os.tmpdir());
+
+    expect(result).toEqual({ exitCode: 0, output: 'ok\n' });
+  });
+
+  it('should return the exit code and standard error of a failing command', async () => {
+    const result = await runCommand(
+      "node -e \"console.log('running'); console.error('failed'); process.exit(3)\"",
+      os.tmpdir()
+    );
+
+    expect(result.exitCode).toBe(3);
+
+    expect(result.output).toContain('running\n');
+
+    expect(result.output).toContain('failed\n');
+  });
+
+  it('should run the command in the given directory', async () => {
+    const result = await runCommand('node -e "console.log(process.cwd())"', os.tmpdir());
+
+    // The temporary directory may be a symlink, e.g. on macOS
+    expect(fs.realpathSync(result.output.trim())).toBe(fs.realpathSync(os.tmpdir()));
+  });
+
+  it('should pass arguments to the command without a shell', async () => {
+    const result = await runCommand('node', os.tmpdir(), [
+      '-e',
+      'console.log(process.argv[1])',
+      '$HOME | "quoted" && >',
+    ]);
+
+    expect(result).toEqual({ exitCode: 0, output: '$HOME | "quoted" && >\n' });
+  });
+
+  it('should return the exit code 1 if the command cannot be started', async () => {
+    const result = await runCommand('check-my-deps-missing-command', os.tmpdir(), []);
+
+    expect(result.exitCode).toBe(1);
+  });
+});
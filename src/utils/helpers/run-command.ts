@@ -0,0 +1,46 @@
+import { spawn } from 'child_process';
+
+import type { CommandResult } from '@/utils/types';
+
+/**
+ * Runs a shell command and collects its output. Standard output and standard error are combined
+ * in the order they are written, so the output reads like it would in a terminal.
+ * When arguments are given, the command is run directly instead, so they don't need quoting.
+ *
+ * @param {string} command - The command to run, e.g. npm test
+ * @param {string} cwd - The directory the command is run in
+ * @param {string[]} [args] - Arguments passed to the command without a shell
+ * @returns {Promise<CommandResult>} The exit code and output of the command. Commands that can't be
+ * started or are killed by a signal have the exit code 1.
+ * @example
+ * // Resolves to { exitCode: 0, output: 'added 3 packages in 2s\n' }
+ * await runCommand('npm install', '/path/to/project')
+ * // Resolves to { exitCode: 0, output: '[main 1a2b3c4] chore: release\n...' }
+ * await runCommand('git', '/path/to/project', ['commit', '-m', 'chore: release'])
+ */
+const runCommand = (command: string, cwd: string, args?: string[]): Promise<CommandResult> =>
+  new Promise((resolve) => {
+    let output = '';
+
+    const child = args
+      ? spawn(command, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] })
+      : spawn(command, { cwd, shell: true, stdio: ['ignore', 'pipe', 'pipe'] });
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+
+    child.stderr.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+    });
+
+    child.on('error', (error) => {
+      resolve({ exitCode: 1, output: `${output}${error.message}\n` });
+    });
+
+    child.on('close', (code) => {
+      resolve({ exitCode: code ?? 1, output });
+    });
+  });
+
+export default runCommand;
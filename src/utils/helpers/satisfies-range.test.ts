@@ -0,0 +1,101 @@
+import satisfiesRange from '@/utils/helpers/satisfies-range';
+
+describe('satisfiesRange', () => {
+  it('should support exact versions and primitive comparators', () => {
+    expect(satisfiesRange('1.2.3', '1.2.3')).toBe(true);
+
+    expect(satisfiesRange('1.2.4', '=1.2.3')).toBe(false);
+
+    expect(satisfiesRange('1.2.4', '>1.2.3')).toBe(true);
+
+    expect(satisfiesRange('1.2.3', '<1.2.3')).toBe(false);
+
+    expect(satisfiesRange('1.2.3', '<=1.2.3')).toBe(true);
+
+    expect(satisfiesRange('1.3.0', '>1.2')).toBe(true);
+
+    expect(satisfiesRange('1.2.9', '>1.2')).toBe(false);
+
+    expect(satisfiesRange('1.2.9', '<=1.2')).toBe(true);
+
+    expect(satisfiesRange('1.1.9', '<1.2')).toBe(true);
+  });
+
+  it('should support caret ranges', () => {
+    expect(satisfiesRange('1.9.9', '^1.2.3')).toBe(true);
+
+    expect(satisfiesRange('2.0.0', '^1.2.3')).toBe(false);
+
+    expect(satisfiesRange('0.2.9', '^0.2.3')).toBe(true);
+
+    expect(satisfiesRange('0.3.0', '^0.2.3')).toBe(false);
+
+    expect(satisfiesRange('0.0.4', '^0.0.3')).toBe(false);
+
+    expect(satisfiesRange('0.0.9', '^0.0')).toBe(true);
+
+    expect(satisfiesRange('0.9.0', '^0.x')).toBe(true);
+  });
+
+  it('should support tilde ranges', () => {
+    expect(satisfiesRange('1.2.9', '~1.2.3')).toBe(true);
+
+    expect(satisfiesRange('1.3.0', '~1.2.3')).toBe(false);
+
+    expect(satisfiesRange('1.9.0', '~1')).toBe(true);
+
+    expect(satisfiesRange('1.2.9', '~>1.2')).toBe(true);
+  });
+
+  it('should support X-ranges', () => {
+    expect(satisfiesRange('1.2.9', '1.2.x')).toBe(true);
+
+    expect(satisfiesRange('1.3.0', '1.2')).toBe(false);
+
+    expect(satisfiesRange('1.9.0', '1.X')).toBe(true);
+
+    expect(satisfiesRange('3.0.0', '*')).toBe(true);
+
+    expect(satisfiesRange('3.0.0', '')).toBe(true);
+  });
+
+  it('should support hyphen ranges', () => {
+    expect(satisfiesRange('1.2.3', '1.2.3 - 2.3.4')).toBe(true);
+
+    expect(satisfiesRange('2.3.5', '1.2.3 - 2.3.4')).toBe(false);
+
+    expect(satisfiesRange('2.3.9', '1.2.3 - 2.3')).toBe(true);
+
+    expect(satisfiesRange('2.4.0', '1.2.3 - 2.3')).toBe(false);
+
+    expect(satisfiesRange('1.2.0', '1.2 - 2')).toBe(true);
+  });
+
+  it('should support comparator sets and alternatives', () => {
+    expect(satisfiesRange('1.5.0', '>=1.2.3 <2.0.0')).toBe(true);
+
+    expect(satisfiesRange('2.0.0', '>= 1.2.3 < 2.0.0')).toBe(false);
+
+    expect(satisfiesRange('2.0.5', '^1.2.0 || ~2.0.0')).toBe(true);
+
+    expect(satisfiesRange('2.1.0', '^1.2.0 || ~2.0.0')).toBe(false);
+  });
+
+  it('should only match prereleases of versions named in the range', () => {
+    expect(satisfiesRange('1.2.3-beta.4', '>=1.2.3-beta.2 <2.0.0')).toBe(true);
+
+    expect(satisfiesRange('1.2.4-beta.4', '>=1.2.3-beta.2 <2.0.0')).toBe(false);
+
+    expect(satisfiesRange('2.0.0-rc.1', '^1.0.0')).toBe(false);
+
+    expect(satisfiesRange('2.0.0-rc.1', '*')).toBe(false);
+  });
+
+  it('should return false for invalid versions and ranges', () => {
+    expect(satisfiesRange('1.2', '^1.0.0')).toBe(false);
+
+    expect(satisfiesRange('1.2.3', 'latest')).toBe(false);
+
+    expect(satisfiesRange('1.2.3', 'github:isaacs/node-glob')).toBe(false);
+  });
+});
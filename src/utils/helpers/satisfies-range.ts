@@ -0,0 +1,287 @@
+import compareSemver from '@/utils/helpers/compare-semver';
+import parseSemver from '@/utils/helpers/parse-semver';
+import type { SemVer } from '@/utils/types';
+
+type Operator = '<' | '<=' | '>' | '>=' | '=';
+
+type Comparator = {
+  operator: Operator;
+  semver: SemVer;
+};
+
+// Version with optional parts, undefined parts are either missing or wildcards, e.g. 1.x
+type PartialVersion = {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  prerelease: SemVer['prerelease'];
+};
+
+const PARTIAL_VERSION_PATTERN =
+  /^v?(\d+|[xX*])?(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+const COMPARATOR_PATTERN = /^(~>?|\^|>=|<=|>|<|=)?(.*)$/;
+
+const HYPHEN_RANGE_PATTERN = /^(\S+)\s+-\s+(\S+)$/;
+
+const createSemver = (
+  major: number,
+  minor: number,
+  patch: number,
+  prerelease: SemVer['prerelease'] = []
+): SemVer => ({ major, minor, patch, prerelease, build: [] });
+
+const createComparator = (operator: Operator, semver: SemVer): Comparator => ({ operator, semver });
+
+// Upper bounds use the lowest prerelease so that prereleases of the next version are excluded, e.g. <2.0.0-0
+const createUpperBound = (major: number, minor: number, patch: number): Comparator =>
+  createComparator('<', createSemver(major, minor, patch, [0]));
+
+const parsePartialVersion = (version: string): PartialVersion | undefined => {
+  const match = PARTIAL_VERSION_PATTERN.exec(version);
+
+  if (!match) {
+    return undefined;
+  }
+
+  const parts: Array<number | undefined> = [];
+
+  // Parts following a wildcard are wildcards too, e.g. 1.x.3 is the same as 1.x
+  for (const part of match.slice(1, 4)) {
+    const previousIsWildcard = parts.length > 0 && parts[parts.length - 1] === undefined;
+
+    parts.push(
+      part === undefined || /^[xX*]$/.test(part) || previousIsWildcard ? undefined : Number(part)
+    );
+  }
+
+  const [major, minor, patch] = parts;
+
+  const prerelease =
+    patch !== undefined && match[4]
+      ? match[4]
+          .split('.')
+          .map((identifier) => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+      : [];
+
+  return { major, minor, patch, prerelease };
+};
+
+const getLowerBound = ({ major = 0, minor = 0, patch = 0, prerelease }: PartialVersion): SemVer =>
+  createSemver(major, minor, patch, prerelease);
+
+const parseTildeRange = (version: PartialVersion): Comparator[] => {
+  if (version.major === undefined) {
+    return [];
+  }
+
+  return [
+    createComparator('>=', getLowerBound(version)),
+    version.minor === undefined
+      ? createUpperBound(version.major + 1, 0, 0)
+      : createUpperBound(version.major, version.minor + 1, 0),
+  ];
+};
+
+const parseCaretRange = (version: PartialVersion): Comparator[] => {
+  const { major, minor, patch } = version;
+
+  if (major === undefined) {
+    return [];
+  }
+
+  const lowerBound = createComparator('>=', getLowerBound(version));
+
+  // Changes to the left-most non-zero part are breaking, e.g. ^0.2.3 allows 0.2.x
+  if (major > 0 || minor === undefined) {
+    return [lowerBound, createUpperBound(major + 1, 0, 0)];
+  }
+
+  if (minor > 0 || patch === undefined) {
+    return [lowerBound, createUpperBound(0, minor + 1, 0)];
+  }
+
+  return [lowerBound, createUpperBound(0, 0, patch + 1)];
+};
+
+const parsePrimitiveRange = (operator: Operator, version: PartialVersion): Comparator[] => {
+  const { major, minor, patch } = version;
+
+  if (major === undefined) {
+    // >* and <* can't be satisfied by any version
+    return operator === '<' || operator === '>'
+      ? [createComparator('<', createSemver(0, 0, 0, [0]))]
+      : [];
+  }
+
+  if (patch !== undefined) {
+    return [createComparator(operator, getLowerBound(version))];
+  }
+
+  switch (operator) {
+    case '>':
+      return [
+        createComparator(
+          '>=',
+          minor === undefined ? createSemver(major + 1, 0, 0) : createSemver(major, minor + 1, 0)
+        ),
+      ];
+
+    case '>=':
+      return [createComparator('>=', getLowerBound(version))];
+
+    case '<':
+      return [createUpperBound(major, minor ?? 0, 0)];
+
+    case '<=':
+      return [
+        minor === undefined
+          ? createUpperBound(major + 1, 0, 0)
+          : createUpperBound(major, minor + 1, 0),
+      ];
+
+    default:
+      // X-ranges, e.g. 1.2.x or 1.2
+      return parseTildeRange(version);
+  }
+};
+
+const parseComparator = (comparator: string): Comparator[] | undefined => {
+  const [, operator = '=', versionPart] = COMPARATOR_PATTERN.exec(comparator) ?? [];
+
+  const version = parsePartialVersion(versionPart);
+
+  if (!version) {
+    return undefined;
+  }
+
+  if (operator.startsWith('~')) {
+    return parseTildeRange(version);
+  }
+
+  if (operator === '^') {
+    return parseCaretRange(version);
+  }
+
+  return parsePrimitiveRange(operator as Operator, version);
+};
+
+const parseHyphenRange = (from: PartialVersion, to: PartialVersion): Comparator[] => {
+  const comparators: Comparator[] = [];
+
+  if (from.major !== undefined) {
+    comparators.push(createComparator('>=', getLowerBound(from)));
+  }
+
+  if (to.major !== undefined) {
+    comparators.push(...parsePrimitiveRange('<=', to));
+  }
+
+  return comparators;
+};
+
+/**
+ * Parses a set of comparators which must all be satisfied, e.g. >=1.2.3 <2.0.0
+ */
+const parseComparatorSet = (comparatorSet: string): Comparator[] | undefined => {
+  const hyphenMatch = HYPHEN_RANGE_PATTERN.exec(comparatorSet);
+
+  if (hyphenMatch) {
+    const from = parsePartialVersion(hyphenMatch[1]);
+
+    const to = parsePartialVersion(hyphenMatch[2]);
+
+    return from && to ? parseHyphenRange(from, to) : undefined;
+  }
+
+  const comparators: Comparator[] = [];
+
+  // Operators may be separated from their version by spaces, e.g. >= 1.2.3
+  const parts = comparatorSet
+    .replace(/([<>=~^]+)\s+/g, '$1')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  for (const part of parts) {
+    const parsed = parseComparator(part);
+
+    if (!parsed) {
+      return undefined;
+    }
+
+    comparators.push(...parsed);
+  }
+
+  return comparators;
+};
+
+const testComparator = (version: SemVer, { operator, semver }: Comparator): boolean => {
+  const comparison = compareSemver(version, semver);
+
+  switch (operator) {
+    case '<':
+      return comparison < 0;
+
+    case '<=':
+      return comparison <= 0;
+
+    case '>':
+      return comparison > 0;
+
+    case '>=':
+      return comparison >= 0;
+
+    default:
+      return comparison === 0;
+  }
+};
+
+const testComparatorSet = (version: SemVer, comparators: Comparator[]): boolean => {
+  if (!comparators.every((comparator) => testComparator(version, comparator))) {
+    return false;
+  }
+
+  if (!version.prerelease.length) {
+    return true;
+  }
+
+  // Prereleases only satisfy a range that opts into prereleases of the same version, e.g. >=1.2.3-beta.1
+  return comparators.some(
+    ({ semver }) =>
+      semver.prerelease.length > 0 &&
+      semver.major === version.major &&
+      semver.minor === version.minor &&
+      semver.patch === version.patch
+  );
+};
+
+/**
+ * Checks whether a version satisfies a semver range as used in package.json files.
+ * Supports comparators (<, <=, >, >=, =), comparator sets, caret, tilde, X and hyphen ranges,
+ * and ranges joined with ||.
+ *
+ * @param {string} version - The version to check
+ * @param {string} range - The range to check against
+ * @returns {boolean} True if the version satisfies the range, false if it doesn't or either of them is invalid
+ * @example
+ * // Returns true
+ * satisfiesRange('1.4.2', '^1.2.0 || ~2.0.0')
+ *
+ * // Returns false, prereleases are only matched by ranges that include a prerelease of the same version
+ * satisfiesRange('2.0.0-rc.1', '>=1.0.0')
+ */
+const satisfiesRange = (version: string, range: string): boolean => {
+  const semver = parseSemver(version);
+
+  if (!semver) {
+    return false;
+  }
+
+  return range.split('||').some((comparatorSet) => {
+    const comparators = parseComparatorSet(comparatorSet.trim());
+
+    return comparators !== undefined && testComparatorSet(semver, comparators);
+  });
+};
+
+export default satisfiesRange;
@@ -0,0 +1,74 @@
+import setDependencyVersion from '@/utils/helpers/set-dependency-version';
+
+describe('setDependencyVersion', () => {
+  it('should only replace the version string', () => {
+    const content = [
+      '{',
+      '    "name": "demo",',
+      '    "dependencies": {',
+      '        "lodash": "^4.17.15",',
+      '        "react":"^18.2.0"',
+      '    }',
+      '}',
+    ].join('\n');
+
+    expect(setDependencyVersion(content, 'dependencies', 'lodash', '^4.17.21')).toBe(
+      content.replace('^4.17.15', '^4.17.21')
+    );
+
+    expect(setDependencyVersion(content, 'dependencies', 'react', '^19.0.0')).toBe(
+      content.replace('"react":"^18.2.0"', '"react":"^19.0.0"')
+    );
+  });
+
+  it('should keep tabs, CRLF line endings and the final newline', () => {
+    const content = '{\r\n\t"dependencies": {\r\n\t\t"react": "^18.2.0"\r\n\t}\r\n}\r\n';
+
+    expect(setDependencyVersion(content, 'dependencies', 'react', '^19.0.0')).toBe(
+      '{\r\n\t"dependencies": {\r\n\t\t"react": "^19.0.0"\r\n\t}\r\n}\r\n'
+    );
+  });
+
+  it('should only update the dependency of the given dependency type', () => {
+    const content = JSON.stringify(
+      {
+        scripts: { react: 'react-scripts start' },
+        devDependencies: { react: '^18.2.0' },
+        peerDependencies: { react: '>=17 <19' },
+      },
+      null,
+      2
+    );
+
+    const result = setDependencyVersion(content, 'peerDependencies', 'react', '>=17 <20');
+
+    expect(JSON.parse(result ?? '')).toEqual({
+      scripts: { react: 'react-scripts start' },
+      devDependencies: { react: '^18.2.0' },
+      peerDependencies: { react: '>=17 <20' },
+    });
+  });
+
+  it('should skip nested objects, arrays and strings with escaped characters', () => {
+    const content = JSON.stringify({
+      description: 'Uses "dependencies": { "react" } \\ {',
+      config: { dependencies: { react: '1.0.0' }, list: [{ react: '1.0.0' }, 1, true, null] },
+      dependencies: { '@scope/pkg': 'npm:other@^1.0.0' },
+    });
+
+    const result = setDependencyVersion(content, 'dependencies', '@scope/pkg', 'npm:other@^2.0.0');
+
+    expect(JSON.parse(result ?? '')).toEqual({
+      ...(JSON.parse(content) as object),
+      dependencies: { '@scope/pkg': 'npm:other@^2.0.0' },
+    });
+  });
+
+  it('should return undefined if the dependency is not listed', () => {
+    const content = '{ "dependencies": { "react": "^18.2.0" } }';
+
+    expect(setDependencyVersion(content, 'dependencies', 'vue', '^3.0.0')).toBeUndefined();
+
+    expect(setDependencyVersion(content, 'devDependencies', 'react', '^19.0.0')).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+// Position of a member value in the JSON text, the end is exclusive
+type ValueRange = {
+  start: number;
+  end: number;
+};
+
+const skipWhitespace = (content: string, index: number): number => {
+  while (index < content.length && /\s/.test(content[index])) {
+    index++;
+  }
+
+  return index;
+};
+
+/**
+ * Returns the index after the string starting at the given index, which must be a double quote
+ */
+const skipString = (content: string, index: number): number => {
+  for (let current = index + 1; current < content.length; current++) {
+    if (content[current] === '\\') {
+      current++;
+    } else if (content[current] === '"') {
+      return current + 1;
+    }
+  }
+
+  return content.length;
+};
+
+/**
+ * Returns the index after the value starting at the given index, skipping nested objects and arrays
+ */
+const skipValue = (content: string, index: number): number => {
+  if (content[index] === '"') {
+    return skipString(content, index);
+  }
+
+  if (content[index] !== '{' && content[index] !== '[') {
+    // Numbers, booleans and null end at the next delimiter
+    while (index < content.length && !/[\s,}\]]/.test(content[index])) {
+      index++;
+    }
+
+    return index;
+  }
+
+  let depth = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '"') {
+      index = skipString(content, index);
+
+      continue;
+    }
+
+    if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+
+      if (depth === 0) {
+        return index + 1;
+      }
+    }
+
+    index++;
+  }
+
+  return index;
+};
+
+/**
+ * Finds the value of a member of the object starting at the given index. Like JSON.parse,
+ * the last member wins if the key is used more than once.
+ */
+const findMember = (content: string, objectStart: number, key: string): ValueRange | undefined => {
+  if (content[objectStart] !== '{') {
+    return undefined;
+  }
+
+  let member: ValueRange | undefined;
+
+  let index = skipWhitespace(content, objectStart + 1);
+
+  while (index < content.length && content[index] === '"') {
+    const keyEnd = skipString(content, index);
+
+    const memberKey = JSON.parse(content.slice(index, keyEnd)) as string;
+
+    // Skip the colon between the key and the value
+    const valueStart = skipWhitespace(content, skipWhitespace(content, keyEnd) + 1);
+
+    const valueEnd = skipValue(content, valueStart);
+
+    if (memberKey === key) {
+      member = { start: valueStart, end: valueEnd };
+    }
+
+    index = skipWhitespace(content, valueEnd);
+
+    if (content[index] !== ',') {
+      break;
+    }
+
+    index = skipWhitespace(content, index + 1);
+  }
+
+  return member;
+};
+
+/**
+ * Sets the version of a dependency in the text of a package.json file. Only the version string
+ * is replaced, so indentation, line endings, the final newline and the order of keys are kept
+ * and the diff only contains the changed lines.
+ *
+ * @param {string} content - The text of the package.json file, which must be valid JSON
+ * @param {string} dependencyType - The dependency type, e.g. dependencies
+ * @param {string} packageName - The name of the dependency
+ * @param {string} version - The new version range
+ * @returns {string | undefined} The updated text, or undefined if the dependency isn't listed with a version string
+ * @example
+ * // Returns '{\r\n\t"dependencies": {\r\n\t\t"react": "^19.0.0"\r\n\t}\r\n}\r\n'
+ * setDependencyVersion('{\r\n\t"dependencies": {\r\n\t\t"react": "^18.2.0"\r\n\t}\r\n}\r\n', 'dependencies', 'react', '^19.0.0')
+ */
+const setDependencyVersion = (
+  content: string,
+  dependencyType: string,
+  packageName: string,
+  version: string
+): string | undefined => {
+  // The text may start with a byte order mark or whitespace
+  const dependencies = findMember(content, content.indexOf('{'), dependencyType);
+
+  const dependency = dependencies && findMember(content, dependencies.start, packageName);
+
+  if (!dependency || content[dependency.start] !== '"') {
+    return undefined;
+  }
+
+  return `${content.slice(0, dependency.start)}${JSON.stringify(version)}${content.slice(dependency.end)}`;
+};
+
+export default setDependencyVersion;
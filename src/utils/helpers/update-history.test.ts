@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { HISTORY_DIR_NAME } from '@/utils/constants';
+import getUserCacheDir from '@/utils/helpers/get-user-cache-dir';
+import getUserDataDir from '@/utils/helpers/get-user-data-dir';
+import RegistryCache from '@/utils/helpers/registry-cache';
+import UpdateHistory from '@/utils/helpers/update-history';
+import type { PackageUpdateInfo } from '@/utils/types';
+
+const update: PackageUpdateInfo = {
+  packageName: 'react',
+  dependencyType: 'dependencies',
+  currentVersion: '^18.2.0',
+  newVersion: '^19.0.0',
+  updateType: 'major',
+};
+
+describe('UpdateHistory', () => {
+  let projectDir: string;
+
+  let historyDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-project-'));
+
+    historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'check-my-deps-history-'));
+
+    jest.useFakeTimers().setSystemTime(new Date('2025-03-15T14:30:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+
+    fs.rmSync(projectDir, { recursive: true, force: true });
+
+    fs.rmSync(historyDir, { recursive: true, force: true });
+  });
+
+  it('should return an empty list when nothing has been saved', () => {
+    expect(new UpdateHistory(projectDir, historyDir).list()).toEqual([]);
+  });
+
+  it('should keep the history of each project in its own directory outside of it', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    history.save({ packageManager: 'npm', updates: [], files: [] });
+
+    expect(path.dirname(history.getDir())).toBe(historyDir);
+
+    expect(path.basename(history.getDir())).toMatch(
+      /^check-my-deps-project-[a-z0-9-]+-[0-9a-f]{12}$/
+    );
+
+    expect(fs.readdirSync(projectDir)).toEqual([]);
+
+    const otherProjectDir = path.join(projectDir, 'packages', 'web');
+
+    expect(new UpdateHistory(otherProjectDir, historyDir).getDir()).not.toBe(history.getDir());
+
+    expect(new UpdateHistory(otherProjectDir, historyDir).list()).toEqual([]);
+  });
+
+  it('should keep the history in the user data directory instead of the cache directory', () => {
+    const historyPath = new UpdateHistory(projectDir).getDir();
+
+    expect(historyPath.startsWith(path.join(getUserDataDir(), HISTORY_DIR_NAME))).toBe(true);
+
+    expect(path.relative(getUserCacheDir(), historyPath).startsWith('..')).toBe(true);
+  });
+
+  it('should keep the history when the registry cache is cleaned', async () => {
+    // Even a history kept inside the cache directory survives cleaning it
+    const history = new UpdateHistory(projectDir, path.join(historyDir, HISTORY_DIR_NAME));
+
+    const cache = new RegistryCache(historyDir);
+
+    const entry = history.save({ packageManager: 'npm', updates: [update], files: [] });
+
+    await cache.set('react', { url: 'react', storedAt: 1000, data: {} });
+
+    expect(cache.clean()).toBe(1);
+
+    expect(history.list()).toEqual([entry]);
+  });
+
+  it('should find the history of a project from a relative path', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    expect(new UpdateHistory(path.relative(process.cwd(), projectDir), historyDir).getDir()).toBe(
+      history.getDir()
+    );
+  });
+
+  it('should save runs with an ID based on the current time', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    const entry = history.save({
+      packageManager: 'npm',
+      updates: [update],
+      files: [{ path: 'package.json', content: '{}' }],
+    });
+
+    expect(entry).toEqual({
+      id: '20250315-143000',
+      timestamp: '2025-03-15T14:30:00.000Z',
+      packageManager: 'npm',
+      updates: [update],
+      files: [{ path: 'package.json', content: '{}' }],
+    });
+
+    expect(history.list()).toEqual([entry]);
+  });
+
+  it('should add a suffix to the IDs of runs in the same second', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    history.save({ packageManager: 'npm', updates: [], files: [] });
+
+    const entry = history.save({ packageManager: 'npm', updates: [], files: [] });
+
+    expect(entry.id).toBe('20250315-143000-2');
+
+    expect(history.list().map(({ id }) => id)).toEqual(['20250315-143000', '20250315-143000-2']);
+  });
+
+  it('should skip corrupted entries', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    history.save({ packageManager: 'npm', updates: [], files: [] });
+
+    fs.writeFileSync(path.join(history.getDir(), 'broken.json'), '{ not json');
+
+    expect(history.list()).toHaveLength(1);
+  });
+
+  it('should restore the files of the last run and remove it', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    history.save({
+      packageManager: 'npm',
+      updates: [update],
+      files: [{ path: 'package.json', content: 'first' }],
+    });
+
+    jest.setSystemTime(new Date('2025-03-16T09:00:00.000Z'));
+
+    history.save({
+      packageManager: 'npm',
+      updates: [update],
+      files: [{ path: 'package.json', content: 'second' }],
+    });
+
+    expect(history.restore().id).toBe('20250316-090000');
+
+    expect(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf8')).toBe('second');
+
+    expect(history.list().map(({ id }) => id)).toEqual(['20250315-143000']);
+  });
+
+  it('should restore a chosen run and remove the runs after it', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    history.save({
+      packageManager: 'npm',
+      updates: [update],
+      files: [{ path: 'package.json', content: 'first' }],
+    });
+
+    jest.setSystemTime(new Date('2025-03-16T09:00:00.000Z'));
+
+    history.save({ packageManager: 'npm', updates: [update], files: [] });
+
+    history.restore('20250315-143000');
+
+    expect(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf8')).toBe('first');
+
+    expect(history.list()).toEqual([]);
+  });
+
+  it('should throw if the run does not exist', () => {
+    const history = new UpdateHistory(projectDir, historyDir);
+
+    expect(() => history.restore()).toThrow('No update runs have been saved yet');
+
+    history.save({ packageManager: 'npm', updates: [], files: [] });
+
+    expect(() => history.restore('unknown')).toThrow('Update run "unknown" not found');
+  });
+});
@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+import { HISTORY_DIR_NAME } from '@/utils/constants';
+import getUserDataDir from '@/utils/helpers/get-user-data-dir';
+import sanitizeFileName from '@/utils/helpers/sanitize-file-name';
+import type { UpdateHistoryEntry } from '@/utils/types';
+
+/**
+ * Formats a date as a run ID, e.g. 20250315-143000
+ */
+const formatRunId = (date: Date): string =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace('T', '-')
+    .replace(/\.\d+Z$/, '');
+
+/**
+ * Returns the name of the history directory of a project, made of the name of the project
+ * directory and the hash of its absolute path, e.g. my-app-3f2a9c1d04b7
+ */
+const getProjectDirName = (projectDir: string): string => {
+  const hash = crypto.createHash('sha256').update(projectDir).digest('hex').slice(0, 12);
+
+  return `${sanitizeFileName(path.basename(projectDir)) || 'project'}-${hash}`;
+};
+
+/**
+ * The history of update runs of a project, kept outside of it so it never shows up as
+ * untracked files, and outside of the cache directory so cleaning the cache never removes it. Each run is stored as a JSON file named after its ID, which is the time of the run.
+ */
+class UpdateHistory {
+  private cwd: string;
+
+  private dir: string;
+
+  /**
+   * @param cwd The project directory
+   * @param baseDir The directory holding the histories of all projects (default: inside the user data directory)
+   */
+  constructor(cwd: string, baseDir: string = path.join(getUserDataDir(), HISTORY_DIR_NAME)) {
+    this.cwd = path.resolve(cwd);
+
+    this.dir = path.join(baseDir, getProjectDirName(this.cwd));
+  }
+
+  /**
+   * Returns the history directory
+   */
+  public getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Saves an update run
+   * @param entry The run without its ID and timestamp, which are set from the current time
+   * @returns The saved run
+   */
+  public save(entry: Omit<UpdateHistoryEntry, 'id' | 'timestamp'>): UpdateHistoryEntry {
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const date = new Date();
+
+    const baseId = formatRunId(date);
+
+    let id = baseId;
+
+    // Runs in the same second get a numeric suffix
+    for (let suffix = 2; fs.existsSync(this.getEntryPath(id)); suffix++) {
+      id = `${baseId}-${suffix}`;
+    }
+
+    const savedEntry: UpdateHistoryEntry = { id, timestamp: date.toISOString(), ...entry };
+
+    fs.writeFileSync(this.getEntryPath(id), JSON.stringify(savedEntry, null, 2), 'utf8');
+
+    return savedEntry;
+  }
+
+  /**
+   * Lists the saved update runs, oldest first. Files that can't be read are skipped.
+   */
+  public list(): UpdateHistoryEntry[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+
+    const entries: UpdateHistoryEntry[] = [];
+
+    for (const file of fs.readdirSync(this.dir).filter((name) => name.endsWith('.json'))) {
+      try {
+        entries.push(
+          JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')) as UpdateHistoryEntry
+        );
+      } catch {
+        // Ignore corrupted entries
+      }
+    }
+
+    return entries.sort(
+      (a, b) => a.timestamp.localeCompare(b.timestamp) || a.id.localeCompare(b.id)
+    );
+  }
+
+  /**
+   * Restores the files an update run changed to their contents before it. The run and the runs
+   * after it are removed from the history, as their changes are undone too.
+   * @param id The ID of the run, the last run by default
+   * @returns The restored run
+   * @throws Error if there is no saved run or no run with the ID
+   */
+  public restore(id?: string): UpdateHistoryEntry {
+    const entries = this.list();
+
+    const index = id ? entries.findIndex((entry) => entry.id === id) : entries.length - 1;
+
+    if (index === -1) {
+      throw new Error(
+        entries.length
+          ? `Update run "${id}" not found. Run the history command to list the saved runs.`
+          : 'No update runs have been saved yet'
+      );
+    }
+
+    const entry = entries[index];
+
+    for (const file of entry.files) {
+      fs.writeFileSync(path.resolve(this.cwd, file.path), file.content, 'utf8');
+    }
+
+    for (const removedEntry of entries.slice(index)) {
+      this.remove(removedEntry.id);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Removes an update run from the history
+   * @param id The ID of the run
+   */
+  public remove(id: string): void {
+    fs.rmSync(this.getEntryPath(id), { force: true });
+  }
+
+  private getEntryPath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+}
+
+export default UpdateHistory;
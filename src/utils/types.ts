@@ -36,28 +36,232 @@ export type PackageSpec = {
   dependencyType: string;
   registrySource?: string;
   updateStatus?: PackageStatus;
+  fetchStatus?: PackageFetchStatus;
+  error?: string;
   versionRequired: string;
+  // Workspace package that declares the dependency, only set for projects with workspaces
+  workspaceName?: string;
+  // Path of the workspace package relative to the project root, '.' for the project itself
+  workspacePath?: string;
+  // Packages that pulled in a transitive dependency, from the direct dependency down,
+  // e.g. ['express@4.21.2', 'body-parser@1.20.3']. Empty for direct dependencies
+  dependencyPath?: string[];
   versionInstalled?: PackageVersionSpec;
+  // Highest version satisfying versionRequired, i.e. what `npm update` installs without changing package.json
+  versionWanted?: PackageVersionSpec;
   versionLastPatch?: PackageVersionSpec;
   versionLastMinor?: PackageVersionSpec;
   versionLast?: PackageVersionSpec;
+  // Newest update that reached the minimum release age, only set when a minimum release age is set
+  versionEligible?: PackageVersionSpec;
+  // Dist-tag the latest version was taken from, e.g. latest or next
+  distTag?: string;
 };
 
 export type PackageStatus = 'upToDate' | 'major' | 'minor' | 'patch';
 
+// Parsed semantic version, e.g. 1.0.0-rc.1+build.5
+export type SemVer = {
+  major: number;
+  minor: number;
+  patch: number;
+  // Numeric identifiers are numbers, e.g. ['rc', 1]
+  prerelease: Array<string | number>;
+  build: string[];
+};
+
+// Whether the registry data of a package was fetched, failed to fetch or wasn't needed
+export type PackageFetchStatus = 'success' | 'failed' | 'skipped';
+
 export type NpmListDepItem = GenericObject<{
   version: string;
   resolved: string;
+  integrity?: string;
+  // Location of the package in the lockfile, e.g. node_modules/a/node_modules/b
+  location?: string;
+  // Version ranges the package requires for its own dependencies
+  requires?: Record<string, string>;
+  // Installed dependencies of the package. Shared packages are the same object, so the tree may contain cycles
+  dependencies?: Record<string, NpmListDepItem>;
 }>;
 
-// npm list --json
+// npm list --json, or the equivalent structure built from a lockfile
 export type NpmListData = GenericObject<{
   name: string;
   version: string;
   dependencies: Record<string, NpmListDepItem>;
+  // Direct dependencies of each workspace package, keyed by its path relative to the project root
+  workspaces?: Record<string, Record<string, NpmListDepItem>>;
+}>;
+
+// Project or workspace package whose direct dependencies start a walk of the dependency tree
+export type DependencyTreeRoot = {
+  name: string;
+  // Version ranges of the direct dependencies, from package.json
+  requires: Record<string, string>;
+  dependencies: Record<string, NpmListDepItem>;
+};
+
+// Package that requires a version of a duplicated package, e.g. express@4.21.2 requiring debug@2.6.9
+export type DuplicateDependent = {
+  // package@version, or the name of the project or workspace package for direct dependencies
+  dependent: string;
+  // Undefined if the lockfile doesn't record the required range, e.g. pnpm-lock.yaml
+  range?: string;
+};
+
+export type DuplicateVersion = {
+  version: string;
+  dependents: DuplicateDependent[];
+};
+
+// Package installed at more than one version
+export type DuplicatePackage = {
+  packageName: string;
+  // Installed versions, lowest first
+  versions: DuplicateVersion[];
+  // Highest installed version that satisfies the range of every dependent, if any
+  dedupeVersion?: string;
+};
+
+// package-lock.json "packages" entry (lockfile versions 2 and 3)
+export type PackageLockPackage = GenericObject<{
+  name?: string;
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  link?: boolean;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}>;
+
+// package-lock.json "dependencies" entry (lockfile versions 1 and 2)
+export type PackageLockDependency = GenericObject<{
+  version: string;
+  resolved?: string;
+  integrity?: string;
+  requires?: Record<string, string>;
+  dependencies?: Record<string, PackageLockDependency>;
+}>;
+
+// package-lock.json
+export type PackageLock = GenericObject<{
+  name?: string;
+  version?: string;
+  lockfileVersion?: number;
+  packages?: Record<string, PackageLockPackage>;
+  dependencies?: Record<string, PackageLockDependency>;
+}>;
+
+// pnpm-lock.yaml importer dependency, keyed by the name used in package.json
+export type PnpmLockImporterDependency = {
+  specifier: string;
+  // Resolved reference, e.g. 1.4.0(ms@2.1.3), ms@2.1.3 for aliases, file:... or link:...
+  version: string;
+};
+
+// pnpm-lock.yaml importer, i.e. the project itself or one of its workspace packages
+export type PnpmLockImporter = GenericObject<{
+  dependencies?: Record<string, PnpmLockImporterDependency>;
+  devDependencies?: Record<string, PnpmLockImporterDependency>;
+  optionalDependencies?: Record<string, PnpmLockImporterDependency>;
 }>;
 
+// pnpm-lock.yaml "packages" entry (and "snapshots" entry in lockfile format 9)
+export type PnpmLockPackage = GenericObject<{
+  resolution?: GenericObject<{
+    integrity?: string;
+    tarball?: string;
+    directory?: string;
+    repo?: string;
+    commit?: string;
+    type?: string;
+  }>;
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}>;
+
+// pnpm-lock.yaml, lockfile formats 6 and 9
+// Format 6 stores the root importer at the top level when the project has no workspaces
+export type PnpmLock = PnpmLockImporter &
+  GenericObject<{
+    lockfileVersion: string | number;
+    importers?: Record<string, PnpmLockImporter>;
+    packages?: Record<string, PnpmLockPackage>;
+    snapshots?: Record<string, PnpmLockPackage>;
+  }>;
+
+// yarn.lock entry, shared by every descriptor (name@range) that resolves to the same package
+// Yarn classic stores the tarball URL in `resolved`, Yarn Berry stores a locator in `resolution`
+export type YarnLockEntry = GenericObject<{
+  version: string;
+  resolved?: string;
+  resolution?: string;
+  integrity?: string;
+  checksum?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}>;
+
+// bun.lock workspace, i.e. the project itself ("") or one of its workspace packages
+export type BunLockWorkspace = GenericObject<{
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}>;
+
+// bun.lock "packages" entry, keyed by install path like express/debug
+// Registry packages: [name@version, registry URL or "", info, integrity]
+// Other packages: [name@source, info, ...], e.g. is-odd@file:local/is-odd or glob@github:isaacs/node-glob#1a2b3c
+export type BunLockPackage = [string, ...unknown[]];
+
+// Info object of a bun.lock "packages" entry
+export type BunLockPackageInfo = GenericObject<{
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}>;
+
+// bun.lock, the text lockfile of Bun
+export type BunLock = GenericObject<{
+  lockfileVersion: number;
+  workspaces?: Record<string, BunLockWorkspace>;
+  packages?: Record<string, BunLockPackage>;
+}>;
+
+// Package manager whose lockfile is used to resolve installed versions
+export type PackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+// Workspace package of a monorepo, or the project itself with the path '.'
+export type Workspace = {
+  name: string;
+  path: string;
+};
+
+// check-my-deps settings from the "check-my-deps" field of package.json
+export type PackageConfig = {
+  // Dist-tag each package is tracked against, overriding --tag, e.g. { react: 'next' }
+  distTags?: Record<string, string>;
+};
+
+// Lockfile detected in the project directory
+export type LockFile = {
+  packageManager: PackageManager;
+  fileName: string;
+  filePath: string;
+};
+
+// Registry document format: abbreviated ("corgi") install metadata or the full packument
+export type NpmRegistryDataMode = 'abbreviated' | 'full';
+
 // Direct npm registry API response type
+// Abbreviated documents only contain install-related fields, e.g. no `time`, `description` or `repository`
 export type NpmRegistryPackageData = GenericObject<{
   name: string;
   description?: string;
@@ -69,12 +273,28 @@ export type NpmRegistryPackageData = GenericObject<{
     homepage?: string;
     repository?: string | { type: string; url: string };
   }>;
-  time: Record<string, string>;
+  time?: Record<string, string>;
+  modified?: string;
   homepage?: string;
   repository?: string | { type: string; url: string };
   deprecated?: string | boolean;
 }>;
 
+// Credentials for a single registry, resolved from .npmrc
+export type NpmRegistryAuth = {
+  token?: string;
+  auth?: string;
+  username?: string;
+  password?: string;
+};
+
+// Registry configuration resolved from project, user and global .npmrc files
+export type NpmConfig = {
+  registry: string;
+  scopes: Record<string, string>;
+  auth: Record<string, NpmRegistryAuth>;
+};
+
 /**
  * Export command specific types
  */
@@ -85,20 +305,39 @@ export type SummaryStats = Record<PackageStatus | 'total' | 'deprecated', number
   fromNpmRegistry: number;
   notFromNpmRegistry: number;
   outdated: number; // Sum of major, minor, and patch
+  failed: number; // Packages whose registry data could not be fetched
+  behindWanted: number; // Packages whose installed version is lower than their wanted version
 };
 
 export type SummaryTotals = SummaryStats;
 
+// Filters limiting the analyzed direct dependencies, only set when given
+export type PackageFilters = {
+  // Package name globs or regular expressions, e.g. @types/* or /^eslint/
+  include?: string[];
+  exclude?: string[];
+  depTypes?: string[];
+};
+
 export type ReportInfo = {
   date: string;
   time: string;
   projectName: string;
   projectVersion: string;
+  // Filters in effect, meaning the report only covers part of the dependencies
+  filters?: PackageFilters;
 };
 
 export type Summary = {
   byType: Record<string, SummaryStats>;
+  // Statistics of each workspace package, keyed by its name. Only set for projects with workspaces
+  byWorkspace?: Record<string, SummaryStats>;
   totals: SummaryTotals;
+  // Packages installed at more than one version, and how many of them a single version could replace
+  duplicates: {
+    total: number;
+    dedupable: number;
+  };
   reportInfo: ReportInfo;
   sourceInfo?: {
     info: string;
@@ -112,11 +351,133 @@ export type Summary = {
 
 export type UpdateLevel = 'latest' | 'minor' | 'patch';
 
+// How version ranges are rewritten: keep their form, or normalize them to ^, ~ or exact versions
+export type RangeStyle = 'keep' | 'caret' | 'tilde' | 'exact';
+
+// How updates are grouped into commits with --git, one commit per package if not set
+export type GitGroup = 'update-type' | 'dependency-type';
+
+// Deprecated version and the deprecation message of the registry
+export type DeprecatedVersion = {
+  version: string;
+  reason: string;
+};
+
+// Version published too recently to be updated to, with the date it reaches the minimum release age
+export type HeldBackVersion = {
+  version: string;
+  // Undefined if the release date isn't known, then the version is never eligible
+  eligibleDate?: string;
+};
+
+export type UpdateTarget = {
+  version?: string;
+  // Deprecated versions above the target that were passed over, highest first
+  skippedVersions: DeprecatedVersion[];
+  // Versions above the target younger than the minimum release age, highest first
+  heldBackVersions: HeldBackVersion[];
+};
+
 export type PackageUpdateInfo = {
   packageName: string;
   dependencyType: string;
   currentVersion: string;
   newVersion: string;
   updateType: PackageStatus;
-  deprecated?: boolean;
+  skippedVersions?: DeprecatedVersion[];
+  heldBackVersions?: HeldBackVersion[];
+  // Release date of the new version, only known when release dates are fetched
+  releaseDate?: string;
+  workspaceName?: string;
+  workspacePath?: string;
+};
+
+// Package without an update because every newer version within the update level is deprecated
+export type DeprecatedUpdatesPackage = {
+  packageName: string;
+  dependencyType: string;
+  currentVersion: string;
+  skippedVersions: DeprecatedVersion[];
+  workspaceName?: string;
+};
+
+// Package without an update because every newer version within the update level is too recent
+export type HeldBackPackage = {
+  packageName: string;
+  dependencyType: string;
+  currentVersion: string;
+  heldBackVersions: HeldBackVersion[];
+  workspaceName?: string;
+};
+
+// Exit code and combined standard output and standard error of a shell command
+export type CommandResult = {
+  exitCode: number;
+  output: string;
+};
+
+// Step after an update that failed, e.g. Install or Verification, with the result of its command
+export type VerificationFailure = {
+  step: string;
+  command: string;
+  result: CommandResult;
+};
+
+// Update that fails verification on top of the passing updates, with the tail of the command output
+export type BisectFailure = {
+  update: PackageUpdateInfo;
+  step: string;
+  exitCode: number;
+  outputTail: string[];
+};
+
+export type BisectResult = {
+  timestamp: string;
+  verifyCommand: string;
+  // Number of times updates were installed and verified
+  trials: number;
+  // Largest set of updates found to pass verification together, which is applied
+  applied: PackageUpdateInfo[];
+  // Whether the applied updates were rolled back because they failed when verified again
+  rolledBack: boolean;
+  failing: BisectFailure[];
+};
+
+// A file saved before an update run, with its path relative to the project directory
+export type UpdateBackupFile = {
+  path: string;
+  content: string;
+};
+
+// An update run saved in the update history, with the files it changed as they were before it
+export type UpdateHistoryEntry = {
+  id: string;
+  timestamp: string;
+  packageManager: PackageManager;
+  updates: PackageUpdateInfo[];
+  files: UpdateBackupFile[];
+};
+
+// Updates a package can get at each update level, for choosing them interactively
+export type UpdateChoice = {
+  packageName: string;
+  dependencyType: string;
+  workspaceName?: string;
+  updateStatus?: PackageStatus;
+  updates: Partial<Record<UpdateLevel, PackageUpdateInfo>>;
+  // Initially selected level and whether the update is selected
+  level: UpdateLevel;
+  selected: boolean;
+};
+
+// Updates listed together under a label, e.g. "dependencies · major"
+export type UpdateChoiceGroup = {
+  label: string;
+  choices: UpdateChoice[];
+};
+
+// The updates to choose from and the index of the one under the cursor
+export type UpdateChoiceState = {
+  choices: UpdateChoice[];
+  cursor: number;
 };